@@ -0,0 +1,13 @@
+CREATE TABLE "tracked_changes" (
+	"id" text PRIMARY KEY NOT NULL,
+	"contract_id" text NOT NULL,
+	"revision_id" text,
+	"change_type" text NOT NULL,
+	"author" text,
+	"changed_at" timestamp with time zone,
+	"content" text NOT NULL,
+	"start_position" integer NOT NULL,
+	"end_position" integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tracked_changes" ADD CONSTRAINT "tracked_changes_contract_id_contracts_id_fk" FOREIGN KEY ("contract_id") REFERENCES "public"."contracts"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
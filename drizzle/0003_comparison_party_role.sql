@@ -0,0 +1 @@
+ALTER TABLE "comparisons" ADD COLUMN "party_role" text;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "comparisons" ADD COLUMN "progress_stage" text;--> statement-breakpoint
+ALTER TABLE "comparisons" ADD COLUMN "progress_current" integer;--> statement-breakpoint
+ALTER TABLE "comparisons" ADD COLUMN "progress_total" integer;--> statement-breakpoint
+ALTER TABLE "comparisons" ADD COLUMN "progress_percent" integer;--> statement-breakpoint
+ALTER TABLE "comparisons" ADD COLUMN "progress_started_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "comparisons" ADD COLUMN "progress_updated_at" timestamp with time zone;
\ No newline at end of file
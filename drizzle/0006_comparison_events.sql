@@ -0,0 +1,10 @@
+CREATE TABLE "comparison_events" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"comparison_id" text NOT NULL,
+	"org_id" text NOT NULL,
+	"event" text NOT NULL,
+	"data" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "comparison_events" ADD CONSTRAINT "comparison_events_comparison_id_comparisons_id_fk" FOREIGN KEY ("comparison_id") REFERENCES "public"."comparisons"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "llm_cache" (
+	"key" text PRIMARY KEY NOT NULL,
+	"operation" text NOT NULL,
+	"prompt_version" integer NOT NULL,
+	"model" text NOT NULL,
+	"content_hash" text NOT NULL,
+	"result" text NOT NULL,
+	"hit_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_hit_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "llm_cache_stats" (
+	"operation" text PRIMARY KEY NOT NULL,
+	"hits" integer DEFAULT 0 NOT NULL,
+	"misses" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
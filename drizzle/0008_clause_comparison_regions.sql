@@ -0,0 +1,4 @@
+ALTER TABLE "clause_comparisons" ADD COLUMN "source_start_position" integer;--> statement-breakpoint
+ALTER TABLE "clause_comparisons" ADD COLUMN "source_end_position" integer;--> statement-breakpoint
+ALTER TABLE "clause_comparisons" ADD COLUMN "target_start_position" integer;--> statement-breakpoint
+ALTER TABLE "clause_comparisons" ADD COLUMN "target_end_position" integer;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "clause_types" (
+	"id" text PRIMARY KEY NOT NULL,
+	"org_id" text NOT NULL,
+	"key" text NOT NULL,
+	"display_name" text NOT NULL,
+	"description" text,
+	"synonyms" text,
+	"parent_category" text,
+	"missing_risk" real DEFAULT 50 NOT NULL,
+	"extraction_hints" text,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "clause_types" ADD CONSTRAINT "clause_types_org_id_organizations_id_fk" FOREIGN KEY ("org_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "clause_comparisons" ADD COLUMN "definition_changes" text;
\ No newline at end of file
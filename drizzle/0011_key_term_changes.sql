@@ -0,0 +1,13 @@
+CREATE TABLE "key_term_changes" (
+	"id" text PRIMARY KEY NOT NULL,
+	"comparison_id" text NOT NULL,
+	"clause_comparison_id" text NOT NULL,
+	"kind" text NOT NULL,
+	"label" text,
+	"source_value" text,
+	"target_value" text,
+	"position" integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "key_term_changes" ADD CONSTRAINT "key_term_changes_comparison_id_comparisons_id_fk" FOREIGN KEY ("comparison_id") REFERENCES "public"."comparisons"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "key_term_changes" ADD CONSTRAINT "key_term_changes_clause_comparison_id_clause_comparisons_id_fk" FOREIGN KEY ("clause_comparison_id") REFERENCES "public"."clause_comparisons"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
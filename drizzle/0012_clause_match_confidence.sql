@@ -0,0 +1,2 @@
+ALTER TABLE "clause_comparisons" ADD COLUMN "match_confidence" real;--> statement-breakpoint
+ALTER TABLE "clause_comparisons" ADD COLUMN "match_reason" text;
\ No newline at end of file
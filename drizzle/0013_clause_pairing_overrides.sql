@@ -0,0 +1,11 @@
+CREATE TABLE "clause_pairing_overrides" (
+	"id" text PRIMARY KEY NOT NULL,
+	"comparison_id" text NOT NULL,
+	"source_clause_id" text,
+	"target_clause_id" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "clause_pairing_overrides" ADD CONSTRAINT "clause_pairing_overrides_comparison_id_comparisons_id_fk" FOREIGN KEY ("comparison_id") REFERENCES "public"."comparisons"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "clause_pairing_overrides" ADD CONSTRAINT "clause_pairing_overrides_source_clause_id_clauses_id_fk" FOREIGN KEY ("source_clause_id") REFERENCES "public"."clauses"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "clause_pairing_overrides" ADD CONSTRAINT "clause_pairing_overrides_target_clause_id_clauses_id_fk" FOREIGN KEY ("target_clause_id") REFERENCES "public"."clauses"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
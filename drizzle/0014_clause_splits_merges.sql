@@ -0,0 +1,2 @@
+ALTER TABLE "clause_comparisons" ADD COLUMN "merged_source_clause_ids" text;--> statement-breakpoint
+ALTER TABLE "clause_comparisons" ADD COLUMN "split_target_clause_ids" text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "clause_comparisons" ADD COLUMN "source_section_number" text;--> statement-breakpoint
+ALTER TABLE "clause_comparisons" ADD COLUMN "target_section_number" text;--> statement-breakpoint
+ALTER TABLE "clause_comparisons" ADD COLUMN "moved" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "clause_comparisons" ADD COLUMN "broken_cross_references" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "clause_comparisons" ADD COLUMN "needs_risk_analysis" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDatabase } from '@/lib/db';
+import {
+  getLlmCacheStats,
+  invalidateLlmCache,
+  LLM_CACHE_OPERATIONS,
+  type LlmCacheFilter,
+  type LlmCacheOperation,
+} from '@/lib/llm-cache';
+
+// Ensure database is initialized (async)
+async function ensureDbInitialized() {
+  await initializeDatabase();
+}
+
+// Admin requests must send ADMIN_API_KEY in the x-admin-key header; without the key configured
+// the admin endpoints don't exist. Returns the response to refuse the request with, if any.
+function rejectUnauthorized(request: NextRequest): NextResponse | null {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return NextResponse.json(
+      { error: 'Not found' },
+      { status: 404 }
+    );
+  }
+  if (request.headers.get('x-admin-key') !== adminKey) {
+    return NextResponse.json(
+      { error: 'Forbidden' },
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+// GET /api/admin/llm-cache - Hit/miss counts and entry counts for each cached LLM operation
+export async function GET(request: NextRequest) {
+  const rejection = rejectUnauthorized(request);
+  if (rejection) return rejection;
+
+  try {
+    await ensureDbInitialized();
+
+    const operations = await getLlmCacheStats();
+    const hits = operations.reduce((sum, o) => sum + o.hits, 0);
+    const misses = operations.reduce((sum, o) => sum + o.misses, 0);
+
+    return NextResponse.json({
+      operations,
+      totals: {
+        hits,
+        misses,
+        hitRate: hits + misses > 0 ? hits / (hits + misses) : null,
+        entries: operations.reduce((sum, o) => sum + o.entries, 0),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching LLM cache stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch LLM cache stats' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/llm-cache - Invalidate cached results, optionally filtered by operation, promptVersion and model
+export async function DELETE(request: NextRequest) {
+  const rejection = rejectUnauthorized(request);
+  if (rejection) return rejection;
+
+  try {
+    await ensureDbInitialized();
+
+    const searchParams = request.nextUrl.searchParams;
+    const operation = searchParams.get('operation');
+    const promptVersion = searchParams.get('promptVersion');
+    const model = searchParams.get('model');
+
+    if (operation && !LLM_CACHE_OPERATIONS.includes(operation as LlmCacheOperation)) {
+      return NextResponse.json(
+        { error: `operation must be one of: ${LLM_CACHE_OPERATIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (promptVersion && !/^\d+$/.test(promptVersion)) {
+      return NextResponse.json(
+        { error: 'promptVersion must be a whole number' },
+        { status: 400 }
+      );
+    }
+
+    const filter: LlmCacheFilter = {
+      operation: (operation as LlmCacheOperation | null) || undefined,
+      promptVersion: promptVersion ? Number(promptVersion) : undefined,
+      model: model || undefined,
+    };
+    const deleted = await invalidateLlmCache(filter);
+
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    console.error('Error invalidating LLM cache:', error);
+    return NextResponse.json(
+      { error: 'Failed to invalidate LLM cache' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, initializeDatabase, clauseTypes } from '@/lib/db';
+import { eq } from 'drizzle-orm';
+import { toClauseTypeDefinition } from '@/lib/clause-taxonomy';
+import { updateClauseTypeSchema, validateBody, ValidationError } from '@/lib/validations';
+
+// Ensure database is initialized (async)
+async function ensureDbInitialized() {
+  await initializeDatabase();
+}
+
+// GET /api/clause-types/[id] - Get a clause type
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureDbInitialized();
+    const { id } = await params;
+
+    const [clauseType] = await db
+      .select()
+      .from(clauseTypes)
+      .where(eq(clauseTypes.id, id));
+
+    if (!clauseType) {
+      return NextResponse.json(
+        { error: 'Clause type not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ clauseType: toClauseTypeDefinition(clauseType) });
+  } catch (error) {
+    console.error('Error fetching clause type:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch clause type' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/clause-types/[id] - Update a clause type; its key can't change, as stored clauses refer to it
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureDbInitialized();
+    const { id } = await params;
+    const body = await request.json();
+
+    let validatedData;
+    try {
+      validatedData = validateBody(updateClauseTypeSchema, body);
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
+    const [existing] = await db
+      .select()
+      .from(clauseTypes)
+      .where(eq(clauseTypes.id, id));
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Clause type not found' },
+        { status: 404 }
+      );
+    }
+
+    const { displayName, description, synonyms, parentCategory, missingRisk, extractionHints, sortOrder } = validatedData;
+
+    const updateData: Record<string, unknown> = { updatedAt: new Date() };
+    if (displayName !== undefined) updateData.displayName = displayName;
+    if (description !== undefined) updateData.description = description || null;
+    if (synonyms !== undefined) updateData.synonyms = synonyms.length > 0 ? JSON.stringify(synonyms) : null;
+    if (parentCategory !== undefined) updateData.parentCategory = parentCategory || null;
+    if (missingRisk !== undefined) updateData.missingRisk = missingRisk;
+    if (extractionHints !== undefined) updateData.extractionHints = extractionHints || null;
+    if (sortOrder !== undefined) updateData.sortOrder = sortOrder;
+
+    const [clauseType] = await db
+      .update(clauseTypes)
+      .set(updateData)
+      .where(eq(clauseTypes.id, id))
+      .returning();
+
+    return NextResponse.json({ clauseType: toClauseTypeDefinition(clauseType) });
+  } catch (error) {
+    console.error('Error updating clause type:', error);
+    return NextResponse.json(
+      { error: 'Failed to update clause type' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/clause-types/[id] - Remove a clause type (clauses already extracted as it keep their type)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureDbInitialized();
+    const { id } = await params;
+
+    await db.delete(clauseTypes).where(eq(clauseTypes.id, id));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting clause type:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete clause type' },
+      { status: 500 }
+    );
+  }
+}
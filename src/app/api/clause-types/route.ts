@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, initializeDatabase, clauseTypes, organizations } from '@/lib/db';
+import { eq } from 'drizzle-orm';
+import { clauseTypeValues, getClauseTaxonomy, toClauseTypeDefinition } from '@/lib/clause-taxonomy';
+import { createClauseTypeSchema, validateBody, ValidationError } from '@/lib/validations';
+import { v4 as uuidv4 } from 'uuid';
+
+// Ensure database is initialized (async)
+async function ensureDbInitialized() {
+  await initializeDatabase();
+}
+
+// GET /api/clause-types - List an org's clause taxonomy
+export async function GET(request: NextRequest) {
+  try {
+    await ensureDbInitialized();
+
+    const searchParams = request.nextUrl.searchParams;
+    const orgId = searchParams.get('orgId') || process.env.DEFAULT_ORG_ID || 'demo-org';
+
+    const [organization] = await db
+      .select({ id: organizations.id })
+      .from(organizations)
+      .where(eq(organizations.id, orgId));
+
+    // An unknown org has no taxonomy to seed yet
+    if (!organization) {
+      return NextResponse.json({ clauseTypes: [] });
+    }
+
+    return NextResponse.json({ clauseTypes: await getClauseTaxonomy(orgId) });
+  } catch (error) {
+    console.error('Error fetching clause types:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch clause types' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/clause-types - Add a clause type to an org's taxonomy
+export async function POST(request: NextRequest) {
+  try {
+    await ensureDbInitialized();
+
+    const body = await request.json();
+
+    let validatedData;
+    try {
+      validatedData = validateBody(createClauseTypeSchema, body);
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
+    const { orgId: inputOrgId, ...input } = validatedData;
+    const orgId = inputOrgId || process.env.DEFAULT_ORG_ID || 'demo-org';
+
+    // Ensure organization exists
+    const existingOrg = await db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, orgId))
+      .limit(1);
+
+    if (existingOrg.length === 0) {
+      await db.insert(organizations).values({
+        id: orgId,
+        name: 'Demo Organization',
+      });
+    }
+
+    // The new type goes after the defaults, which are seeded first
+    const taxonomy = await getClauseTaxonomy(orgId);
+
+    if (taxonomy.some(entry => entry.key === input.key)) {
+      return NextResponse.json(
+        { error: `Clause type "${input.key}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const [clauseType] = await db
+      .insert(clauseTypes)
+      .values({
+        id: uuidv4(),
+        orgId,
+        key: input.key,
+        ...clauseTypeValues(input),
+        sortOrder: input.sortOrder ?? Math.max(-1, ...taxonomy.map(entry => entry.sortOrder)) + 1,
+      })
+      .returning();
+
+    return NextResponse.json({ clauseType: toClauseTypeDefinition(clauseType) });
+  } catch (error) {
+    console.error('Error creating clause type:', error);
+    return NextResponse.json(
+      { error: 'Failed to create clause type' },
+      { status: 500 }
+    );
+  }
+}
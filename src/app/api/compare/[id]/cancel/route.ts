@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, initializeDatabase, comparisons } from '@/lib/db';
+import { eq } from 'drizzle-orm';
+import { cancelComparison } from '@/lib/jobs';
+
+// Ensure database is initialized (async)
+async function ensureDbInitialized() {
+  await initializeDatabase();
+}
+
+// POST /api/compare/[id]/cancel - Stop a processing comparison and abort its in-flight LLM calls
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureDbInitialized();
+    const { id } = await params;
+
+    const [existing] = await db
+      .select({ id: comparisons.id })
+      .from(comparisons)
+      .where(eq(comparisons.id, id));
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Comparison not found' },
+        { status: 404 }
+      );
+    }
+
+    const comparison = await cancelComparison(id);
+
+    if (!comparison) {
+      return NextResponse.json(
+        { error: 'Only processing comparisons can be cancelled' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      comparison: {
+        id: comparison.id,
+        comparisonStatus: comparison.comparisonStatus,
+        completedAt: comparison.completedAt,
+      },
+    });
+  } catch (error) {
+    console.error('Error cancelling comparison:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel comparison' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDatabase } from '@/lib/db';
+import { loadComparisonForExport, exportFilename } from '@/lib/export/data';
+import { buildDocxRedline } from '@/lib/export/docx-redline';
+import { buildPdfReport, type ReportBranding } from '@/lib/export/pdf-report';
+import { buildCsv, buildXlsx } from '@/lib/export/spreadsheet';
+import { exportBrandingSchema, validateBody, ValidationError } from '@/lib/validations';
+
+const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Ensure database is initialized (async)
+async function ensureDbInitialized() {
+  await initializeDatabase();
+}
+
+function attachment(body: string | ArrayBuffer | Uint8Array, contentType: string, filename: string) {
+  return new NextResponse(new Blob([body as BlobPart], { type: contentType }), {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+async function exportComparison(id: string, format: string, branding: ReportBranding) {
+  const data = await loadComparisonForExport(id);
+  if (!data) {
+    return NextResponse.json(
+      { error: 'Comparison not found' },
+      { status: 404 }
+    );
+  }
+
+  if (data.comparison.comparisonStatus !== 'completed') {
+    return NextResponse.json(
+      { error: 'Comparison must be completed before it can be exported' },
+      { status: 409 }
+    );
+  }
+
+  switch (format) {
+    case 'docx':
+      return attachment(
+        await buildDocxRedline(data),
+        DOCX_CONTENT_TYPE,
+        exportFilename(data, 'redline', 'docx')
+      );
+    case 'pdf':
+      return attachment(
+        await buildPdfReport(data, branding),
+        'application/pdf',
+        exportFilename(data, 'report', 'pdf')
+      );
+    case 'xlsx':
+      return attachment(
+        await buildXlsx(data),
+        XLSX_CONTENT_TYPE,
+        exportFilename(data, 'clauses', 'xlsx')
+      );
+    case 'csv':
+      return attachment(
+        buildCsv(data),
+        'text/csv; charset=utf-8',
+        exportFilename(data, 'clauses', 'csv')
+      );
+    default:
+      return NextResponse.json(
+        { error: `Unsupported export format: ${format}` },
+        { status: 400 }
+      );
+  }
+}
+
+// GET /api/compare/[id]/export?format=docx|pdf|xlsx|csv - Download a comparison
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureDbInitialized();
+    const { id } = await params;
+    const format = request.nextUrl.searchParams.get('format') || 'docx';
+
+    return await exportComparison(id, format, {});
+  } catch (error) {
+    console.error('Error exporting comparison:', error);
+    return NextResponse.json(
+      { error: 'Failed to export comparison' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/compare/[id]/export?format=pdf - Download a comparison with report branding
+// Branding lives in the browser, so it is sent in the body: { siteName, logoUrl }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureDbInitialized();
+    const { id } = await params;
+    const format = request.nextUrl.searchParams.get('format') || 'pdf';
+    const body = await request.json().catch(() => ({}));
+
+    let branding;
+    try {
+      branding = validateBody(exportBrandingSchema, body);
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
+    return await exportComparison(id, format, branding);
+  } catch (error) {
+    console.error('Error exporting comparison:', error);
+    return NextResponse.json(
+      { error: 'Failed to export comparison' },
+      { status: 500 }
+    );
+  }
+}
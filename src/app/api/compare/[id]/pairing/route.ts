@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, initializeDatabase, comparisons } from '@/lib/db';
+import { eq } from 'drizzle-orm';
+import { correctClausePairing } from '@/lib/comparison-pipeline';
+import { ClausePairingError } from '@/lib/clause-pairing';
+import { wakeWorker } from '@/lib/worker';
+import { clausePairingSchema, validateBody, ValidationError } from '@/lib/validations';
+
+// Ensure database is initialized (async)
+async function ensureDbInitialized() {
+  await initializeDatabase();
+}
+
+// POST /api/compare/[id]/pairing - Correct how a completed comparison paired its clauses and queue the affected ones for re-scoring
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureDbInitialized();
+    const { id } = await params;
+    const body = await request.json();
+
+    let correction;
+    try {
+      correction = validateBody(clausePairingSchema, body);
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
+    const [existing] = await db
+      .select({ id: comparisons.id })
+      .from(comparisons)
+      .where(eq(comparisons.id, id));
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Comparison not found' },
+        { status: 404 }
+      );
+    }
+
+    let comparison;
+    try {
+      comparison = await correctClausePairing(id, correction);
+    } catch (err) {
+      if (err instanceof ClausePairingError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
+    if (!comparison) {
+      return NextResponse.json(
+        { error: 'Only completed comparisons can be re-paired' },
+        { status: 409 }
+      );
+    }
+
+    // Changed pairings are scored, and the summary rebuilt, by the job the correction queued
+    if (comparison.comparisonStatus === 'processing') {
+      wakeWorker();
+    }
+
+    return NextResponse.json({
+      success: true,
+      comparison: {
+        id: comparison.id,
+        comparisonStatus: comparison.comparisonStatus,
+      },
+    });
+  } catch (error) {
+    console.error('Error correcting clause pairing:', error);
+    return NextResponse.json(
+      { error: 'Failed to correct clause pairing' },
+      { status: 500 }
+    );
+  }
+}
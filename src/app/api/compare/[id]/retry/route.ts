@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, initializeDatabase, comparisons } from '@/lib/db';
+import { eq } from 'drizzle-orm';
+import { retryComparison } from '@/lib/jobs';
+import { wakeWorker } from '@/lib/worker';
+
+// Ensure database is initialized (async)
+async function ensureDbInitialized() {
+  await initializeDatabase();
+}
+
+// POST /api/compare/[id]/retry - Re-run a failed or cancelled comparison, reusing the stages that finished
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureDbInitialized();
+    const { id } = await params;
+
+    const [existing] = await db
+      .select({ id: comparisons.id })
+      .from(comparisons)
+      .where(eq(comparisons.id, id));
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Comparison not found' },
+        { status: 404 }
+      );
+    }
+
+    const comparison = await retryComparison(id);
+
+    if (!comparison) {
+      return NextResponse.json(
+        { error: 'Only failed or cancelled comparisons can be retried' },
+        { status: 409 }
+      );
+    }
+
+    wakeWorker();
+
+    return NextResponse.json({
+      comparison: {
+        id: comparison.id,
+        comparisonStatus: comparison.comparisonStatus,
+      },
+    });
+  } catch (error) {
+    console.error('Error retrying comparison:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry comparison' },
+      { status: 500 }
+    );
+  }
+}
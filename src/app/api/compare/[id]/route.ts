@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db, initializeDatabase, contracts, clauses, comparisons, clauseComparisons } from '@/lib/db';
-import { eq } from 'drizzle-orm';
+import { db, initializeDatabase, contracts, clauses, comparisons, clauseComparisons, keyTermChanges, trackedChanges, playbooks } from '@/lib/db';
+import { asc, eq } from 'drizzle-orm';
+import { ensureClausePositions } from '@/lib/clause-extraction';
+import { regionClause } from '@/lib/document-coverage';
+import { parseDefinitionChanges } from '@/lib/defined-terms';
+import { describeClauseGroup, parseClauseIds } from '@/lib/clause-groups';
+import { describeClauseMovement, parseBrokenCrossReferences } from '@/lib/clause-movement';
+import { cancelComparison } from '@/lib/jobs';
 
 // Ensure database is initialized (async)
 async function ensureDbInitialized() {
@@ -34,7 +40,7 @@ export async function GET(
       .from(contracts)
       .where(eq(contracts.id, comparison.sourceContractId));
 
-    const sourceClauses = await db
+    let sourceClauses = await db
       .select()
       .from(clauses)
       .where(eq(clauses.contractId, comparison.sourceContractId));
@@ -45,19 +51,61 @@ export async function GET(
       .from(contracts)
       .where(eq(contracts.id, comparison.targetContractId));
 
-    const targetClauses = await db
+    let targetClauses = await db
       .select()
       .from(clauses)
       .where(eq(clauses.contractId, comparison.targetContractId));
 
+    // Clauses extracted before positions were recorded get them on first view
+    if (sourceContract?.rawText) {
+      sourceClauses = await ensureClausePositions(sourceContract.rawText, sourceClauses);
+    }
+    if (targetContract?.rawText) {
+      targetClauses = await ensureClausePositions(targetContract.rawText, targetClauses);
+    }
+
+    // Get Word tracked changes (only present for comparisons imported from a redlined DOCX)
+    const sourceTrackedChanges = await db
+      .select()
+      .from(trackedChanges)
+      .where(eq(trackedChanges.contractId, comparison.sourceContractId))
+      .orderBy(asc(trackedChanges.startPosition));
+
+    const targetTrackedChanges = await db
+      .select()
+      .from(trackedChanges)
+      .where(eq(trackedChanges.contractId, comparison.targetContractId))
+      .orderBy(asc(trackedChanges.startPosition));
+
     // Get clause comparisons with clause details
     const comparisonClauseComparisons = await db
       .select()
       .from(clauseComparisons)
       .where(eq(clauseComparisons.comparisonId, id));
 
+    // Changed figures and dates, grouped under their clause comparison in document order
+    const comparisonKeyTermChanges = await db
+      .select()
+      .from(keyTermChanges)
+      .where(eq(keyTermChanges.comparisonId, id))
+      .orderBy(asc(keyTermChanges.position));
+
+    const keyTermChangesFor = (clauseComparisonId: string) =>
+      comparisonKeyTermChanges.filter(change => change.clauseComparisonId === clauseComparisonId);
+
     const clauseComparisonsWithDetails = await Promise.all(
       comparisonClauseComparisons.map(async (cc) => {
+        // Changes outside every clause carry their own text spans instead of clause ids
+        if (cc.status === 'other') {
+          return {
+            ...cc,
+            riskFactors: cc.riskFactors ? JSON.parse(cc.riskFactors) : null,
+            keyTermChanges: keyTermChangesFor(cc.id),
+            sourceClause: sourceContract ? regionClause(cc, 'source', sourceContract) : null,
+            targetClause: targetContract ? regionClause(cc, 'target', targetContract) : null,
+          };
+        }
+
         const sourceClause = cc.sourceClauseId
           ? (await db.select().from(clauses).where(eq(clauses.id, cc.sourceClauseId)))[0]
           : null;
@@ -65,25 +113,51 @@ export async function GET(
           ? (await db.select().from(clauses).where(eq(clauses.id, cc.targetClauseId)))[0]
           : null;
 
+        // The rest of a merge's original clauses or a split's revised ones
+        const mergedSourceClauses = parseClauseIds(cc.mergedSourceClauseIds)
+          .flatMap(clauseId => sourceClauses.find(c => c.id === clauseId) ?? []);
+        const splitTargetClauses = parseClauseIds(cc.splitTargetClauseIds)
+          .flatMap(clauseId => targetClauses.find(c => c.id === clauseId) ?? []);
+
         return {
           ...cc,
           riskFactors: cc.riskFactors ? JSON.parse(cc.riskFactors) : null,
+          definitionChanges: parseDefinitionChanges(cc.definitionChanges),
+          brokenCrossReferences: parseBrokenCrossReferences(cc.brokenCrossReferences),
+          keyTermChanges: keyTermChangesFor(cc.id),
           sourceClause,
           targetClause,
+          mergedSourceClauses,
+          splitTargetClauses,
+          clauseGroup: sourceClause && targetClause
+            ? describeClauseGroup([sourceClause, ...mergedSourceClauses], [targetClause, ...splitTargetClauses])
+            : null,
+          clauseMovement: describeClauseMovement(cc),
         };
       })
     );
 
+    // Playbook the clauses were scored against, if any
+    const [playbook] = comparison.playbookId
+      ? await db
+          .select({ id: playbooks.id, name: playbooks.name })
+          .from(playbooks)
+          .where(eq(playbooks.id, comparison.playbookId))
+      : [];
+
     return NextResponse.json({
       comparison: {
         ...comparison,
+        playbook: playbook ?? null,
         sourceContract: {
           ...sourceContract,
           clauses: sourceClauses,
+          trackedChanges: sourceTrackedChanges,
         },
         targetContract: {
           ...targetContract,
           clauses: targetClauses,
+          trackedChanges: targetTrackedChanges,
         },
         clauseComparisons: clauseComparisonsWithDetails,
       },
@@ -152,6 +226,10 @@ export async function DELETE(
     await ensureDbInitialized();
     const { id } = await params;
 
+    // Stop a processing comparison's job first, so its worker aborts now instead of running on
+    // until it notices the comparison is gone
+    await cancelComparison(id);
+
     // Delete clause comparisons first
     await db.delete(clauseComparisons).where(eq(clauseComparisons.comparisonId, id));
 
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db, initializeDatabase, comparisons } from '@/lib/db';
-import { eq } from 'drizzle-orm';
+import { db, initializeDatabase, comparisons, comparisonJobs } from '@/lib/db';
+import { desc, eq } from 'drizzle-orm';
 
 // Ensure database is initialized (async)
 async function ensureDbInitialized() {
@@ -35,6 +35,20 @@ export async function GET(
       );
     }
 
+    // Latest queue entry, so a retrying comparison can say which attempt it is on
+    const [job] = await db
+      .select({
+        status: comparisonJobs.status,
+        attempts: comparisonJobs.attempts,
+        maxAttempts: comparisonJobs.maxAttempts,
+        runAfter: comparisonJobs.runAfter,
+        lastError: comparisonJobs.lastError,
+      })
+      .from(comparisonJobs)
+      .where(eq(comparisonJobs.comparisonId, id))
+      .orderBy(desc(comparisonJobs.createdAt))
+      .limit(1);
+
     return NextResponse.json({
       id: comparison.id,
       name: comparison.name,
@@ -42,6 +56,7 @@ export async function GET(
       errorMessage: comparison.errorMessage,
       createdAt: comparison.createdAt,
       completedAt: comparison.completedAt,
+      job: job || null,
     });
   } catch (error) {
     console.error('Error fetching comparison status:', error);
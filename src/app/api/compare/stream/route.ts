@@ -1,109 +1,189 @@
 import { NextRequest } from 'next/server';
 import { db, initializeDatabase, comparisons } from '@/lib/db';
-import { eq } from 'drizzle-orm';
+import type { ComparisonEvent } from '@/lib/db';
+import { and, eq, inArray } from 'drizzle-orm';
+import {
+  getComparisonEventsSince,
+  getLatestComparisonEventId,
+  subscribeToComparisonEvents,
+} from '@/lib/events';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+const RECONNECT_DELAY_MS = 3000;
 
 // Ensure database is initialized (async)
 async function ensureDbInitialized() {
   await initializeDatabase();
 }
 
-// GET /api/compare/stream - Stream status updates for processing comparisons
+// GET /api/compare/stream - Stream status and progress updates for processing comparisons
 export async function GET(request: NextRequest) {
   await ensureDbInitialized();
-  
+
   const searchParams = request.nextUrl.searchParams;
   const orgId = searchParams.get('orgId') || process.env.DEFAULT_ORG_ID || 'demo-org';
   // Optional: filter to specific comparison IDs (comma-separated)
   const idsParam = searchParams.get('ids');
   const filterIds = idsParam ? idsParam.split(',') : null;
+  // Browsers send Last-Event-ID when they reconnect; the query param covers manual resumes
+  const lastEventIdParam = request.headers.get('last-event-id') || searchParams.get('lastEventId');
+  const lastEventId = lastEventIdParam && /^\d+$/.test(lastEventIdParam) ? Number(lastEventIdParam) : null;
 
   const encoder = new TextEncoder();
-  
+
   const stream = new ReadableStream({
     async start(controller) {
+      let isActive = true;
+      let unsubscribe: (() => void) | null = null;
+      let heartbeat: ReturnType<typeof setInterval> | null = null;
+
       // Helper to send SSE message
-      const sendEvent = (event: string, data: unknown) => {
+      const sendEvent = (event: string, data: unknown, id?: number) => {
+        if (!isActive) return;
+        if (id !== undefined) {
+          controller.enqueue(encoder.encode(`id: ${id}\n`));
+        }
         controller.enqueue(encoder.encode(`event: ${event}\n`));
         controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
       };
 
-      // Track last known status for each comparison
-      const lastStatus = new Map<string, string>();
-      let isActive = true;
-
-      const checkForUpdates = async () => {
+      const close = () => {
         if (!isActive) return;
-        
+        isActive = false;
+        unsubscribe?.();
+        if (heartbeat) clearInterval(heartbeat);
         try {
-          // Fetch all comparisons (or filtered ones)
-          let query = db
-            .select({
-              id: comparisons.id,
-              name: comparisons.name,
-              comparisonStatus: comparisons.comparisonStatus,
-              overallRiskScore: comparisons.overallRiskScore,
-              errorMessage: comparisons.errorMessage,
-              completedAt: comparisons.completedAt,
-            })
-            .from(comparisons)
-            .where(eq(comparisons.orgId, orgId));
-
-          const results = await query;
-          
-          // Filter to requested IDs if specified
-          const filteredResults = filterIds 
-            ? results.filter(c => filterIds.includes(c.id))
-            : results;
-
-          // Check for status changes
-          for (const comparison of filteredResults) {
-            const lastKnownStatus = lastStatus.get(comparison.id);
-            
-            // Send update if status changed or this is a new comparison we're tracking
-            if (lastKnownStatus !== comparison.comparisonStatus) {
-              sendEvent('status', {
-                id: comparison.id,
-                name: comparison.name,
-                status: comparison.comparisonStatus,
-                overallRiskScore: comparison.overallRiskScore,
-                errorMessage: comparison.errorMessage,
-                completedAt: comparison.completedAt,
-              });
-              lastStatus.set(comparison.id, comparison.comparisonStatus);
-            }
-          }
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener('abort', close);
+
+      // Track last known status for each comparison, to tell when none are left processing
+      const lastStatus = new Map<string, string>();
+      // Id of the last stored event sent; live events at or below it were already replayed
+      let cursor = 0;
+      // Live events that arrive while the snapshot or replay is being sent
+      let buffered: ComparisonEvent[] | null = [];
+
+      const isTracked = (event: ComparisonEvent) =>
+        event.orgId === orgId && (!filterIds || filterIds.includes(event.comparisonId));
+
+      const relay = (event: ComparisonEvent) => {
+        if (event.id <= cursor) return;
+        cursor = event.id;
+
+        const data = JSON.parse(event.data);
+        sendEvent(event.event, data, event.id);
 
-          // Check if there are still processing comparisons
-          const hasProcessing = filteredResults.some(c => c.comparisonStatus === 'processing');
-          
-          if (hasProcessing && isActive) {
-            // Continue checking every 2 seconds while there are processing items
-            setTimeout(checkForUpdates, 2000);
-          } else if (isActive) {
-            // No more processing items, send a done event and close
+        if (event.event === 'status') {
+          lastStatus.set(event.comparisonId, data.status);
+          if (![...lastStatus.values()].includes('processing')) {
             sendEvent('done', { message: 'All comparisons complete' });
-            controller.close();
-          }
-        } catch (error) {
-          console.error('SSE check error:', error);
-          sendEvent('error', { message: 'Failed to check status' });
-          // Retry after a longer delay on error
-          if (isActive) {
-            setTimeout(checkForUpdates, 5000);
+            close();
           }
         }
       };
 
-      // Send initial heartbeat
-      sendEvent('connected', { message: 'Connected to status stream' });
-      
-      // Start checking for updates
-      await checkForUpdates();
+      try {
+        controller.enqueue(encoder.encode(`retry: ${RECONNECT_DELAY_MS}\n\n`));
+        sendEvent('connected', { message: 'Connected to status stream' });
 
-      // Handle client disconnect
-      request.signal.addEventListener('abort', () => {
-        isActive = false;
-      });
+        unsubscribe = await subscribeToComparisonEvents(event => {
+          if (!isTracked(event)) return;
+          if (buffered) buffered.push(event);
+          else relay(event);
+        });
+        if (!isActive) {
+          unsubscribe();
+          return;
+        }
+
+        // Anything stored after this id arrives live or through the replay below
+        const latestEventId = await getLatestComparisonEventId();
+
+        const current = await db
+          .select({
+            id: comparisons.id,
+            name: comparisons.name,
+            comparisonStatus: comparisons.comparisonStatus,
+            overallRiskScore: comparisons.overallRiskScore,
+            errorMessage: comparisons.errorMessage,
+            completedAt: comparisons.completedAt,
+            progressStage: comparisons.progressStage,
+            progressCurrent: comparisons.progressCurrent,
+            progressTotal: comparisons.progressTotal,
+            progressPercent: comparisons.progressPercent,
+            progressStartedAt: comparisons.progressStartedAt,
+            progressUpdatedAt: comparisons.progressUpdatedAt,
+          })
+          .from(comparisons)
+          .where(and(
+            eq(comparisons.orgId, orgId),
+            filterIds ? inArray(comparisons.id, filterIds) : undefined
+          ));
+
+        for (const comparison of current) {
+          lastStatus.set(comparison.id, comparison.comparisonStatus);
+        }
+
+        if (lastEventId !== null) {
+          // Resuming: send only what was missed since the client's last event
+          cursor = lastEventId;
+          for (const event of await getComparisonEventsSince(orgId, lastEventId, filterIds)) {
+            relay(event);
+          }
+        } else {
+          // Fresh connection: send the current state, stamped so a reconnect resumes from here
+          for (const comparison of current) {
+            sendEvent('status', {
+              id: comparison.id,
+              name: comparison.name,
+              status: comparison.comparisonStatus,
+              overallRiskScore: comparison.overallRiskScore,
+              errorMessage: comparison.errorMessage,
+              completedAt: comparison.completedAt,
+            }, latestEventId);
+
+            if (comparison.comparisonStatus === 'processing' && comparison.progressStage) {
+              sendEvent('progress', {
+                id: comparison.id,
+                stage: comparison.progressStage,
+                current: comparison.progressCurrent,
+                total: comparison.progressTotal,
+                percent: comparison.progressPercent ?? 0,
+                startedAt: comparison.progressStartedAt,
+                updatedAt: comparison.progressUpdatedAt,
+              }, latestEventId);
+            }
+          }
+          cursor = Math.max(cursor, latestEventId);
+        }
+
+        const pending = buffered;
+        buffered = null;
+        for (const event of pending) {
+          relay(event);
+        }
+
+        if (!isActive) return;
+        if (![...lastStatus.values()].includes('processing')) {
+          sendEvent('done', { message: 'All comparisons complete' });
+          close();
+          return;
+        }
+
+        // Comment lines keep proxies from timing out an idle connection
+        heartbeat = setInterval(() => {
+          if (isActive) controller.enqueue(encoder.encode(`: heartbeat ${Date.now()}\n\n`));
+        }, HEARTBEAT_INTERVAL_MS);
+      } catch (error) {
+        console.error('SSE stream error:', error);
+        sendEvent('error', { message: 'Failed to stream status updates' });
+        close();
+      }
     },
   });
 
@@ -116,4 +196,3 @@ export async function GET(request: NextRequest) {
     },
   });
 }
-
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, initializeDatabase, contracts, organizations } from '@/lib/db';
+import { eq } from 'drizzle-orm';
+import { getContentType } from '@/lib/utils';
+import {
+  extractTextFromFile,
+  getIngestibleFileKind,
+  IngestionError,
+  UNSUPPORTED_FILE_MESSAGE,
+} from '@/lib/ingestion';
+import {
+  uploadContractSchema,
+  validateBody,
+  ValidationError,
+  MAX_CONTRACT_TEXT_LENGTH,
+  MAX_FILENAME_LENGTH,
+  MAX_UPLOAD_SIZE_BYTES,
+} from '@/lib/validations';
+import { v4 as uuidv4 } from 'uuid';
+
+// OCR polling can take a few minutes for long scanned contracts
+export const maxDuration = 300;
+
+// Ensure database is initialized (async)
+async function ensureDbInitialized() {
+  await initializeDatabase();
+}
+
+// POST /api/contracts/upload - Upload a contract file and extract its text
+export async function POST(request: NextRequest) {
+  try {
+    await ensureDbInitialized();
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'A file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (file.name.length > MAX_FILENAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Filename must be less than ${MAX_FILENAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_UPLOAD_SIZE_BYTES) {
+      return NextResponse.json(
+        { error: `File must be smaller than ${MAX_UPLOAD_SIZE_BYTES / (1024 * 1024)}MB` },
+        { status: 413 }
+      );
+    }
+
+    const contentType = file.type || getContentType(file.name);
+    if (!getIngestibleFileKind(file.name, contentType)) {
+      return NextResponse.json(
+        { error: UNSUPPORTED_FILE_MESSAGE },
+        { status: 415 }
+      );
+    }
+
+    let validatedData;
+    try {
+      validatedData = validateBody(uploadContractSchema, {
+        name: formData.get('name') ?? undefined,
+        isTemplate: formData.get('isTemplate') ?? undefined,
+        orgId: formData.get('orgId') ?? undefined,
+      });
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
+    const orgId = validatedData.orgId || process.env.DEFAULT_ORG_ID || 'demo-org';
+
+    // Ensure organization exists
+    const existingOrg = await db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, orgId))
+      .limit(1);
+
+    if (existingOrg.length === 0) {
+      await db.insert(organizations).values({
+        id: orgId,
+        name: 'Demo Organization',
+      });
+    }
+
+    const contractId = uuidv4();
+    await db.insert(contracts).values({
+      id: contractId,
+      orgId,
+      name: validatedData.name || file.name.replace(/\.[^/.]+$/, ''),
+      filename: file.name,
+      contentType,
+      isTemplate: validatedData.isTemplate === 'true',
+      ingestionStatus: 'pending',
+    });
+
+    await db
+      .update(contracts)
+      .set({ ingestionStatus: 'processing' })
+      .where(eq(contracts.id, contractId));
+
+    let text: string;
+    try {
+      text = await extractTextFromFile(
+        orgId,
+        file.name,
+        contentType,
+        await file.arrayBuffer(),
+        async (objectId) => {
+          await db.update(contracts).set({ objectId }).where(eq(contracts.id, contractId));
+        }
+      );
+
+      if (!text.trim()) {
+        throw new IngestionError('No text could be extracted from this file');
+      }
+      if (text.length > MAX_CONTRACT_TEXT_LENGTH) {
+        throw new IngestionError(`Contract text must be less than ${MAX_CONTRACT_TEXT_LENGTH} characters`);
+      }
+    } catch (err) {
+      await db
+        .update(contracts)
+        .set({ ingestionStatus: 'failed' })
+        .where(eq(contracts.id, contractId));
+
+      if (err instanceof IngestionError) {
+        return NextResponse.json({ error: err.message }, { status: 422 });
+      }
+      throw err;
+    }
+
+    await db
+      .update(contracts)
+      .set({
+        rawText: text,
+        ingestionStatus: 'completed',
+        processedAt: new Date(),
+      })
+      .where(eq(contracts.id, contractId));
+
+    const [contract] = await db
+      .select()
+      .from(contracts)
+      .where(eq(contracts.id, contractId));
+
+    return NextResponse.json({ contract, text });
+  } catch (error) {
+    console.error('Error uploading contract:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload contract' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, initializeDatabase, playbooks } from '@/lib/db';
+import { eq } from 'drizzle-orm';
+import { getPlaybookRules, replacePlaybookRules, setDefaultPlaybook } from '@/lib/playbooks';
+import { findUnknownClauseTypes } from '@/lib/clause-taxonomy';
+import { updatePlaybookSchema, validateBody, ValidationError } from '@/lib/validations';
+
+// Ensure database is initialized (async)
+async function ensureDbInitialized() {
+  await initializeDatabase();
+}
+
+// GET /api/playbooks/[id] - Get a playbook with its rules
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureDbInitialized();
+    const { id } = await params;
+
+    const [playbook] = await db
+      .select()
+      .from(playbooks)
+      .where(eq(playbooks.id, id));
+
+    if (!playbook) {
+      return NextResponse.json(
+        { error: 'Playbook not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      playbook: {
+        ...playbook,
+        rules: await getPlaybookRules(id),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching playbook:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch playbook' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/playbooks/[id] - Update a playbook; rules, when given, replace the existing ones
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureDbInitialized();
+    const { id } = await params;
+    const body = await request.json();
+
+    let validatedData;
+    try {
+      validatedData = validateBody(updatePlaybookSchema, body);
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
+    const [existing] = await db
+      .select()
+      .from(playbooks)
+      .where(eq(playbooks.id, id));
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Playbook not found' },
+        { status: 404 }
+      );
+    }
+
+    const { name, description, isDefault, rules } = validatedData;
+
+    const unknownTypes = await findUnknownClauseTypes(existing.orgId, (rules || []).map(rule => rule.clauseType));
+    if (unknownTypes.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown clause type: ${unknownTypes.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const updateData: Record<string, unknown> = { updatedAt: new Date() };
+    if (name !== undefined) updateData.name = name;
+    if (description !== undefined) updateData.description = description || null;
+    if (isDefault === false) updateData.isDefault = false;
+
+    await db
+      .update(playbooks)
+      .set(updateData)
+      .where(eq(playbooks.id, id));
+
+    if (isDefault) {
+      await setDefaultPlaybook(existing.orgId, id);
+    }
+
+    if (rules !== undefined) {
+      await replacePlaybookRules(id, rules);
+    }
+
+    const [playbook] = await db
+      .select()
+      .from(playbooks)
+      .where(eq(playbooks.id, id));
+
+    return NextResponse.json({
+      playbook: {
+        ...playbook,
+        rules: await getPlaybookRules(id),
+      },
+    });
+  } catch (error) {
+    console.error('Error updating playbook:', error);
+    return NextResponse.json(
+      { error: 'Failed to update playbook' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/playbooks/[id] - Delete a playbook (comparisons scored with it keep their results)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await ensureDbInitialized();
+    const { id } = await params;
+
+    // Rules cascade; comparisons' playbook_id is set to null
+    await db.delete(playbooks).where(eq(playbooks.id, id));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting playbook:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete playbook' },
+      { status: 500 }
+    );
+  }
+}
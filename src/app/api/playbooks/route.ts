@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, initializeDatabase, playbooks, playbookRules, organizations } from '@/lib/db';
+import { eq, inArray } from 'drizzle-orm';
+import { getPlaybookRules, replacePlaybookRules, setDefaultPlaybook } from '@/lib/playbooks';
+import { findUnknownClauseTypes } from '@/lib/clause-taxonomy';
+import { createPlaybookSchema, validateBody, ValidationError } from '@/lib/validations';
+import { v4 as uuidv4 } from 'uuid';
+
+// Ensure database is initialized (async)
+async function ensureDbInitialized() {
+  await initializeDatabase();
+}
+
+// GET /api/playbooks - List an org's playbooks with their rule counts
+export async function GET(request: NextRequest) {
+  try {
+    await ensureDbInitialized();
+
+    const searchParams = request.nextUrl.searchParams;
+    const orgId = searchParams.get('orgId') || process.env.DEFAULT_ORG_ID || 'demo-org';
+
+    const playbookList = await db
+      .select()
+      .from(playbooks)
+      .where(eq(playbooks.orgId, orgId));
+
+    const rules = playbookList.length > 0
+      ? await db
+          .select({ playbookId: playbookRules.playbookId })
+          .from(playbookRules)
+          .where(inArray(playbookRules.playbookId, playbookList.map(p => p.id)))
+      : [];
+
+    const ruleCounts = new Map<string, number>();
+    for (const rule of rules) {
+      ruleCounts.set(rule.playbookId, (ruleCounts.get(rule.playbookId) || 0) + 1);
+    }
+
+    const playbooksWithCounts = playbookList
+      .map(playbook => ({ ...playbook, ruleCount: ruleCounts.get(playbook.id) || 0 }))
+      .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.name.localeCompare(b.name));
+
+    return NextResponse.json({ playbooks: playbooksWithCounts });
+  } catch (error) {
+    console.error('Error fetching playbooks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch playbooks' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/playbooks - Create a playbook
+export async function POST(request: NextRequest) {
+  try {
+    await ensureDbInitialized();
+
+    const body = await request.json();
+
+    let validatedData;
+    try {
+      validatedData = validateBody(createPlaybookSchema, body);
+    } catch (err) {
+      if (err instanceof ValidationError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
+    const { name, description, isDefault, rules, orgId: inputOrgId } = validatedData;
+    const orgId = inputOrgId || process.env.DEFAULT_ORG_ID || 'demo-org';
+
+    // Ensure organization exists
+    const existingOrg = await db
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, orgId))
+      .limit(1);
+
+    if (existingOrg.length === 0) {
+      await db.insert(organizations).values({
+        id: orgId,
+        name: 'Demo Organization',
+      });
+    }
+
+    const unknownTypes = await findUnknownClauseTypes(orgId, (rules || []).map(rule => rule.clauseType));
+    if (unknownTypes.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown clause type: ${unknownTypes.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // The org's first playbook becomes its default so comparisons pick it up straight away
+    const existingPlaybooks = await db
+      .select({ id: playbooks.id })
+      .from(playbooks)
+      .where(eq(playbooks.orgId, orgId))
+      .limit(1);
+
+    const playbookId = uuidv4();
+    await db.insert(playbooks).values({
+      id: playbookId,
+      orgId,
+      name,
+      description: description || null,
+    });
+
+    await replacePlaybookRules(playbookId, rules || []);
+
+    if (isDefault || existingPlaybooks.length === 0) {
+      await setDefaultPlaybook(orgId, playbookId);
+    }
+
+    const [playbook] = await db
+      .select()
+      .from(playbooks)
+      .where(eq(playbooks.id, playbookId));
+
+    return NextResponse.json({
+      playbook: {
+        ...playbook,
+        rules: await getPlaybookRules(playbookId),
+      },
+    });
+  } catch (error) {
+    console.error('Error creating playbook:', error);
+    return NextResponse.json(
+      { error: 'Failed to create playbook' },
+      { status: 500 }
+    );
+  }
+}
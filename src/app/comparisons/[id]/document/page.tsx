@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Loader2, AlertCircle, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { DocumentComparison } from '@/components/comparison/DocumentComparison';
+import type { DocumentClause } from '@/components/comparison/DocumentViewer';
+
+interface ComparisonDocuments {
+  id: string;
+  name: string | null;
+  comparisonStatus: string;
+  sourceContract: {
+    name: string;
+    rawText: string | null;
+    clauses?: DocumentClause[];
+  };
+  targetContract: {
+    name: string;
+    rawText: string | null;
+    clauses?: DocumentClause[];
+  };
+  clauseComparisons: Array<{
+    clauseType: string;
+    status: string;
+    riskScore: number | null;
+    sourceClause: DocumentClause | null;
+    targetClause: DocumentClause | null;
+  }>;
+}
+
+export default function ComparisonDocumentPage() {
+  const params = useParams();
+  const comparisonId = params.id as string;
+
+  const [comparison, setComparison] = useState<ComparisonDocuments | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!comparisonId) return;
+
+    const fetchComparison = async () => {
+      try {
+        const response = await fetch(`/api/compare/${comparisonId}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch comparison');
+        }
+
+        setComparison(data.comparison);
+      } catch (err) {
+        console.error('Error fetching comparison:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load comparison');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchComparison();
+  }, [comparisonId]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-muted/30">
+        <main className="container max-w-7xl py-8">
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 text-muted-foreground animate-spin" />
+            <span className="ml-3 text-muted-foreground">Loading documents...</span>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (error || !comparison || comparison.comparisonStatus !== 'completed') {
+    return (
+      <div className="min-h-screen bg-muted/30">
+        <main className="container max-w-4xl py-8">
+          <div className="mb-6">
+            <Button variant="ghost" asChild>
+              <Link href={comparison ? `/comparisons/${comparison.id}` : '/comparisons'}>
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Link>
+            </Button>
+          </div>
+
+          <Card>
+            <CardContent className="py-16 text-center">
+              <AlertCircle className="h-12 w-12 text-destructive/50 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">
+                {error || (comparison ? 'Comparison not finished' : 'Comparison not found')}
+              </h3>
+              <p className="text-muted-foreground mb-6">
+                {comparison
+                  ? 'The full-document view is available once the comparison has completed.'
+                  : 'The comparison you\'re looking for doesn\'t exist or couldn\'t be loaded.'}
+              </p>
+              <Button asChild>
+                <Link href="/comparisons">View All Comparisons</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <main className="container max-w-[1600px] py-8">
+        {/* Breadcrumb */}
+        <nav className="flex items-center gap-1 text-sm text-muted-foreground mb-6">
+          <Link href="/comparisons" className="hover:text-foreground transition-colors">
+            Past Comparisons
+          </Link>
+          <ChevronRight className="h-4 w-4" />
+          <Link href={`/comparisons/${comparison.id}`} className="hover:text-foreground transition-colors">
+            {comparison.name || 'Comparison Details'}
+          </Link>
+          <ChevronRight className="h-4 w-4" />
+          <span className="text-foreground font-medium">Full Document</span>
+        </nav>
+
+        <div className="space-y-4">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Full Document Review</h1>
+            <p className="text-muted-foreground">
+              Every clause is shaded by its status and risk. Changed text that no clause covers is marked as an unclassified text change.
+            </p>
+          </div>
+
+          <DocumentComparison
+            sourceText={comparison.sourceContract.rawText || ''}
+            targetText={comparison.targetContract.rawText || ''}
+            sourceTitle={comparison.sourceContract.name}
+            targetTitle={comparison.targetContract.name}
+            sourceClauses={comparison.sourceContract.clauses || []}
+            targetClauses={comparison.targetContract.clauses || []}
+            clauseComparisons={comparison.clauseComparisons}
+          />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,16 +1,23 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
-import { FileText, ArrowLeft, Loader2, AlertCircle, ChevronRight, Pencil, Check, X } from 'lucide-react';
+import { FileText, ArrowLeft, Loader2, AlertCircle, ChevronRight, Pencil, Check, X, Download, Columns2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { DiffViewer, ClauseDiffViewer } from '@/components/diff/DiffViewer';
+import { DiffViewer, ClauseDiffViewer, type TrackedChangeInfo } from '@/components/diff/DiffViewer';
 import { ClauseNavigator } from '@/components/comparison/ClauseNavigator';
 import { ExecutiveSummary } from '@/components/comparison/ExecutiveSummary';
-import { cn } from '@/lib/utils';
+import { RiskDashboard, type KeyTermChangeInfo } from '@/components/comparison/RiskDashboard';
+import { DocumentViewer, type DocumentClause } from '@/components/comparison/DocumentViewer';
+import { ClausePairingEditor } from '@/components/comparison/ClausePairingEditor';
+import { useCustomization } from '@/lib/customization-context';
+import { cn, formatPartyRole, type PartyRole } from '@/lib/utils';
+import type { DefinitionChange } from '@/lib/defined-terms';
+import { clauseGroupContent } from '@/lib/clause-groups';
+import type { BrokenCrossReference } from '@/lib/clause-movement';
 
 interface ClauseComparisonResult {
   id: string;
@@ -20,29 +27,45 @@ interface ClauseComparisonResult {
   deviationPercentage: number | null;
   diffSummary: string | null;
   riskFactors: string[] | null;
-  sourceClause: { content: string } | null;
-  targetClause: { content: string } | null;
+  definitionChanges?: DefinitionChange[] | null;
+  keyTermChanges?: KeyTermChangeInfo[];
+  matchConfidence?: number | null;
+  matchReason?: string | null;
+  sourceClause: (DocumentClause & { content: string }) | null;
+  targetClause: (DocumentClause & { content: string }) | null;
+  // The rest of a merge's original clauses or a split's revised ones
+  mergedSourceClauses?: (DocumentClause & { content: string })[];
+  splitTargetClauses?: (DocumentClause & { content: string })[];
+  clauseGroup?: string | null;
+  clauseMovement?: string | null;
+  brokenCrossReferences?: BrokenCrossReference[] | null;
 }
 
 interface ComparisonResult {
   id: string;
   name: string | null;
-  comparisonStatus: 'pending' | 'processing' | 'completed' | 'failed';
+  comparisonStatus: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   overallRiskScore: number | null;
   summary: string | null;
   errorMessage: string | null;
   createdAt: string;
+  playbook: { id: string; name: string } | null;
+  partyRole: PartyRole | null;
   sourceContract: { 
     id: string;
     name: string; 
     rawText: string | null;
     filename: string;
+    clauses?: DocumentClause[];
+    trackedChanges?: TrackedChangeInfo[];
   };
   targetContract: { 
     id: string;
     name: string; 
     rawText: string | null;
     filename: string;
+    clauses?: DocumentClause[];
+    trackedChanges?: TrackedChangeInfo[];
   };
   clauseComparisons: ClauseComparisonResult[];
 }
@@ -52,12 +75,19 @@ export default function ComparisonDetailPage() {
   const comparisonId = params.id as string;
   
   const [comparison, setComparison] = useState<ComparisonResult | null>(null);
-  const [selectedClauseType, setSelectedClauseType] = useState<string | null>(null);
+  const [selectedClauseId, setSelectedClauseId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [editedTitle, setEditedTitle] = useState('');
   const [isSavingTitle, setIsSavingTitle] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const [documentSide, setDocumentSide] = useState<'source' | 'target'>('target');
+  const [locateRequest, setLocateRequest] = useState(0);
+  const documentViewRef = useRef<HTMLDivElement>(null);
+  // After a re-pairing, the clause the reviewer acted on stays selected in its new row
+  const followClauseIdRef = useRef<string | null>(null);
+  const { settings } = useCustomization();
 
   useEffect(() => {
     if (comparisonId) {
@@ -67,7 +97,7 @@ export default function ComparisonDetailPage() {
 
   // Poll for updates if comparison is still processing
   useEffect(() => {
-    if (!comparison || comparison.comparisonStatus === 'completed' || comparison.comparisonStatus === 'failed') {
+    if (!comparison || ['completed', 'failed', 'cancelled'].includes(comparison.comparisonStatus)) {
       return;
     }
 
@@ -81,19 +111,30 @@ export default function ComparisonDetailPage() {
   // Auto-select highest risk clause when comparison loads
   useEffect(() => {
     if (comparison?.clauseComparisons) {
+      // Kept until the re-paired rows have been scored and the comparison is completed again
+      const followClauseId = followClauseIdRef.current;
+      if (comparison.comparisonStatus === 'completed') followClauseIdRef.current = null;
+      const followed = followClauseId && comparison.clauseComparisons.find(c =>
+        c.sourceClause?.id === followClauseId || c.targetClause?.id === followClauseId
+      );
+      if (followed) {
+        setSelectedClauseId(followed.id);
+        return;
+      }
+
       const highestRiskClause = [...comparison.clauseComparisons]
         .filter(c => c.riskScore !== null && c.riskScore > 0)
         .sort((a, b) => (b.riskScore || 0) - (a.riskScore || 0))[0];
       
       if (highestRiskClause) {
-        setSelectedClauseType(highestRiskClause.clauseType);
+        setSelectedClauseId(highestRiskClause.id);
       } else {
         // If no risk scores, select first non-identical clause
         const firstChanged = comparison.clauseComparisons.find(c => c.status !== 'identical');
         if (firstChanged) {
-          setSelectedClauseType(firstChanged.clauseType);
+          setSelectedClauseId(firstChanged.id);
         } else if (comparison.clauseComparisons.length > 0) {
-          setSelectedClauseType(comparison.clauseComparisons[0].clauseType);
+          setSelectedClauseId(comparison.clauseComparisons[0].id);
         }
       }
     }
@@ -131,6 +172,38 @@ export default function ComparisonDetailPage() {
     setEditedTitle('');
   };
 
+  // The report carries the firm's branding, which only lives in this browser
+  const downloadPdfReport = async () => {
+    if (!comparison) return;
+
+    setIsExportingPdf(true);
+    try {
+      const response = await fetch(`/api/compare/${comparison.id}/export?format=pdf`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ siteName: settings.siteName, logoUrl: settings.logoUrl }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to generate report');
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'report.pdf';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting report:', err);
+      alert(err instanceof Error ? err.message : 'Failed to generate report');
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
   const saveTitle = async () => {
     if (!comparison) return;
     
@@ -158,9 +231,68 @@ export default function ComparisonDetailPage() {
   };
 
   const selectedClauseComparison = comparison?.clauseComparisons.find(
-    c => c.clauseType === selectedClauseType
+    c => c.id === selectedClauseId
   );
 
+  const documentContract = documentSide === 'source' ? comparison?.sourceContract : comparison?.targetContract;
+  // Extracted clauses plus the changed text outside them, which the API returns as clauses of its own
+  const documentClauses = useMemo(() => [
+    ...(documentContract?.clauses || []),
+    ...(comparison?.clauseComparisons || [])
+      .filter(c => c.status === 'other')
+      .map(c => (documentSide === 'source' ? c.sourceClause : c.targetClause))
+      .filter((clause): clause is NonNullable<typeof clause> => clause !== null),
+  ], [comparison, documentContract, documentSide]);
+  const selectedDocumentClauseId = (documentSide === 'source'
+    ? selectedClauseComparison?.sourceClause?.id
+    : selectedClauseComparison?.targetClause?.id) ?? null;
+
+  // Clicking a clause in the document selects its comparison
+  const selectDocumentClause = (clauseId: string) => {
+    const clauseComparison = comparison?.clauseComparisons.find(c =>
+      (documentSide === 'source' ? c.sourceClause?.id : c.targetClause?.id) === clauseId
+    );
+    if (clauseComparison) setSelectedClauseId(clauseComparison.id);
+  };
+
+  // Jump to a clause in the full document, on the side that has it (the original for removed clauses)
+  const locateClause = (clauseComparisonId: string) => {
+    const clauseComparison = comparison?.clauseComparisons.find(c => c.id === clauseComparisonId);
+    setSelectedClauseId(clauseComparisonId);
+    if (clauseComparison && !clauseComparison.targetClause && clauseComparison.sourceClause) {
+      setDocumentSide('source');
+    } else if (clauseComparison && !clauseComparison.sourceClause) {
+      setDocumentSide('target');
+    }
+    setLocateRequest(n => n + 1);
+    documentViewRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  // Word revisions (deletions from the original, insertions into the redline) whose span falls inside the selected clause
+  const changesWithin = (changes: TrackedChangeInfo[] | undefined, clause: DocumentClause | null | undefined) => {
+    if (!clause || clause.startPosition === null || clause.endPosition === null) return [];
+    const { startPosition, endPosition } = clause;
+    return (changes || []).filter(change =>
+      change.startPosition < endPosition && change.endPosition > startPosition
+    );
+  };
+  // Where a clause's text begins in its contract's, to place the revisions in its diff; null for a
+  // split's or merge's combined text, or a clause whose text isn't a verbatim span of the contract
+  const clauseOffset = (
+    contractText: string | null,
+    clause: (DocumentClause & { content: string }) | null,
+    groupClauses: unknown[] | undefined
+  ) => {
+    if (!contractText || !clause || clause.startPosition === null || groupClauses?.length) return null;
+    return contractText.startsWith(clause.content, clause.startPosition) ? clause.startPosition : null;
+  };
+  const selectedTrackedChanges = selectedClauseComparison && comparison
+    ? [
+        ...changesWithin(comparison.sourceContract.trackedChanges, selectedClauseComparison.sourceClause),
+        ...changesWithin(comparison.targetContract.trackedChanges, selectedClauseComparison.targetClause),
+      ]
+    : [];
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -283,8 +415,9 @@ export default function ComparisonDetailPage() {
     );
   }
 
-  // Show failed state
-  if (comparison.comparisonStatus === 'failed') {
+  // Show failed or cancelled state
+  if (comparison.comparisonStatus === 'failed' || comparison.comparisonStatus === 'cancelled') {
+    const isCancelled = comparison.comparisonStatus === 'cancelled';
     return (
       <div className="min-h-screen bg-muted/30">
         <main className="container max-w-4xl py-8">
@@ -301,10 +434,12 @@ export default function ComparisonDetailPage() {
             <CardContent className="py-16 text-center">
               <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
               <h3 className="text-lg font-semibold mb-2">
-                Comparison Failed
+                {isCancelled ? 'Comparison Cancelled' : 'Comparison Failed'}
               </h3>
               <p className="text-muted-foreground mb-4 max-w-md mx-auto">
-                {comparison.errorMessage || 'An error occurred while processing this comparison.'}
+                {isCancelled
+                  ? 'This comparison was stopped before it finished. Retry it from My Comparisons to pick up where it left off.'
+                  : comparison.errorMessage || 'An error occurred while processing this comparison.'}
               </p>
               <div className="flex gap-3 justify-center">
                 <Button variant="outline" asChild>
@@ -397,6 +532,15 @@ export default function ComparisonDetailPage() {
               </p>
               <p className="text-sm text-muted-foreground">
                 Created {formatDate(comparison.createdAt)}
+                {comparison.partyRole && ` · Reviewing as ${formatPartyRole(comparison.partyRole)}`}
+                {comparison.playbook && (
+                  <>
+                    {' · Scored against '}
+                    <Link href="/playbooks" className="underline hover:text-foreground">
+                      {comparison.playbook.name}
+                    </Link>
+                  </>
+                )}
               </p>
             </div>
             <div className="flex items-center gap-4">
@@ -416,6 +560,38 @@ export default function ComparisonDetailPage() {
                   {getRiskLevel(comparison.overallRiskScore || 0).label}
                 </Badge>
               </div>
+              <Button variant="outline" asChild>
+                <Link href={`/comparisons/${comparison.id}/document`}>
+                  <Columns2 className="h-4 w-4" />
+                  Full Document
+                </Link>
+              </Button>
+              <Button variant="outline" onClick={downloadPdfReport} disabled={isExportingPdf}>
+                {isExportingPdf ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4" />
+                )}
+                PDF Report
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={`/api/compare/${comparison.id}/export?format=docx`} download>
+                  <Download className="h-4 w-4" />
+                  Word Redline
+                </a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={`/api/compare/${comparison.id}/export?format=xlsx`} download>
+                  <Download className="h-4 w-4" />
+                  Excel
+                </a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={`/api/compare/${comparison.id}/export?format=csv`} download>
+                  <Download className="h-4 w-4" />
+                  CSV
+                </a>
+              </Button>
               <Button variant="outline" asChild>
                 <Link href="/">New Comparison</Link>
               </Button>
@@ -425,21 +601,52 @@ export default function ComparisonDetailPage() {
           {/* Horizontal Clause Navigator at Top */}
           <ClauseNavigator
             clauseComparisons={comparison.clauseComparisons}
-            selectedClauseType={selectedClauseType}
-            onSelectClause={setSelectedClauseType}
+            selectedClauseId={selectedClauseId}
+            onSelectClause={setSelectedClauseId}
+            onLocateClause={locateClause}
             horizontal={true}
           />
 
           {/* Clause Details */}
           {selectedClauseComparison ? (
-            <ClauseDiffViewer
-              sourceClause={selectedClauseComparison.sourceClause?.content || ''}
-              targetClause={selectedClauseComparison.targetClause?.content || ''}
-              clauseType={selectedClauseComparison.clauseType}
-              riskScore={selectedClauseComparison.riskScore || undefined}
-              riskSummary={selectedClauseComparison.diffSummary || undefined}
-              status={selectedClauseComparison.status}
-            />
+            <>
+              <ClauseDiffViewer
+                sourceClause={clauseGroupContent(selectedClauseComparison.sourceClause, selectedClauseComparison.mergedSourceClauses)}
+                targetClause={clauseGroupContent(selectedClauseComparison.targetClause, selectedClauseComparison.splitTargetClauses)}
+                clauseType={selectedClauseComparison.clauseType}
+                riskScore={selectedClauseComparison.riskScore || undefined}
+                riskSummary={selectedClauseComparison.diffSummary || undefined}
+                status={selectedClauseComparison.status}
+                definitionChanges={selectedClauseComparison.definitionChanges || undefined}
+                matchConfidence={selectedClauseComparison.matchConfidence}
+                matchReason={selectedClauseComparison.matchReason}
+                clauseGroup={selectedClauseComparison.clauseGroup}
+                clauseMovement={selectedClauseComparison.clauseMovement}
+                brokenCrossReferences={selectedClauseComparison.brokenCrossReferences || undefined}
+                trackedChanges={selectedTrackedChanges}
+                sourceOffset={clauseOffset(
+                  comparison.sourceContract.rawText,
+                  selectedClauseComparison.sourceClause,
+                  selectedClauseComparison.mergedSourceClauses
+                )}
+                targetOffset={clauseOffset(
+                  comparison.targetContract.rawText,
+                  selectedClauseComparison.targetClause,
+                  selectedClauseComparison.splitTargetClauses
+                )}
+              />
+              <ClausePairingEditor
+                key={selectedClauseComparison.id}
+                comparisonId={comparison.id}
+                clauseComparison={selectedClauseComparison}
+                sourceClauses={comparison.sourceContract.clauses || []}
+                targetClauses={comparison.targetContract.clauses || []}
+                onCorrected={clauseId => {
+                  followClauseIdRef.current = clauseId;
+                  fetchComparison(false);
+                }}
+              />
+            </>
           ) : (
             <Card className="flex items-center justify-center">
               <CardContent className="text-center py-12">
@@ -451,6 +658,46 @@ export default function ComparisonDetailPage() {
             </Card>
           )}
 
+          {/* Full document with every clause highlighted where it sits */}
+          {documentContract && (
+            <Card ref={documentViewRef} className="scroll-mt-6">
+              <CardHeader className="py-4">
+                <div className="flex items-center justify-between gap-4">
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <FileText className="h-5 w-5 text-muted-foreground" />
+                    Document View
+                    <span className="text-xs text-muted-foreground font-normal ml-2 truncate">
+                      {documentContract.name}
+                    </span>
+                  </CardTitle>
+                  <div className="flex rounded-lg border p-0.5 text-sm">
+                    {(['source', 'target'] as const).map(side => (
+                      <button
+                        key={side}
+                        onClick={() => setDocumentSide(side)}
+                        className={cn(
+                          'px-3 py-1 rounded-md transition-colors',
+                          documentSide === side ? 'bg-accent font-medium' : 'text-muted-foreground hover:text-foreground'
+                        )}
+                      >
+                        {side === 'source' ? 'Original' : 'Revised'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <DocumentViewer
+                  text={documentContract.rawText || ''}
+                  clauses={documentClauses}
+                  selectedClauseId={selectedDocumentClauseId}
+                  onSelectClause={selectDocumentClause}
+                  scrollRequest={locateRequest}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Executive Summary with clickable clause links */}
           {comparison.summary && (
             <ExecutiveSummary
@@ -460,6 +707,17 @@ export default function ComparisonDetailPage() {
             />
           )}
 
+          {/* Risk assessment, from our side of the deal when one was given */}
+          {comparison.comparisonStatus === 'completed' && (
+            <RiskDashboard
+              overallRiskScore={comparison.overallRiskScore || 0}
+              clauseComparisons={comparison.clauseComparisons}
+              sourceContractName={comparison.sourceContract.name}
+              targetContractName={comparison.targetContract.name}
+              partyRole={comparison.partyRole}
+            />
+          )}
+
           {/* Full Document Diff - Collapsible */}
           <details className="group">
             <summary className="cursor-pointer list-none">
@@ -483,6 +741,10 @@ export default function ComparisonDetailPage() {
                   sourceTitle={comparison.sourceContract.name}
                   targetTitle={comparison.targetContract.name}
                   splitView={true}
+                  trackedChanges={[
+                    ...(comparison.sourceContract.trackedChanges || []),
+                    ...(comparison.targetContract.trackedChanges || []),
+                  ]}
                 />
               </CardContent>
             </Card>
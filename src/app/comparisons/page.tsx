@@ -8,6 +8,8 @@ import {
   ArrowRight, 
   Loader2, 
   Trash2, 
+  Ban,
+  RotateCcw,
   AlertCircle, 
   Search,
   LayoutGrid,
@@ -21,7 +23,8 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { cn } from '@/lib/utils';
+import { Progress } from '@/components/ui/progress';
+import { cn, estimateRemainingMs, formatDuration, formatPipelineStage } from '@/lib/utils';
 
 interface SemanticTag {
   label: string;
@@ -37,6 +40,12 @@ interface Comparison {
   overallRiskScore: number | null;
   summary: string | null;
   semanticTags: string | null;
+  progressStage: string | null;
+  progressCurrent: number | null;
+  progressTotal: number | null;
+  progressPercent: number | null;
+  progressStartedAt: string | null;
+  progressUpdatedAt: string | null;
   createdAt: string;
   sourceContract: {
     id: string;
@@ -76,11 +85,13 @@ export default function MyComparisonsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [pendingActionId, setPendingActionId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [viewMode, setViewMode] = useState<ViewMode>('card');
   const [sortBy, setSortBy] = useState<SortOption>('date_newest');
   const [showSortDropdown, setShowSortDropdown] = useState(false);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [now, setNow] = useState(() => Date.now());
 
   useEffect(() => {
     fetchComparisons();
@@ -119,11 +130,37 @@ export default function MyComparisonsPage() {
       }
     });
 
+    eventSource.addEventListener('progress', (event) => {
+      try {
+        const update = JSON.parse(event.data);
+        setComparisons(prev => prev.map(c =>
+          c.id === update.id
+            ? {
+                ...c,
+                progressStage: update.stage,
+                progressCurrent: update.current,
+                progressTotal: update.total,
+                progressPercent: update.percent,
+                progressStartedAt: update.startedAt,
+                progressUpdatedAt: update.updatedAt,
+              }
+            : c
+        ));
+      } catch (err) {
+        console.error('Error parsing SSE progress:', err);
+      }
+    });
+
+    // Count the time-remaining estimates down between progress events
+    const ticker = setInterval(() => setNow(Date.now()), 1000);
+
     eventSource.addEventListener('error', () => {
-      // SSE connection error - fall back to fetch
-      console.warn('SSE connection error, refreshing...');
-      eventSource.close();
-      fetchComparisons();
+      // The browser reconnects on its own and resumes from the last event id;
+      // only fall back to a fetch once it has given up
+      if (eventSource.readyState === EventSource.CLOSED) {
+        console.warn('SSE connection closed, refreshing...');
+        fetchComparisons();
+      }
     });
 
     eventSource.addEventListener('done', () => {
@@ -131,6 +168,7 @@ export default function MyComparisonsPage() {
     });
 
     return () => {
+      clearInterval(ticker);
       eventSource.close();
     };
   }, [comparisons.filter(c => c.comparisonStatus === 'processing').map(c => c.id).join(',')]);
@@ -272,6 +310,74 @@ export default function MyComparisonsPage() {
     }
   };
 
+  const handleCancel = async (id: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!confirm('Stop this comparison? You can retry it later.')) {
+      return;
+    }
+
+    try {
+      setPendingActionId(id);
+      const response = await fetch(`/api/compare/${id}/cancel`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel comparison');
+      }
+
+      setComparisons(prev => prev.map(c =>
+        c.id === id ? { ...c, comparisonStatus: data.comparison.comparisonStatus } : c
+      ));
+    } catch (err) {
+      console.error('Error cancelling comparison:', err);
+      alert(err instanceof Error ? err.message : 'Failed to cancel comparison');
+    } finally {
+      setPendingActionId(null);
+    }
+  };
+
+  const handleRetry = async (id: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    try {
+      setPendingActionId(id);
+      const response = await fetch(`/api/compare/${id}/retry`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to retry comparison');
+      }
+
+      // Back to processing, which reconnects the status stream for it
+      setComparisons(prev => prev.map(c =>
+        c.id === id
+          ? {
+              ...c,
+              comparisonStatus: data.comparison.comparisonStatus,
+              progressStage: null,
+              progressCurrent: null,
+              progressTotal: null,
+              progressPercent: null,
+              progressStartedAt: null,
+              progressUpdatedAt: null,
+            }
+          : c
+      ));
+    } catch (err) {
+      console.error('Error retrying comparison:', err);
+      alert(err instanceof Error ? err.message : 'Failed to retry comparison');
+    } finally {
+      setPendingActionId(null);
+    }
+  };
+
   const getRiskBadge = (score: number | null) => {
     if (score === null) return { variant: 'secondary' as const, label: 'N/A' };
     if (score >= 75) return { variant: 'danger' as const, label: 'Critical' };
@@ -317,6 +423,21 @@ export default function MyComparisonsPage() {
     );
   };
 
+  const getProgressLabel = (comparison: Comparison) => {
+    if (!comparison.progressStage) return 'Queued';
+    return formatPipelineStage(comparison.progressStage, comparison.progressCurrent, comparison.progressTotal);
+  };
+
+  // Estimate made when the last progress update arrived, counted down since
+  const getTimeRemaining = (comparison: Comparison) => {
+    if (!comparison.progressStartedAt || !comparison.progressUpdatedAt || !comparison.progressPercent) return null;
+    const updatedAt = new Date(comparison.progressUpdatedAt).getTime();
+    const estimate = estimateRemainingMs(comparison.progressStartedAt, comparison.progressPercent, updatedAt);
+    if (estimate === null) return null;
+    const remaining = estimate - (now - updatedAt);
+    return remaining > 0 ? `About ${formatDuration(remaining)} left` : 'Almost done';
+  };
+
   const getDisplayTitle = (comparison: Comparison) => {
     if (comparison.name) return comparison.name;
     const index = comparisons.findIndex(c => c.id === comparison.id);
@@ -524,7 +645,9 @@ export default function MyComparisonsPage() {
               const displayTitle = getDisplayTitle(comparison);
               const isProcessing = comparison.comparisonStatus === 'processing';
               const isFailed = comparison.comparisonStatus === 'failed';
+              const isCancelled = comparison.comparisonStatus === 'cancelled';
               const tags = parseSemanticTags(comparison.semanticTags);
+              const timeRemaining = isProcessing ? getTimeRemaining(comparison) : null;
               
               return (
                 <Link 
@@ -557,6 +680,11 @@ export default function MyComparisonsPage() {
                               <AlertCircle className="h-3 w-3" />
                               Failed
                             </Badge>
+                          ) : isCancelled ? (
+                            <Badge variant="secondary" className="text-xs flex items-center gap-1 shrink-0">
+                              <Ban className="h-3 w-3" />
+                              Cancelled
+                            </Badge>
                           ) : (
                             <div className="text-center shrink-0">
                               <div className={cn(
@@ -587,6 +715,19 @@ export default function MyComparisonsPage() {
                           </span>
                         </div>
 
+                        {/* Pipeline progress */}
+                        {isProcessing && (
+                          <div className="space-y-1.5">
+                            <Progress value={comparison.progressPercent ?? 0} />
+                            <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                              <span className="truncate">{getProgressLabel(comparison)}</span>
+                              {timeRemaining && (
+                                <span className="shrink-0 tabular-nums">{timeRemaining}</span>
+                              )}
+                            </div>
+                          </div>
+                        )}
+
                         {/* Semantic Tags */}
                         {tags.length > 0 && (
                           <div className="flex flex-wrap gap-1">
@@ -609,25 +750,59 @@ export default function MyComparisonsPage() {
                           </div>
                         )}
 
-                        {/* Footer with date and delete */}
+                        {/* Footer with date and actions */}
                         <div className="flex items-center justify-between pt-2 border-t">
                           <div className="flex items-center gap-1 text-xs text-muted-foreground">
                             <Calendar className="h-3 w-3" />
                             {formatDate(comparison.createdAt)}
                           </div>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-7 w-7 text-muted-foreground hover:text-destructive"
-                            onClick={(e) => handleDelete(comparison.id, e)}
-                            disabled={deletingId === comparison.id}
-                          >
-                            {deletingId === comparison.id ? (
-                              <Loader2 className="h-4 w-4 animate-spin" />
-                            ) : (
-                              <Trash2 className="h-4 w-4" />
+                          <div className="flex items-center gap-1">
+                            {isProcessing && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7 text-muted-foreground hover:text-destructive pointer-events-auto"
+                                onClick={(e) => handleCancel(comparison.id, e)}
+                                disabled={pendingActionId === comparison.id}
+                                title="Cancel comparison"
+                              >
+                                {pendingActionId === comparison.id ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Ban className="h-4 w-4" />
+                                )}
+                              </Button>
                             )}
-                          </Button>
+                            {(isFailed || isCancelled) && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7 text-muted-foreground hover:text-primary"
+                                onClick={(e) => handleRetry(comparison.id, e)}
+                                disabled={pendingActionId === comparison.id}
+                                title="Retry comparison"
+                              >
+                                {pendingActionId === comparison.id ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <RotateCcw className="h-4 w-4" />
+                                )}
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                              onClick={(e) => handleDelete(comparison.id, e)}
+                              disabled={deletingId === comparison.id}
+                            >
+                              {deletingId === comparison.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="h-4 w-4" />
+                              )}
+                            </Button>
+                          </div>
                         </div>
                       </div>
                     </CardContent>
@@ -654,7 +829,9 @@ export default function MyComparisonsPage() {
               const displayTitle = getDisplayTitle(comparison);
               const isProcessing = comparison.comparisonStatus === 'processing';
               const isFailed = comparison.comparisonStatus === 'failed';
+              const isCancelled = comparison.comparisonStatus === 'cancelled';
               const tags = parseSemanticTags(comparison.semanticTags);
+              const timeRemaining = isProcessing ? getTimeRemaining(comparison) : null;
               
               return (
                 <Link 
@@ -680,10 +857,16 @@ export default function MyComparisonsPage() {
                               {displayTitle}
                             </h3>
                             {isProcessing && (
-                              <span className="text-xs text-primary flex items-center gap-1">
-                                <Loader2 className="h-3 w-3 animate-spin" />
-                                Processing...
-                              </span>
+                              <div className="space-y-1 pt-0.5">
+                                <span className="text-xs text-primary flex items-center gap-1">
+                                  <Loader2 className="h-3 w-3 animate-spin shrink-0" />
+                                  <span className="truncate">
+                                    {getProgressLabel(comparison)}
+                                    {timeRemaining && ` · ${timeRemaining}`}
+                                  </span>
+                                </span>
+                                <Progress value={comparison.progressPercent ?? 0} className="h-1.5" />
+                              </div>
                             )}
                             {isFailed && (
                               <span className="text-xs text-destructive flex items-center gap-1">
@@ -691,6 +874,12 @@ export default function MyComparisonsPage() {
                                 Failed
                               </span>
                             )}
+                            {isCancelled && (
+                              <span className="text-xs text-muted-foreground flex items-center gap-1">
+                                <Ban className="h-3 w-3" />
+                                Cancelled
+                              </span>
+                            )}
                           </div>
                         </div>
                         
@@ -750,7 +939,39 @@ export default function MyComparisonsPage() {
                         </div>
                         
                         {/* Actions */}
-                        <div className="md:col-span-1 flex justify-end">
+                        <div className="md:col-span-1 flex justify-end gap-1">
+                          {isProcessing && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-destructive pointer-events-auto"
+                              onClick={(e) => handleCancel(comparison.id, e)}
+                              disabled={pendingActionId === comparison.id}
+                              title="Cancel comparison"
+                            >
+                              {pendingActionId === comparison.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Ban className="h-4 w-4" />
+                              )}
+                            </Button>
+                          )}
+                          {(isFailed || isCancelled) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-primary"
+                              onClick={(e) => handleRetry(comparison.id, e)}
+                              disabled={pendingActionId === comparison.id}
+                              title="Retry comparison"
+                            >
+                              {pendingActionId === comparison.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <RotateCcw className="h-4 w-4" />
+                              )}
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="icon"
@@ -4,6 +4,7 @@ import "./globals.css";
 import { Navigation } from "@/components/layout/Navigation";
 import { CustomizationProvider } from "@/lib/customization-context";
 import { ComparisonProvider } from "@/lib/comparison-context";
+import { ClauseTaxonomyProvider } from "@/lib/clause-taxonomy-context";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -32,16 +33,18 @@ export default function RootLayout({
       >
         <CustomizationProvider>
           <ComparisonProvider>
-            <Navigation />
-            <div className="flex-1">
-              {children}
-            </div>
-            {/* Global Footer - Always at bottom */}
-            <footer className="bg-black mt-auto">
-              <div className="py-2 text-center text-xs text-white">
-                <p>powered with ❤️ by <a href="https://www.case.dev/" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-300">case.dev</a></p>
+            <ClauseTaxonomyProvider>
+              <Navigation />
+              <div className="flex-1">
+                {children}
               </div>
-            </footer>
+              {/* Global Footer - Always at bottom */}
+              <footer className="bg-black mt-auto">
+                <div className="py-2 text-center text-xs text-white">
+                  <p>powered with ❤️ by <a href="https://www.case.dev/" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-300">case.dev</a></p>
+                </div>
+              </footer>
+            </ClauseTaxonomyProvider>
           </ComparisonProvider>
         </CustomizationProvider>
       </body>
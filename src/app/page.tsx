@@ -12,11 +12,16 @@ import { DiffViewer, ClauseDiffViewer } from '@/components/diff/DiffViewer';
 import { ClauseNavigator } from '@/components/comparison/ClauseNavigator';
 import { ExecutiveSummary } from '@/components/comparison/ExecutiveSummary';
 import { useComparison } from '@/lib/comparison-context';
-import { cn } from '@/lib/utils';
+import { cn, formatPartyRole, COUNTERPARTY_ROLES, PARTY_ROLES } from '@/lib/utils';
+import type { DefinitionChange } from '@/lib/defined-terms';
+import { clauseGroupContent } from '@/lib/clause-groups';
+import type { BrokenCrossReference } from '@/lib/clause-movement';
 
 interface ContractFile {
   name: string;
   text: string;
+  // The contract the upload was saved as
+  contractId: string;
 }
 
 interface ClauseComparisonResult {
@@ -27,8 +32,17 @@ interface ClauseComparisonResult {
   deviationPercentage: number | null;
   diffSummary: string | null;
   riskFactors: string[] | null;
-  sourceClause: { content: string } | null;
-  targetClause: { content: string } | null;
+  definitionChanges?: DefinitionChange[] | null;
+  matchConfidence?: number | null;
+  matchReason?: string | null;
+  sourceClause: { content: string; startPosition: number | null } | null;
+  targetClause: { content: string; startPosition: number | null } | null;
+  // The rest of a merge's original clauses or a split's revised ones
+  mergedSourceClauses?: { id: string; content: string; startPosition: number | null }[];
+  splitTargetClauses?: { id: string; content: string; startPosition: number | null }[];
+  clauseGroup?: string | null;
+  clauseMovement?: string | null;
+  brokenCrossReferences?: BrokenCrossReference[] | null;
 }
 
 interface ComparisonResult {
@@ -40,8 +54,14 @@ interface ComparisonResult {
   clauseComparisons: ClauseComparisonResult[];
 }
 
+interface PlaybookOption {
+  id: string;
+  name: string;
+  isDefault: boolean;
+}
+
 type Step = 'upload' | 'processing' | 'results';
-type InputMode = 'upload' | 'paste';
+type InputMode = 'upload' | 'paste' | 'redline';
 
 export default function Home() {
   const router = useRouter();
@@ -55,6 +75,9 @@ export default function Home() {
   const [templateFile, setTemplateFile] = useState<ContractFile | null>(null);
   const [redlinedFile, setRedlinedFile] = useState<ContractFile | null>(null);
   
+  // Single Word document with tracked changes
+  const [redlineDocument, setRedlineDocument] = useState<File | null>(null);
+  
   // Paste text state (separate from upload)
   const [templatePasteText, setTemplatePasteText] = useState<string>('');
   const [redlinedPasteText, setRedlinedPasteText] = useState<string>('');
@@ -62,24 +85,43 @@ export default function Home() {
   // Optional comparison title
   const [comparisonTitle, setComparisonTitle] = useState<string>('');
   
+  // Playbook to score against ('' scores with the generic rubric)
+  const [playbooks, setPlaybooks] = useState<PlaybookOption[]>([]);
+  const [playbookId, setPlaybookId] = useState<string>('');
+  
+  // Our side of the deal ('' leaves risk scoring neutral)
+  const [partyRole, setPartyRole] = useState<string>('');
+  
   const [isProcessing, setIsProcessing] = useState(false);
   const [comparison, setComparison] = useState<ComparisonResult | null>(null);
-  const [selectedClauseType, setSelectedClauseType] = useState<string | null>(null);
+  const [selectedClauseId, setSelectedClauseId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const handleTemplateSelect = (file: File, text: string) => {
-    setTemplateFile({ name: file.name, text });
+  const handleTemplateSelect = (file: File, text: string, contractId?: string) => {
+    setTemplateFile({ name: file.name, text, contractId: contractId! });
     setError(null);
   };
 
-  const handleRedlinedSelect = (file: File, text: string) => {
-    setRedlinedFile({ name: file.name, text });
+  const handleRedlinedSelect = (file: File, text: string, contractId?: string) => {
+    setRedlinedFile({ name: file.name, text, contractId: contractId! });
     setError(null);
   };
 
   // Determine if we can compare based on current input mode
   const canCompareUpload = templateFile && redlinedFile;
   const canComparePaste = templatePasteText.trim() && redlinedPasteText.trim();
+  const canCompareRedline = redlineDocument !== null;
+
+  // Load the org's playbooks, preselecting its default
+  useEffect(() => {
+    fetch('/api/playbooks')
+      .then(response => response.ok ? response.json() : { playbooks: [] })
+      .then((data: { playbooks: PlaybookOption[] }) => {
+        setPlaybooks(data.playbooks || []);
+        setPlaybookId(data.playbooks?.find(p => p.isDefault)?.id || '');
+      })
+      .catch(err => console.error('Error fetching playbooks:', err));
+  }, []);
 
   // Auto-select highest risk clause when comparison loads
   useEffect(() => {
@@ -89,20 +131,66 @@ export default function Home() {
         .sort((a, b) => (b.riskScore || 0) - (a.riskScore || 0))[0];
       
       if (highestRiskClause) {
-        setSelectedClauseType(highestRiskClause.clauseType);
+        setSelectedClauseId(highestRiskClause.id);
       } else {
         // If no risk scores, select first non-identical clause
         const firstChanged = comparison.clauseComparisons.find(c => c.status !== 'identical');
         if (firstChanged) {
-          setSelectedClauseType(firstChanged.clauseType);
+          setSelectedClauseId(firstChanged.id);
         }
       }
     }
   }, [comparison]);
 
-  const runComparison = async (mode: InputMode) => {
-    let sourceText: string;
-    let targetText: string;
+  // Tracked changes are split into original and redline on the server
+  const runRedlineComparison = async () => {
+    if (!redlineDocument) {
+      setError('Please upload a Word document with tracked changes');
+      return;
+    }
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const documentName = redlineDocument.name.replace(/\.[^/.]+$/, '') || 'Redline';
+      const comparisonDisplayName = comparisonTitle.trim() || documentName;
+
+      const formData = new FormData();
+      formData.append('file', redlineDocument);
+      formData.append('comparisonType', 'template_vs_redline');
+      formData.append('name', comparisonDisplayName);
+      formData.append('playbookId', playbookId);
+      if (partyRole) formData.append('partyRole', partyRole);
+
+      const compareResponse = await fetch('/api/compare', {
+        method: 'POST',
+        body: formData,
+      });
+      const compareData = await compareResponse.json();
+
+      if (!compareResponse.ok) {
+        throw new Error(compareData.error || 'Failed to start comparison');
+      }
+
+      setActiveComparison({
+        id: compareData.comparison.id,
+        name: comparisonDisplayName,
+        status: 'processing',
+        startedAt: new Date().toISOString(),
+      });
+
+      router.push('/comparisons');
+    } catch (err) {
+      console.error('Comparison error:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred during comparison');
+      setIsProcessing(false);
+    }
+  };
+
+  const runComparison = async (mode: Exclude<InputMode, 'redline'>) => {
+    // Uploaded files are already saved as contracts, so they're compared by ID
+    let contracts: Record<string, string>;
     let sourceName: string;
     let targetName: string;
 
@@ -111,8 +199,10 @@ export default function Home() {
         setError('Please upload both contracts');
         return;
       }
-      sourceText = templateFile.text;
-      targetText = redlinedFile.text;
+      contracts = {
+        sourceContractId: templateFile.contractId,
+        targetContractId: redlinedFile.contractId,
+      };
       sourceName = templateFile.name.replace(/\.[^/.]+$/, '') || 'Original';
       targetName = redlinedFile.name.replace(/\.[^/.]+$/, '') || 'Revised';
     } else {
@@ -120,10 +210,16 @@ export default function Home() {
         setError('Please paste both contract texts');
         return;
       }
-      sourceText = templatePasteText;
-      targetText = redlinedPasteText;
       sourceName = 'Original';
       targetName = 'Revised';
+      contracts = {
+        sourceText: templatePasteText,
+        targetText: redlinedPasteText,
+        sourceName,
+        targetName,
+        sourceFilename: 'Original.txt',
+        targetFilename: 'Revised.txt',
+      };
     }
 
     setIsProcessing(true);
@@ -138,14 +234,11 @@ export default function Home() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          sourceText,
-          targetText,
-          sourceName,
-          targetName,
-          sourceFilename: mode === 'upload' ? templateFile!.name : 'Original.txt',
-          targetFilename: mode === 'upload' ? redlinedFile!.name : 'Revised.txt',
+          ...contracts,
           comparisonType: 'template_vs_redline',
           name: comparisonDisplayName,
+          playbookId: playbookId || null,
+          partyRole: partyRole || undefined,
         }),
       });
       const compareData = await compareResponse.json();
@@ -177,16 +270,18 @@ export default function Home() {
     setRedlinedFile(null);
     setTemplatePasteText('');
     setRedlinedPasteText('');
+    setRedlineDocument(null);
     setComparisonTitle('');
+    setPartyRole('');
     setComparison(null);
-    setSelectedClauseType(null);
+    setSelectedClauseId(null);
     setError(null);
     // Note: We intentionally don't clear activeComparison from context 
     // so the user can still track it in the Past Comparisons page
   };
 
   const selectedClauseComparison = comparison?.clauseComparisons.find(
-    c => c.clauseType === selectedClauseType
+    c => c.id === selectedClauseId
   );
 
   const getRiskLevel = (score: number): { label: string; variant: 'danger' | 'warning' | 'success' } => {
@@ -255,6 +350,45 @@ export default function Home() {
                     className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
                   />
                 </div>
+                <div className="space-y-2 mt-4">
+                  <label className="text-sm font-medium leading-none">
+                    Our Role <span className="text-muted-foreground">(optional)</span>
+                  </label>
+                  <select
+                    value={partyRole}
+                    onChange={(e) => setPartyRole(e.target.value)}
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  >
+                    <option value="">Not specified (neutral risk scoring)</option>
+                    {PARTY_ROLES.map(role => (
+                      <option key={role} value={role}>
+                        {formatPartyRole(role)} (other side: {COUNTERPARTY_ROLES[role]})
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground">
+                    Risk is scored from this side: a broader indemnity is good for the indemnitee and bad for the indemnitor.
+                  </p>
+                </div>
+                {playbooks.length > 0 && (
+                  <div className="space-y-2 mt-4">
+                    <label className="text-sm font-medium leading-none">
+                      Playbook
+                    </label>
+                    <select
+                      value={playbookId}
+                      onChange={(e) => setPlaybookId(e.target.value)}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                    >
+                      {playbooks.map(playbook => (
+                        <option key={playbook.id} value={playbook.id}>
+                          {playbook.name}{playbook.isDefault ? ' (default)' : ''}
+                        </option>
+                      ))}
+                      <option value="">None (generic risk rubric)</option>
+                    </select>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -283,6 +417,17 @@ export default function Home() {
                 >
                   Paste Text
                 </button>
+                <button
+                  onClick={() => setInputMode('redline')}
+                  className={cn(
+                    'px-4 py-2 text-sm font-medium rounded-md transition-colors',
+                    inputMode === 'redline'
+                      ? 'bg-background text-foreground shadow-sm'
+                      : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  Word Redline
+                </button>
               </div>
             </div>
 
@@ -294,6 +439,7 @@ export default function Home() {
                     label="Original Contract"
                     description="Your standard contract template"
                     onFileSelect={handleTemplateSelect}
+                    isTemplate
                     selectedFile={templateFile}
                     onClear={() => setTemplateFile(null)}
                   />
@@ -328,6 +474,53 @@ export default function Home() {
               </div>
             )}
 
+            {/* Word Redline Mode */}
+            {inputMode === 'redline' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Import a Word redline</CardTitle>
+                  <CardDescription>
+                    Upload one .docx with tracked changes. The text before the changes is used as the original
+                    and the text after them as the redline, keeping each change&apos;s author and date.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <FileUpload
+                    label="Redlined Word Document"
+                    description="A .docx file with tracked changes"
+                    accept=".docx"
+                    extractText={false}
+                    onFileSelect={(file) => {
+                      setRedlineDocument(file);
+                      setError(null);
+                    }}
+                    selectedFile={redlineDocument ? { name: redlineDocument.name, text: '' } : null}
+                    onClear={() => setRedlineDocument(null)}
+                  />
+
+                  <div className="flex justify-center pt-2">
+                    <Button
+                      size="lg"
+                      onClick={runRedlineComparison}
+                      disabled={!canCompareRedline || isProcessing}
+                    >
+                      {isProcessing ? (
+                        <>
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Starting...
+                        </>
+                      ) : (
+                        <>
+                          Compare Contracts
+                          <ArrowRight className="h-4 w-4" />
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Paste Text Mode */}
             {inputMode === 'paste' && (
               <Card>
@@ -438,20 +631,26 @@ export default function Home() {
             {/* Horizontal Clause Navigator at Top */}
             <ClauseNavigator
               clauseComparisons={comparison.clauseComparisons}
-              selectedClauseType={selectedClauseType}
-              onSelectClause={setSelectedClauseType}
+              selectedClauseId={selectedClauseId}
+              onSelectClause={setSelectedClauseId}
               horizontal={true}
             />
 
             {/* Clause Details */}
             {selectedClauseComparison ? (
               <ClauseDiffViewer
-                sourceClause={selectedClauseComparison.sourceClause?.content || ''}
-                targetClause={selectedClauseComparison.targetClause?.content || ''}
+                sourceClause={clauseGroupContent(selectedClauseComparison.sourceClause, selectedClauseComparison.mergedSourceClauses)}
+                targetClause={clauseGroupContent(selectedClauseComparison.targetClause, selectedClauseComparison.splitTargetClauses)}
                 clauseType={selectedClauseComparison.clauseType}
                 riskScore={selectedClauseComparison.riskScore || undefined}
                 riskSummary={selectedClauseComparison.diffSummary || undefined}
                 status={selectedClauseComparison.status}
+                definitionChanges={selectedClauseComparison.definitionChanges || undefined}
+                matchConfidence={selectedClauseComparison.matchConfidence}
+                matchReason={selectedClauseComparison.matchReason}
+                clauseGroup={selectedClauseComparison.clauseGroup}
+                clauseMovement={selectedClauseComparison.clauseMovement}
+                brokenCrossReferences={selectedClauseComparison.brokenCrossReferences || undefined}
               />
             ) : (
               <Card className="flex items-center justify-center">
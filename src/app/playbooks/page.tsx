@@ -0,0 +1,437 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  BookOpen,
+  Plus,
+  Loader2,
+  Trash2,
+  Save,
+  AlertCircle,
+  ChevronDown,
+  ChevronRight,
+  Star,
+} from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { cn, PLAYBOOK_POSITIONS, type PlaybookPosition } from '@/lib/utils';
+import { useClauseTaxonomy } from '@/lib/clause-taxonomy-context';
+
+interface PlaybookSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  isDefault: boolean;
+  ruleCount: number;
+}
+
+interface PlaybookRule {
+  clauseType: string;
+  position: PlaybookPosition;
+  rule: string;
+}
+
+// Rules are edited as one textarea per clause type and position, one rule per line
+type PositionText = Record<PlaybookPosition, string>;
+
+interface PlaybookDraft {
+  id: string | null;
+  name: string;
+  description: string;
+  isDefault: boolean;
+  positions: Record<string, PositionText>;
+}
+
+const positionFields: Record<PlaybookPosition, { label: string; placeholder: string; className: string }> = {
+  preferred: {
+    label: 'Preferred position',
+    placeholder: 'e.g., Liability cap of 24 months of fees',
+    className: 'border-green-300 focus-visible:ring-green-500 dark:border-green-800',
+  },
+  fallback: {
+    label: 'Acceptable fallbacks',
+    placeholder: 'e.g., Liability cap of at least 12 months of fees',
+    className: 'border-yellow-300 focus-visible:ring-yellow-500 dark:border-yellow-800',
+  },
+  red_line: {
+    label: 'Red lines',
+    placeholder: 'e.g., No uncapped liability for the customer',
+    className: 'border-red-300 focus-visible:ring-red-500 dark:border-red-800',
+  },
+};
+
+const emptyPositions = (): PositionText => ({ preferred: '', fallback: '', red_line: '' });
+
+const emptyDraft = (): PlaybookDraft => ({
+  id: null,
+  name: '',
+  description: '',
+  isDefault: false,
+  positions: {},
+});
+
+const splitLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+function draftFromRules(playbook: PlaybookSummary, rules: PlaybookRule[]): PlaybookDraft {
+  const positions: Record<string, PositionText> = {};
+  for (const rule of rules) {
+    const text = positions[rule.clauseType] || emptyPositions();
+    text[rule.position] = text[rule.position] ? `${text[rule.position]}\n${rule.rule}` : rule.rule;
+    positions[rule.clauseType] = text;
+  }
+  return {
+    id: playbook.id,
+    name: playbook.name,
+    description: playbook.description || '',
+    isDefault: playbook.isDefault,
+    positions,
+  };
+}
+
+// Positions for clause types no longer in the taxonomy are dropped, so saving waits for it to load
+function rulesFromDraft(draft: PlaybookDraft, clauseTypeKeys: string[]): PlaybookRule[] {
+  return clauseTypeKeys.flatMap(clauseType =>
+    PLAYBOOK_POSITIONS.flatMap(position =>
+      splitLines(draft.positions[clauseType]?.[position] || '').map(rule => ({ clauseType, position, rule }))
+    )
+  );
+}
+
+export default function PlaybooksPage() {
+  const { clauseTypes } = useClauseTaxonomy();
+  const [playbooks, setPlaybooks] = useState<PlaybookSummary[]>([]);
+  const [draft, setDraft] = useState<PlaybookDraft | null>(null);
+  const [expandedType, setExpandedType] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingPlaybook, setIsLoadingPlaybook] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPlaybooks();
+  }, []);
+
+  const fetchPlaybooks = async () => {
+    try {
+      const response = await fetch('/api/playbooks');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch playbooks');
+      }
+
+      setPlaybooks(data.playbooks || []);
+    } catch (err) {
+      console.error('Error fetching playbooks:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load playbooks');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectPlaybook = async (playbook: PlaybookSummary) => {
+    setIsLoadingPlaybook(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/playbooks/${playbook.id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load playbook');
+      }
+
+      setDraft(draftFromRules(data.playbook, data.playbook.rules));
+      setExpandedType(null);
+    } catch (err) {
+      console.error('Error loading playbook:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load playbook');
+    } finally {
+      setIsLoadingPlaybook(false);
+    }
+  };
+
+  const updatePosition = (clauseType: string, position: PlaybookPosition, value: string) => {
+    setDraft(prev => prev && {
+      ...prev,
+      positions: {
+        ...prev.positions,
+        [clauseType]: { ...(prev.positions[clauseType] || emptyPositions()), [position]: value },
+      },
+    });
+  };
+
+  const savePlaybook = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setError('Please give the playbook a name');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(draft.id ? `/api/playbooks/${draft.id}` : '/api/playbooks', {
+        method: draft.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name.trim(),
+          description: draft.description.trim() || null,
+          isDefault: draft.isDefault,
+          rules: rulesFromDraft(draft, clauseTypes.map(clauseType => clauseType.key)),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save playbook');
+      }
+
+      setDraft(draftFromRules(data.playbook, data.playbook.rules));
+      await fetchPlaybooks();
+    } catch (err) {
+      console.error('Error saving playbook:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save playbook');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deletePlaybook = async () => {
+    if (!draft?.id) return;
+    if (!confirm('Delete this playbook? Past comparisons keep their scores.')) {
+      return;
+    }
+
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/playbooks/${draft.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete playbook');
+      }
+
+      setDraft(null);
+      await fetchPlaybooks();
+    } catch (err) {
+      console.error('Error deleting playbook:', err);
+      alert('Failed to delete playbook');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const inputClassName = 'flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <main className="container max-w-6xl py-8">
+        {/* Page Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <BookOpen className="h-8 w-8 text-muted-foreground" />
+              <div>
+                <h1 className="text-2xl font-bold tracking-tight">Playbooks</h1>
+                <p className="text-muted-foreground">
+                  Record your negotiating positions. Redlines are scored against the default playbook.
+                </p>
+              </div>
+            </div>
+            <Button onClick={() => { setDraft(emptyDraft()); setExpandedType(null); setError(null); }}>
+              <Plus className="h-4 w-4" />
+              New Playbook
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+          {/* Playbook list */}
+          <div className="space-y-2">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 text-muted-foreground animate-spin" />
+              </div>
+            ) : playbooks.length === 0 ? (
+              <Card>
+                <CardContent className="py-8 text-center text-sm text-muted-foreground">
+                  No playbooks yet. Without one, changes are scored with the generic rubric.
+                </CardContent>
+              </Card>
+            ) : (
+              playbooks.map(playbook => (
+                <button
+                  key={playbook.id}
+                  onClick={() => selectPlaybook(playbook)}
+                  className={cn(
+                    'w-full rounded-lg border bg-background p-4 text-left transition-colors hover:border-primary/50',
+                    draft?.id === playbook.id && 'border-primary ring-1 ring-primary'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">{playbook.name}</span>
+                    {playbook.isDefault && <Badge variant="info">Default</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {playbook.ruleCount} {playbook.ruleCount === 1 ? 'position' : 'positions'}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Editor */}
+          {isLoadingPlaybook ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 text-muted-foreground animate-spin" />
+            </div>
+          ) : draft ? (
+            <div className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>{draft.id ? 'Edit Playbook' : 'New Playbook'}</CardTitle>
+                  <CardDescription>
+                    Each risk factor that breaks one of these positions cites it.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium leading-none">Name</label>
+                    <input
+                      type="text"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      placeholder="e.g., Vendor Agreements (Customer Side)"
+                      className={cn(inputClassName, 'h-10')}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium leading-none">
+                      Description <span className="text-muted-foreground">(optional)</span>
+                    </label>
+                    <textarea
+                      value={draft.description}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      rows={2}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={draft.isDefault}
+                      onChange={(e) => setDraft({ ...draft, isDefault: e.target.checked })}
+                      className="h-4 w-4 rounded border-input"
+                    />
+                    <Star className="h-4 w-4 text-muted-foreground" />
+                    Use for new comparisons by default
+                  </label>
+                </CardContent>
+              </Card>
+
+              {/* Positions by clause type */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Positions by Clause Type</CardTitle>
+                  <CardDescription>One position per line. Clause types left empty use the generic rubric.</CardDescription>
+                </CardHeader>
+                <CardContent className="p-0">
+                  <div className="divide-y">
+                    {clauseTypes.map(({ key: clauseType, displayName, description, parentCategory }, index) => {
+                      const text = draft.positions[clauseType] || emptyPositions();
+                      const count = PLAYBOOK_POSITIONS.reduce((sum, position) => sum + splitLines(text[position]).length, 0);
+                      const isExpanded = expandedType === clauseType;
+                      // The taxonomy is ordered by category, so a heading goes before each category's first type
+                      const startsCategory = parentCategory && parentCategory !== clauseTypes[index - 1]?.parentCategory;
+
+                      return (
+                        <div key={clauseType}>
+                          {startsCategory && (
+                            <div className="px-6 pt-4 pb-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                              {parentCategory}
+                            </div>
+                          )}
+                          <button
+                            title={description || undefined}
+                            onClick={() => setExpandedType(isExpanded ? null : clauseType)}
+                            className="flex w-full items-center justify-between px-6 py-3 text-left hover:bg-muted/50 transition-colors"
+                          >
+                            <span className="flex items-center gap-2 text-sm font-medium">
+                              {isExpanded ? (
+                                <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                              ) : (
+                                <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                              )}
+                              {displayName}
+                            </span>
+                            {count > 0 && <Badge variant="secondary">{count}</Badge>}
+                          </button>
+                          {isExpanded && (
+                            <div className="space-y-3 px-6 pb-4">
+                              {PLAYBOOK_POSITIONS.map(position => (
+                                <div key={position} className="space-y-1">
+                                  <label className="text-xs font-medium text-muted-foreground">
+                                    {positionFields[position].label}
+                                  </label>
+                                  <textarea
+                                    value={text[position]}
+                                    onChange={(e) => updatePosition(clauseType, position, e.target.value)}
+                                    placeholder={positionFields[position].placeholder}
+                                    rows={2}
+                                    className={cn(inputClassName, positionFields[position].className)}
+                                  />
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <div className="flex items-center justify-between">
+                {draft.id ? (
+                  <Button
+                    variant="ghost"
+                    onClick={deletePlaybook}
+                    disabled={isDeleting}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    {isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                    Delete
+                  </Button>
+                ) : <span />}
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setDraft(null)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={savePlaybook} disabled={isSaving || clauseTypes.length === 0}>
+                    {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                    Save Playbook
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="py-16 text-center text-muted-foreground">
+                Select a playbook to edit it, or create a new one.
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
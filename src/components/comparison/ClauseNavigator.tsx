@@ -1,15 +1,25 @@
 'use client';
 
 import React from 'react';
-import { cn } from '@/lib/utils';
+import { cn, isLowConfidenceMatch } from '@/lib/utils';
+import { useClauseTaxonomy } from '@/lib/clause-taxonomy-context';
 import { Badge } from '@/components/ui/badge';
 import { 
   CheckCircle, 
   AlertTriangle, 
   XCircle, 
   PlusCircle,
-  MinusCircle 
+  MinusCircle,
+  HelpCircle,
+  LocateFixed,
+  BookOpen,
+  ScanSearch,
+  Split,
+  Merge,
+  MoveVertical,
+  Link2Off
 } from 'lucide-react';
+import { describeBrokenCrossReference, type BrokenCrossReference } from '@/lib/clause-movement';
 
 interface ClauseComparison {
   id: string;
@@ -17,21 +27,37 @@ interface ClauseComparison {
   status: string;
   riskScore?: number | null;
   diffSummary?: string | null;
+  // Terms the clause uses that were redefined elsewhere in the contract
+  definitionChanges?: { term: string }[] | null;
+  // How sure matching was that the two clauses correspond (0-1), and why
+  matchConfidence?: number | null;
+  matchReason?: string | null;
+  // How a split's or merge's clauses relate, e.g. "Split into 8.1 and 8.2"
+  clauseGroup?: string | null;
+  splitTargetClauses?: { id: string }[];
+  // How the clause moved or was renumbered, e.g. "Renumbered from 9 to 10"
+  clauseMovement?: string | null;
+  brokenCrossReferences?: BrokenCrossReference[] | null;
 }
 
 interface ClauseNavigatorProps {
   clauseComparisons: ClauseComparison[];
-  selectedClauseType: string | null;
-  onSelectClause: (clauseType: string) => void;
+  // Clause comparisons are picked by id: unclassified changes share one clause type
+  selectedClauseId: string | null;
+  onSelectClause: (clauseComparisonId: string) => void;
+  // Shows a button on each clause that jumps to it in the full document
+  onLocateClause?: (clauseComparisonId: string) => void;
   horizontal?: boolean;
 }
 
 export function ClauseNavigator({
   clauseComparisons,
-  selectedClauseType,
+  selectedClauseId,
   onSelectClause,
+  onLocateClause,
   horizontal = false,
 }: ClauseNavigatorProps) {
+  const { formatClauseType } = useClauseTaxonomy();
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'identical':
@@ -44,11 +70,69 @@ export function ClauseNavigator({
         return <XCircle className="h-4 w-4 text-red-500 dark:text-red-400" />;
       case 'added':
         return <PlusCircle className="h-4 w-4 text-blue-500 dark:text-blue-400" />;
+      case 'other':
+        return <HelpCircle className="h-4 w-4 text-purple-500 dark:text-purple-400" />;
       default:
         return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
     }
   };
 
+  const getDefinitionFlag = (clause: ClauseComparison) => {
+    if (!clause.definitionChanges || clause.definitionChanges.length === 0) return null;
+    const terms = clause.definitionChanges.map(change => `"${change.term}"`).join(', ');
+    return (
+      <span title={`Uses redefined terms: ${terms}`} className="shrink-0">
+        <BookOpen className="h-3.5 w-3.5 text-amber-500 dark:text-amber-400" />
+      </span>
+    );
+  };
+
+  // A doubtful pairing means a doubtful score, so the reviewer is asked to check it
+  const getReviewFlag = (clause: ClauseComparison) => {
+    if (!isLowConfidenceMatch(clause.matchConfidence)) return null;
+    const confidence = Math.round(clause.matchConfidence! * 100);
+    return (
+      <span
+        title={`Check this pairing: matched with ${confidence}% confidence${clause.matchReason ? ` (${clause.matchReason})` : ''}`}
+        className="shrink-0"
+      >
+        <ScanSearch className="h-3.5 w-3.5 text-amber-500 dark:text-amber-400" />
+      </span>
+    );
+  };
+
+  const getGroupFlag = (clause: ClauseComparison) => {
+    if (!clause.clauseGroup) return null;
+    const Icon = clause.splitTargetClauses?.length ? Split : Merge;
+    return (
+      <span title={clause.clauseGroup} className="shrink-0">
+        <Icon className="h-3.5 w-3.5 text-blue-500 dark:text-blue-400" />
+      </span>
+    );
+  };
+
+  const getMovementFlag = (clause: ClauseComparison) => {
+    if (!clause.clauseMovement) return null;
+    return (
+      <span title={clause.clauseMovement} className="shrink-0">
+        <MoveVertical className="h-3.5 w-3.5 text-blue-500 dark:text-blue-400" />
+      </span>
+    );
+  };
+
+  // A reference left pointing at a section's old number sends the reader to the wrong clause
+  const getCrossReferenceFlag = (clause: ClauseComparison) => {
+    if (!clause.brokenCrossReferences || clause.brokenCrossReferences.length === 0) return null;
+    return (
+      <span
+        title={`Check the cross-references: ${clause.brokenCrossReferences.map(describeBrokenCrossReference).join(', ')}`}
+        className="shrink-0"
+      >
+        <Link2Off className="h-3.5 w-3.5 text-amber-500 dark:text-amber-400" />
+      </span>
+    );
+  };
+
   const getChangeBadgeVariant = (changeScore: number): 'success' | 'warning' | 'danger' | 'default' => {
     if (changeScore >= 75) return 'danger';
     if (changeScore >= 50) return 'warning';
@@ -56,25 +140,19 @@ export function ClauseNavigator({
     return 'success';
   };
 
-  const formatClauseType = (type: string) => {
-    return type
-      .split('_')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
-  };
-
   // Sort clauses: significant changes first, then by risk score
   const sortedClauses = [...clauseComparisons].sort((a, b) => {
     const statusOrder: Record<string, number> = {
       significant_change: 0,
       missing: 1,
-      minor_change: 2,
-      added: 3,
-      identical: 4,
+      other: 2,
+      minor_change: 3,
+      added: 4,
+      identical: 5,
     };
     
-    const aOrder = statusOrder[a.status] ?? 5;
-    const bOrder = statusOrder[b.status] ?? 5;
+    const aOrder = statusOrder[a.status] ?? 6;
+    const bOrder = statusOrder[b.status] ?? 6;
     
     if (aOrder !== bOrder) return aOrder - bOrder;
     
@@ -92,6 +170,8 @@ export function ClauseNavigator({
     ).length,
     missing: clauseComparisons.filter(c => c.status === 'missing').length,
     added: clauseComparisons.filter(c => c.status === 'added').length,
+    unclassified: clauseComparisons.filter(c => c.status === 'other').length,
+    toReview: clauseComparisons.filter(c => isLowConfidenceMatch(c.matchConfidence)).length,
   };
 
   if (horizontal) {
@@ -101,7 +181,12 @@ export function ClauseNavigator({
         <div className="p-4 border-b flex items-center justify-between">
           <div>
             <h3 className="font-semibold">Clause Analysis</h3>
-            <p className="text-sm text-muted-foreground">{stats.total} clauses analyzed</p>
+            <p className="text-sm text-muted-foreground">
+              {stats.total} clauses analyzed
+              {stats.toReview > 0 && (
+                <span className="text-amber-600 dark:text-amber-400"> · {stats.toReview} pairings to review</span>
+              )}
+            </p>
           </div>
           <div className="flex items-center gap-4 text-sm">
             <div className="flex items-center gap-1">
@@ -120,6 +205,12 @@ export function ClauseNavigator({
               <span className="font-semibold text-blue-600 dark:text-blue-400">{stats.added}</span>
               <span className="text-muted-foreground">added</span>
             </div>
+            {stats.unclassified > 0 && (
+              <div className="flex items-center gap-1">
+                <span className="font-semibold text-purple-600 dark:text-purple-400">{stats.unclassified}</span>
+                <span className="text-muted-foreground">unclassified</span>
+              </div>
+            )}
           </div>
         </div>
 
@@ -127,26 +218,44 @@ export function ClauseNavigator({
         <div className="p-4 overflow-y-auto max-h-[180px]">
           <div className="flex gap-2 flex-wrap">
             {sortedClauses.map((clause) => (
-              <button
+              <div
                 key={clause.id}
-                onClick={() => onSelectClause(clause.clauseType)}
                 className={cn(
-                  'flex items-center gap-2 px-3 py-2 rounded-lg border transition-colors text-sm',
-                  selectedClauseType === clause.clauseType
+                  'flex items-center rounded-lg border transition-colors text-sm',
+                  selectedClauseId === clause.id
                     ? 'bg-accent border-accent-foreground/20'
                     : 'bg-background hover:bg-muted/50'
                 )}
               >
-                {getStatusIcon(clause.status)}
-                <span className="font-medium whitespace-nowrap">
-                  {formatClauseType(clause.clauseType)}
-                </span>
-                {clause.riskScore !== null && clause.riskScore !== undefined && clause.riskScore > 0 && (
-                  <Badge variant={getChangeBadgeVariant(clause.riskScore)} className="text-xs ml-1">
-                    {clause.riskScore}
-                  </Badge>
+                <button
+                  onClick={() => onSelectClause(clause.id)}
+                  className={cn('flex items-center gap-2 py-2 pl-3', onLocateClause ? 'pr-1' : 'pr-3')}
+                >
+                  {getStatusIcon(clause.status)}
+                  <span className="font-medium whitespace-nowrap">
+                    {formatClauseType(clause.clauseType)}
+                  </span>
+                  {getGroupFlag(clause)}
+                  {getMovementFlag(clause)}
+                  {getDefinitionFlag(clause)}
+                  {getCrossReferenceFlag(clause)}
+                  {getReviewFlag(clause)}
+                  {clause.riskScore !== null && clause.riskScore !== undefined && clause.riskScore > 0 && (
+                    <Badge variant={getChangeBadgeVariant(clause.riskScore)} className="text-xs ml-1">
+                      {clause.riskScore}
+                    </Badge>
+                  )}
+                </button>
+                {onLocateClause && (
+                  <button
+                    onClick={() => onLocateClause(clause.id)}
+                    title="Show in document"
+                    className="py-2 pl-1 pr-3 text-muted-foreground hover:text-foreground"
+                  >
+                    <LocateFixed className="h-3.5 w-3.5" />
+                  </button>
                 )}
-              </button>
+              </div>
             ))}
           </div>
         </div>
@@ -162,12 +271,15 @@ export function ClauseNavigator({
         <h3 className="font-semibold">Clause Navigator</h3>
         <p className="text-sm text-muted-foreground mt-1">
           {stats.total} clauses analyzed
+          {stats.toReview > 0 && (
+            <span className="text-amber-600 dark:text-amber-400"> · {stats.toReview} pairings to review</span>
+          )}
         </p>
       </div>
 
       {/* Stats Summary */}
       <div className="px-4 py-3 border-b">
-        <div className="grid grid-cols-4 gap-2 text-center text-xs">
+        <div className={cn('grid gap-2 text-center text-xs', stats.unclassified > 0 ? 'grid-cols-5' : 'grid-cols-4')}>
           <div>
             <div className="font-semibold text-green-600 dark:text-green-400">{stats.identical}</div>
             <div className="text-muted-foreground">Identical</div>
@@ -184,41 +296,70 @@ export function ClauseNavigator({
             <div className="font-semibold text-blue-600 dark:text-blue-400">{stats.added}</div>
             <div className="text-muted-foreground">Added</div>
           </div>
+          {stats.unclassified > 0 && (
+            <div>
+              <div className="font-semibold text-purple-600 dark:text-purple-400">{stats.unclassified}</div>
+              <div className="text-muted-foreground">Unclassified</div>
+            </div>
+          )}
         </div>
       </div>
 
       {/* Clause List */}
       <div className="max-h-[500px] overflow-y-auto">
         {sortedClauses.map((clause) => (
-          <button
+          <div
             key={clause.id}
-            onClick={() => onSelectClause(clause.clauseType)}
             className={cn(
-              'w-full text-left px-4 py-3 border-b transition-colors',
-              selectedClauseType === clause.clauseType
+              'flex border-b transition-colors',
+              selectedClauseId === clause.id
                 ? 'bg-accent'
                 : 'hover:bg-muted/50'
             )}
           >
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                {getStatusIcon(clause.status)}
-                <span className="font-medium text-sm">
-                  {formatClauseType(clause.clauseType)}
-                </span>
+            <button
+              onClick={() => onSelectClause(clause.id)}
+              className="flex-1 min-w-0 text-left px-4 py-3"
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  {getStatusIcon(clause.status)}
+                  <span className="font-medium text-sm">
+                    {formatClauseType(clause.clauseType)}
+                  </span>
+                  {getGroupFlag(clause)}
+                  {getMovementFlag(clause)}
+                  {getDefinitionFlag(clause)}
+                  {getCrossReferenceFlag(clause)}
+                  {getReviewFlag(clause)}
+                </div>
+                {clause.riskScore !== null && clause.riskScore !== undefined && clause.riskScore > 0 && (
+                  <Badge variant={getChangeBadgeVariant(clause.riskScore)} className="text-xs">
+                    {clause.riskScore}
+                  </Badge>
+                )}
               </div>
-              {clause.riskScore !== null && clause.riskScore !== undefined && clause.riskScore > 0 && (
-                <Badge variant={getChangeBadgeVariant(clause.riskScore)} className="text-xs">
-                  {clause.riskScore}
-                </Badge>
+              {(clause.clauseGroup || clause.clauseMovement) && (
+                <p className="text-xs text-blue-700 dark:text-blue-300 mt-1">
+                  {[clause.clauseGroup, clause.clauseMovement].filter(Boolean).join(' · ')}
+                </p>
               )}
-            </div>
-            {clause.diffSummary && clause.status !== 'identical' && (
-              <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
-                {clause.diffSummary}
-              </p>
+              {clause.diffSummary && (clause.status !== 'identical' || !!clause.definitionChanges?.length) && (
+                <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                  {clause.diffSummary}
+                </p>
+              )}
+            </button>
+            {onLocateClause && (
+              <button
+                onClick={() => onLocateClause(clause.id)}
+                title="Show in document"
+                className="px-3 text-muted-foreground hover:text-foreground"
+              >
+                <LocateFixed className="h-4 w-4" />
+              </button>
             )}
-          </button>
+          </div>
         ))}
       </div>
     </div>
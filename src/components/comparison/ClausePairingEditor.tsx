@@ -0,0 +1,150 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Link2, Unlink, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useClauseTaxonomy } from '@/lib/clause-taxonomy-context';
+import type { DocumentClause } from '@/components/comparison/DocumentViewer';
+
+interface ClauseComparison {
+  id: string;
+  status: string;
+  sourceClause: DocumentClause | null;
+  targetClause: DocumentClause | null;
+}
+
+interface ClausePairingEditorProps {
+  comparisonId: string;
+  clauseComparison: ClauseComparison;
+  sourceClauses: DocumentClause[];
+  targetClauses: DocumentClause[];
+  // Called once the comparison has been re-scored, with the clause the reviewer acted on
+  onCorrected: (clauseId: string) => void;
+}
+
+// Select value for marking the original clause as removed in the revision
+const MARK_MISSING = '__missing__';
+
+type PairingCorrection =
+  | { action: 'link'; sourceClauseId: string; targetClauseId: string }
+  | { action: 'unlink'; clauseComparisonId: string }
+  | { action: 'mark_missing'; sourceClauseId: string };
+
+// In document order, clauses that couldn't be located last
+function byPosition(clauses: DocumentClause[]): DocumentClause[] {
+  return [...clauses].sort((a, b) => (a.startPosition ?? Infinity) - (b.startPosition ?? Infinity));
+}
+
+export function ClausePairingEditor({
+  comparisonId,
+  clauseComparison,
+  sourceClauses,
+  targetClauses,
+  onCorrected,
+}: ClausePairingEditorProps) {
+  const { formatClauseType } = useClauseTaxonomy();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { sourceClause, targetClause } = clauseComparison;
+  // A missing or paired row re-pairs its original clause; an added row its revised one
+  const candidates = useMemo(
+    () => byPosition(sourceClause ? targetClauses : sourceClauses)
+      .filter(clause => clause.id !== (sourceClause ? targetClause?.id : undefined)),
+    [sourceClause, targetClause, sourceClauses, targetClauses]
+  );
+
+  // Changes outside the clauses have nothing to pair
+  if (clauseComparison.status === 'other' || (!sourceClause && !targetClause)) {
+    return null;
+  }
+
+  const clauseLabel = (clause: DocumentClause) =>
+    clause.title ? `${clause.title} (${formatClauseType(clause.clauseType)})` : formatClauseType(clause.clauseType);
+
+  const submit = async (correction: PairingCorrection, clauseId: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/compare/${comparisonId}/pairing`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(correction),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update clause pairing');
+      }
+
+      onCorrected(clauseId);
+    } catch (err) {
+      console.error('Error updating clause pairing:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update clause pairing');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSelect = (value: string) => {
+    if (!value) return;
+    if (sourceClause) {
+      submit(
+        value === MARK_MISSING
+          ? { action: 'mark_missing', sourceClauseId: sourceClause.id }
+          : { action: 'link', sourceClauseId: sourceClause.id, targetClauseId: value },
+        sourceClause.id
+      );
+    } else {
+      submit({ action: 'link', sourceClauseId: value, targetClauseId: targetClause!.id }, targetClause!.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="py-3 flex flex-wrap items-center gap-3 text-sm">
+        <Link2 className="h-4 w-4 text-muted-foreground shrink-0" />
+        <span className="text-muted-foreground">
+          {sourceClause ? 'Pair the original clause with' : 'Pair the revised clause with'}
+        </span>
+        <select
+          value=""
+          disabled={isSaving}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex h-8 min-w-0 flex-1 rounded-md border border-input bg-background px-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+        >
+          <option value="">
+            {sourceClause ? 'Choose a clause from the revised contract…' : 'Choose a clause from the original contract…'}
+          </option>
+          {candidates.map(clause => (
+            <option key={clause.id} value={clause.id}>
+              {clauseLabel(clause)}
+            </option>
+          ))}
+          {sourceClause && targetClause && (
+            <option value={MARK_MISSING}>None: removed in the revised contract</option>
+          )}
+        </select>
+        {sourceClause && targetClause && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isSaving}
+            onClick={() => submit({ action: 'unlink', clauseComparisonId: clauseComparison.id }, sourceClause.id)}
+          >
+            <Unlink className="h-4 w-4" />
+            Unlink
+          </Button>
+        )}
+        {isSaving && (
+          <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Saving…
+          </span>
+        )}
+        {error && <span className="w-full text-xs text-red-600 dark:text-red-400">{error}</span>}
+      </CardContent>
+    </Card>
+  );
+}
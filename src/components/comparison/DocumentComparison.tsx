@@ -0,0 +1,315 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Allotment } from 'allotment';
+import 'allotment/dist/style.css';
+import { ChevronDown, ChevronUp, Link2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useClauseTaxonomy } from '@/lib/clause-taxonomy-context';
+import type { TextSpan } from '@/lib/clause-alignment';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { DocumentClause } from './DocumentViewer';
+
+interface ClauseComparisonOverlay {
+  clauseType: string;
+  status: string;
+  riskScore: number | null;
+  // For 'other' rows, the changed region's span on that side
+  sourceClause: Pick<DocumentClause, 'id' | 'startPosition' | 'endPosition'> | null;
+  targetClause: Pick<DocumentClause, 'id' | 'startPosition' | 'endPosition'> | null;
+}
+
+interface DocumentComparisonProps {
+  sourceText: string;
+  targetText: string;
+  sourceTitle: string;
+  targetTitle: string;
+  sourceClauses: DocumentClause[];
+  targetClauses: DocumentClause[];
+  clauseComparisons: ClauseComparisonOverlay[];
+}
+
+type Side = 'source' | 'target';
+
+interface Segment {
+  start: number;
+  end: number;
+  clause?: DocumentClause;
+  unclassifiedIndex?: number;
+}
+
+// Shade a clause by what happened to it, darker as its risk rises
+function clauseShade(status: string | undefined, riskScore: number | null | undefined): string {
+  if (status === 'missing') return 'bg-red-100 dark:bg-red-950/60';
+  if (status === 'added') return 'bg-blue-100 dark:bg-blue-950/60';
+  if (status === 'identical') return 'bg-green-50 dark:bg-green-950/40';
+
+  const score = riskScore ?? 0;
+  if (score >= 75) return 'bg-red-200 dark:bg-red-900/60';
+  if (score >= 50) return 'bg-orange-200 dark:bg-orange-900/60';
+  if (score >= 25) return 'bg-yellow-200 dark:bg-yellow-900/60';
+  return 'bg-yellow-50 dark:bg-yellow-950/40';
+}
+
+// The span of a clause or changed region, if it has one on this side
+function spanOf(clause: Pick<DocumentClause, 'startPosition' | 'endPosition'> | null): TextSpan | null {
+  if (!clause || clause.startPosition === null || clause.endPosition === null) return null;
+  return clause.endPosition > clause.startPosition ? { start: clause.startPosition, end: clause.endPosition } : null;
+}
+
+// Clause spans and unclassified changes in document order; where they overlap, the earlier one wins
+function buildSegments(text: string, clauses: DocumentClause[], unclassified: (TextSpan | null)[]): Segment[] {
+  const marked: Segment[] = [
+    ...clauses
+      .filter(c => c.startPosition !== null && c.endPosition !== null)
+      .map(c => ({ start: c.startPosition!, end: Math.min(c.endPosition!, text.length), clause: c })),
+    ...unclassified.flatMap((span, i) => span ? [{ ...span, unclassifiedIndex: i }] : []),
+  ].sort((a, b) => a.start - b.start);
+
+  const segments: Segment[] = [];
+  let position = 0;
+  for (const segment of marked) {
+    const start = Math.max(segment.start, position);
+    if (segment.end <= start) continue;
+    if (start > position) segments.push({ start: position, end: start });
+    segments.push({ ...segment, start });
+    position = segment.end;
+  }
+  if (position < text.length) segments.push({ start: position, end: text.length });
+
+  return segments;
+}
+
+// Map a scroll position in one pane to the other by interpolating between matched clause pairs
+function interpolate(anchors: [number, number][], position: number): number {
+  for (let i = 1; i < anchors.length; i++) {
+    const [fromStart, toStart] = anchors[i - 1];
+    const [fromEnd, toEnd] = anchors[i];
+    if (position <= fromEnd) {
+      const ratio = fromEnd > fromStart ? (position - fromStart) / (fromEnd - fromStart) : 0;
+      return toStart + ratio * (toEnd - toStart);
+    }
+  }
+  return anchors[anchors.length - 1][1];
+}
+
+export function DocumentComparison({
+  sourceText,
+  targetText,
+  sourceTitle,
+  targetTitle,
+  sourceClauses,
+  targetClauses,
+  clauseComparisons,
+}: DocumentComparisonProps) {
+  const { formatClauseType } = useClauseTaxonomy();
+  const [syncScroll, setSyncScroll] = useState(true);
+  const [selectedClauseType, setSelectedClauseType] = useState<string | null>(null);
+  const [currentUnclassified, setCurrentUnclassified] = useState<number | null>(null);
+  const sourcePaneRef = useRef<HTMLDivElement>(null);
+  const targetPaneRef = useRef<HTMLDivElement>(null);
+  const paneRefs = { source: sourcePaneRef, target: targetPaneRef };
+  // Pane whose next scroll event we caused ourselves and should not echo back
+  const programmaticScroll = useRef<Side | null>(null);
+
+  const clauseComparisonByClauseId = useMemo(() => {
+    const byId = new Map<string, ClauseComparisonOverlay>();
+    for (const cc of clauseComparisons) {
+      if (cc.sourceClause) byId.set(cc.sourceClause.id, cc);
+      if (cc.targetClause) byId.set(cc.targetClause.id, cc);
+    }
+    return byId;
+  }, [clauseComparisons]);
+
+  // The changes outside every clause the comparison recorded, as their regions on each side
+  const unclassified = useMemo(() => {
+    const regions = clauseComparisons.filter(cc => cc.status === 'other');
+    return {
+      source: regions.map(cc => spanOf(cc.sourceClause)),
+      target: regions.map(cc => spanOf(cc.targetClause)),
+    };
+  }, [clauseComparisons]);
+  const unclassifiedCount = unclassified.source.length;
+
+  const segments = useMemo(() => ({
+    source: buildSegments(sourceText, sourceClauses, unclassified.source),
+    target: buildSegments(targetText, targetClauses, unclassified.target),
+  }), [sourceText, targetText, sourceClauses, targetClauses, unclassified]);
+
+  const scrollPaneTo = (side: Side, top: number) => {
+    const pane = paneRefs[side].current;
+    if (!pane || Math.abs(pane.scrollTop - top) < 1) return;
+    programmaticScroll.current = side;
+    pane.scrollTop = top;
+  };
+
+  const handleScroll = (side: Side) => {
+    if (programmaticScroll.current === side) {
+      programmaticScroll.current = null;
+      return;
+    }
+    if (!syncScroll) return;
+
+    const other: Side = side === 'source' ? 'target' : 'source';
+    const from = paneRefs[side].current;
+    const to = paneRefs[other].current;
+    if (!from || !to) return;
+
+    // Matched clause pairs, keeping only those in the same order on both sides
+    const pairs: [number, number][] = [];
+    for (const cc of clauseComparisons) {
+      if (!cc.sourceClause || !cc.targetClause) continue;
+      const fromElement = from.querySelector<HTMLElement>(`[data-clause-id="${side === 'source' ? cc.sourceClause.id : cc.targetClause.id}"]`);
+      const toElement = to.querySelector<HTMLElement>(`[data-clause-id="${side === 'source' ? cc.targetClause.id : cc.sourceClause.id}"]`);
+      if (fromElement && toElement) pairs.push([fromElement.offsetTop, toElement.offsetTop]);
+    }
+    pairs.sort((a, b) => a[0] - b[0]);
+
+    const end: [number, number] = [from.scrollHeight - from.clientHeight, to.scrollHeight - to.clientHeight];
+    const anchors: [number, number][] = [[0, 0]];
+    for (const pair of pairs) {
+      const last = anchors[anchors.length - 1];
+      if (pair[1] >= last[1] && pair[0] < end[0] && pair[1] < end[1]) anchors.push(pair);
+    }
+    anchors.push(end);
+
+    scrollPaneTo(other, interpolate(anchors, from.scrollTop));
+  };
+
+  // Bring an unclassified change into view on each side it has text on
+  const goToUnclassified = (index: number) => {
+    setCurrentUnclassified(index);
+    for (const side of ['source', 'target'] as const) {
+      const pane = paneRefs[side].current;
+      const element = pane?.querySelector<HTMLElement>(`[data-unclassified-index="${index}"]`);
+      if (pane && element) {
+        pane.scrollTo({ top: Math.max(0, element.offsetTop - pane.clientHeight / 3) });
+      }
+    }
+  };
+
+  const renderPane = (side: Side, title: string, text: string) => (
+    <div className="flex h-full flex-col">
+      <div className="px-4 py-2 border-b bg-muted text-sm font-medium truncate">
+        {title}
+      </div>
+      <div
+        ref={paneRefs[side]}
+        onScroll={() => handleScroll(side)}
+        className="relative flex-1 overflow-auto p-4 bg-card font-mono text-sm leading-relaxed whitespace-pre-wrap"
+      >
+        {segments[side].map(segment => {
+          const value = text.slice(segment.start, segment.end);
+
+          if (segment.clause) {
+            const cc = clauseComparisonByClauseId.get(segment.clause.id);
+            const isSelected = selectedClauseType !== null && cc?.clauseType === selectedClauseType;
+            return (
+              <span
+                key={segment.start}
+                data-clause-id={segment.clause.id}
+                title={[
+                  segment.clause.title || formatClauseType(segment.clause.clauseType),
+                  cc?.status.replace(/_/g, ' '),
+                  cc?.riskScore ? `risk ${cc.riskScore}` : null,
+                ].filter(Boolean).join(' · ')}
+                onClick={() => setSelectedClauseType(cc?.clauseType ?? null)}
+                className={cn(
+                  'cursor-pointer rounded-sm',
+                  clauseShade(cc?.status, cc?.riskScore),
+                  isSelected && 'ring-2 ring-primary/60'
+                )}
+              >
+                {value}
+              </span>
+            );
+          }
+
+          if (segment.unclassifiedIndex !== undefined) {
+            return (
+              <mark
+                key={segment.start}
+                data-unclassified-index={segment.unclassifiedIndex}
+                title={side === 'source' ? 'Unclassified text change: original' : 'Unclassified text change: revised'}
+                className={cn(
+                  'rounded-sm bg-purple-200 text-purple-950 outline-dashed outline-1 outline-purple-500 dark:bg-purple-900/70 dark:text-purple-100',
+                  currentUnclassified === segment.unclassifiedIndex && 'outline-2 outline-solid'
+                )}
+              >
+                {value}
+              </mark>
+            );
+          }
+
+          return <span key={segment.start}>{value}</span>;
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="border rounded-lg overflow-hidden bg-card">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-2 border-b bg-muted">
+        <div className="flex items-center gap-2 text-sm">
+          {unclassifiedCount > 0 ? (
+            <>
+              <Badge className="border-transparent bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-100">
+                {unclassifiedCount} unclassified text {unclassifiedCount === 1 ? 'change' : 'changes'}
+              </Badge>
+              <span className="text-muted-foreground">Changed text that isn&apos;t part of any clause</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Previous unclassified change"
+                onClick={() => goToUnclassified(((currentUnclassified ?? 0) - 1 + unclassifiedCount) % unclassifiedCount)}
+              >
+                <ChevronUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Next unclassified change"
+                onClick={() => goToUnclassified(currentUnclassified === null ? 0 : (currentUnclassified + 1) % unclassifiedCount)}
+              >
+                <ChevronDown className="h-4 w-4" />
+              </Button>
+            </>
+          ) : (
+            <Badge variant="success">Every text change falls inside a clause</Badge>
+          )}
+        </div>
+        <Button
+          variant={syncScroll ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => setSyncScroll(!syncScroll)}
+        >
+          <Link2 className="h-4 w-4" />
+          {syncScroll ? 'Scrolling synced' : 'Sync scrolling'}
+        </Button>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 px-4 py-2 border-b text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5"><span className="h-3 w-3 rounded-sm bg-green-50 border dark:bg-green-950/40" />Identical</span>
+        <span className="flex items-center gap-1.5"><span className="h-3 w-3 rounded-sm bg-yellow-200 dark:bg-yellow-900/60" />Changed</span>
+        <span className="flex items-center gap-1.5"><span className="h-3 w-3 rounded-sm bg-orange-200 dark:bg-orange-900/60" />Elevated risk</span>
+        <span className="flex items-center gap-1.5"><span className="h-3 w-3 rounded-sm bg-red-200 dark:bg-red-900/60" />High risk</span>
+        <span className="flex items-center gap-1.5"><span className="h-3 w-3 rounded-sm bg-red-100 dark:bg-red-950/60" />Missing</span>
+        <span className="flex items-center gap-1.5"><span className="h-3 w-3 rounded-sm bg-blue-100 dark:bg-blue-950/60" />Added</span>
+        <span className="flex items-center gap-1.5"><span className="h-3 w-3 rounded-sm bg-purple-200 outline-dashed outline-1 outline-purple-500 dark:bg-purple-900/70" />Unclassified text change</span>
+      </div>
+
+      {/* Resizable panes */}
+      <div className="h-[75vh]">
+        <Allotment>
+          <Allotment.Pane minSize={240}>{renderPane('source', sourceTitle, sourceText)}</Allotment.Pane>
+          <Allotment.Pane minSize={240}>{renderPane('target', targetTitle, targetText)}</Allotment.Pane>
+        </Allotment>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import { useClauseTaxonomy } from '@/lib/clause-taxonomy-context';
+
+// An extracted clause and where it sits in the contract text (null when it couldn't be located)
+export interface DocumentClause {
+  id: string;
+  clauseType: string;
+  title: string | null;
+  startPosition: number | null;
+  endPosition: number | null;
+}
+
+interface DocumentViewerProps {
+  text: string;
+  clauses: DocumentClause[];
+  selectedClauseId: string | null;
+  onSelectClause?: (clauseId: string) => void;
+  // Bump to scroll to the selected clause again, e.g. when it is picked from the navigator
+  scrollRequest?: number;
+}
+
+interface DocumentSegment {
+  text: string;
+  clause: DocumentClause | null;
+}
+
+// Split the text into plain runs and clause spans, in document order; overlapping spans are clipped
+function segmentDocument(text: string, clauses: DocumentClause[]): DocumentSegment[] {
+  const located = clauses
+    .filter(c => c.startPosition !== null && c.endPosition !== null)
+    .sort((a, b) => a.startPosition! - b.startPosition!);
+
+  const segments: DocumentSegment[] = [];
+  let position = 0;
+
+  for (const clause of located) {
+    const start = Math.max(clause.startPosition!, position);
+    const end = Math.min(clause.endPosition!, text.length);
+    if (end <= start) continue;
+
+    if (start > position) {
+      segments.push({ text: text.slice(position, start), clause: null });
+    }
+    segments.push({ text: text.slice(start, end), clause });
+    position = end;
+  }
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), clause: null });
+  }
+  return segments;
+}
+
+export function DocumentViewer({
+  text,
+  clauses,
+  selectedClauseId,
+  onSelectClause,
+  scrollRequest = 0,
+}: DocumentViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { formatClauseType } = useClauseTaxonomy();
+  const segments = useMemo(() => segmentDocument(text, clauses), [text, clauses]);
+  const unlocatedCount = clauses.filter(c => c.startPosition === null).length;
+
+  // Scroll the selected clause to the top of the viewer without moving the page
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !selectedClauseId) return;
+
+    const element = container.querySelector<HTMLElement>(`[data-clause-id="${selectedClauseId}"]`);
+    if (element) {
+      container.scrollTo({ top: element.offsetTop - 16, behavior: 'smooth' });
+    }
+  }, [selectedClauseId, scrollRequest, segments]);
+
+  if (!text) {
+    return (
+      <p className="text-sm text-muted-foreground py-8 text-center">
+        The text of this document isn&apos;t available.
+      </p>
+    );
+  }
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <div
+        ref={containerRef}
+        className="relative p-4 bg-card font-mono text-sm leading-relaxed whitespace-pre-wrap overflow-auto max-h-[600px]"
+      >
+        {segments.map((segment, index) => {
+          if (!segment.clause) {
+            return <span key={index}>{segment.text}</span>;
+          }
+
+          const clause = segment.clause;
+          const isSelected = clause.id === selectedClauseId;
+          return (
+            <span
+              key={index}
+              data-clause-id={clause.id}
+              title={clause.title || formatClauseType(clause.clauseType)}
+              onClick={() => onSelectClause?.(clause.id)}
+              className={cn(
+                'rounded-sm transition-colors',
+                onSelectClause && 'cursor-pointer',
+                isSelected
+                  ? 'bg-yellow-200/70 ring-2 ring-yellow-400 dark:bg-yellow-500/25 dark:ring-yellow-500/60'
+                  : 'bg-primary/5 hover:bg-primary/10'
+              )}
+            >
+              <span className="select-none mr-2 rounded bg-muted px-1.5 py-0.5 font-sans text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">
+                {formatClauseType(clause.clauseType)}
+              </span>
+              {segment.text}
+            </span>
+          );
+        })}
+      </div>
+
+      {unlocatedCount > 0 && (
+        <div className="px-4 py-2 bg-muted border-t text-xs text-muted-foreground">
+          {unlocatedCount} {unlocatedCount === 1 ? 'clause' : 'clauses'} couldn&apos;t be located in the document text
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { FileText, X } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogBody } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
+import { useClauseTaxonomy } from '@/lib/clause-taxonomy-context';
 
 interface ClauseComparisonResult {
   id: string;
@@ -24,17 +25,10 @@ interface ExecutiveSummaryProps {
   targetContractName?: string;
 }
 
-// Format clause type for display (e.g., "limitation_of_liability" -> "Limitation of Liability")
-function formatClauseType(clauseType: string): string {
-  return clauseType
-    .split('_')
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
-}
-
 export function ExecutiveSummary({ summary, clauseComparisons, targetContractName }: ExecutiveSummaryProps) {
   const [selectedClause, setSelectedClause] = useState<ClauseComparisonResult | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const { formatClauseType } = useClauseTaxonomy();
 
   // Create a map of clause types to their comparison data
   const clauseMap = useMemo(() => {
@@ -74,7 +68,7 @@ export function ExecutiveSummary({ summary, clauseComparisons, targetContractNam
       const clauseType = match[1].toLowerCase();
       parts.push({
         type: 'link',
-        content: formatClauseType(match[1]),
+        content: formatClauseType(clauseType),
         clauseType,
       });
 
@@ -90,7 +84,7 @@ export function ExecutiveSummary({ summary, clauseComparisons, targetContractNam
     }
 
     return parts;
-  }, [summary]);
+  }, [summary, formatClauseType]);
 
   const handleClauseClick = (clauseType: string) => {
     const clause = clauseMap.get(clauseType);
@@ -112,6 +106,8 @@ export function ExecutiveSummary({ summary, clauseComparisons, targetContractNam
         return <Badge variant="danger">Missing</Badge>;
       case 'added':
         return <Badge variant="warning">Added</Badge>;
+      case 'other':
+        return <Badge variant="warning">Unclassified Change</Badge>;
       default:
         return <Badge>{status}</Badge>;
     }
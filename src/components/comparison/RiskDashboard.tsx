@@ -1,10 +1,21 @@
 'use client';
 
 import React from 'react';
-import { cn } from '@/lib/utils';
-import { AlertTriangle, BarChart3, TrendingUp, FileWarning } from 'lucide-react';
+import { cn, formatPartyRole, COUNTERPARTY_ROLES, type PartyRole } from '@/lib/utils';
+import { AlertTriangle, BarChart3, TrendingUp, FileWarning, Hash } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { useClauseTaxonomy } from '@/lib/clause-taxonomy-context';
+import { formatKeyTermKind } from '@/lib/key-terms';
+
+// A figure or date that differs within a clause pair, as each version words it
+export interface KeyTermChangeInfo {
+  id: string;
+  kind: string;
+  label: string | null;
+  sourceValue: string | null;
+  targetValue: string | null;
+}
 
 interface ClauseComparison {
   id: string;
@@ -14,6 +25,7 @@ interface ClauseComparison {
   deviationPercentage?: number | null;
   diffSummary?: string | null;
   riskFactors?: string[] | null;
+  keyTermChanges?: KeyTermChangeInfo[];
 }
 
 interface RiskDashboardProps {
@@ -22,6 +34,8 @@ interface RiskDashboardProps {
   clauseComparisons: ClauseComparison[];
   sourceContractName: string;
   targetContractName: string;
+  // Our side of the deal; scores then measure risk to this party rather than the size of the change
+  partyRole?: PartyRole | null;
 }
 
 export function RiskDashboard({
@@ -30,7 +44,11 @@ export function RiskDashboard({
   clauseComparisons,
   sourceContractName,
   targetContractName,
+  partyRole,
 }: RiskDashboardProps) {
+  const { formatClauseType } = useClauseTaxonomy();
+  const roleLabel = partyRole ? formatPartyRole(partyRole) : null;
+
   const getChangeLevel = (score: number): { label: string; variant: 'danger' | 'warning' | 'success' } => {
     if (score >= 75) return { label: 'Substantial', variant: 'danger' };
     if (score >= 50) return { label: 'Significant', variant: 'danger' };
@@ -67,19 +85,17 @@ export function RiskDashboard({
     .sort((a, b) => (b.riskScore || 0) - (a.riskScore || 0))
     .slice(0, 5);
 
+  // Every changed figure and date, clause by clause
+  const keyTermRows = clauseComparisons.flatMap(clause =>
+    (clause.keyTermChanges || []).map(change => ({ ...change, clauseType: clause.clauseType }))
+  );
+
   // Collect all change factors
   const allChangeFactors = clauseComparisons
     .flatMap(c => c.riskFactors || [])
     .filter((factor, index, self) => self.indexOf(factor) === index)
     .slice(0, 8);
 
-  const formatClauseType = (type: string) => {
-    return type
-      .split('_')
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-      .join(' ');
-  };
-
   return (
     <div className="space-y-4">
       {/* Overall Significant Changes Score */}
@@ -87,20 +103,27 @@ export function RiskDashboard({
         <CardHeader className="pb-2">
           <CardTitle className="text-lg flex items-center gap-2">
             <BarChart3 className="h-5 w-5" />
-            Change Assessment
+            {roleLabel ? `Risk to the ${roleLabel}` : 'Change Assessment'}
           </CardTitle>
+          {partyRole && (
+            <CardDescription>
+              Scored from the {partyRole}&apos;s side: changes that favour the {COUNTERPARTY_ROLES[partyRole]} raise the score.
+            </CardDescription>
+          )}
         </CardHeader>
         <CardContent>
           <div className="flex items-center justify-between mb-4">
             <div>
-              <div className="text-sm text-muted-foreground">Significant Changes Score</div>
+              <div className="text-sm text-muted-foreground">
+                {roleLabel ? `${roleLabel} Risk Score` : 'Significant Changes Score'}
+              </div>
               <div className={cn('text-4xl font-bold', getChangeColor(overallRiskScore))}>
                 {overallRiskScore}
                 <span className="text-lg text-muted-foreground">/100</span>
               </div>
             </div>
             <Badge variant={changeLevel.variant} className="text-sm px-3 py-1">
-              {changeLevel.label} Changes
+              {changeLevel.label} {roleLabel ? 'Exposure' : 'Changes'}
             </Badge>
           </div>
 
@@ -132,9 +155,62 @@ export function RiskDashboard({
             <span className="text-muted-foreground">→</span>
             <span className="font-medium">{targetContractName}</span>
           </div>
+          {partyRole && (
+            <div className="text-xs text-muted-foreground mt-1">
+              Reviewing as the {partyRole} (other side: {COUNTERPARTY_ROLES[partyRole]})
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {/* Key Terms Changed - exact values from the text, no paraphrase */}
+      {keyTermRows.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Hash className="h-5 w-5" />
+              Key Terms Changed
+            </CardTitle>
+            <CardDescription>
+              Amounts, percentages, periods, dates and counts that differ, exactly as each version states them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs text-muted-foreground">
+                    <th className="py-2 pr-3 font-medium">Clause</th>
+                    <th className="py-2 pr-3 font-medium">Term</th>
+                    <th className="py-2 pr-3 font-medium">{sourceContractName}</th>
+                    <th className="py-2 font-medium">{targetContractName}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {keyTermRows.map(row => (
+                    <tr key={row.id} className="border-b last:border-0 align-top">
+                      <td className="py-2 pr-3 whitespace-nowrap">{formatClauseType(row.clauseType)}</td>
+                      <td className="py-2 pr-3">
+                        <div>{row.label || formatKeyTermKind(row.kind)}</div>
+                        {row.label && (
+                          <div className="text-xs text-muted-foreground">{formatKeyTermKind(row.kind)}</div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 font-mono text-red-700 dark:text-red-300">
+                        {row.sourceValue ?? <span className="text-muted-foreground">—</span>}
+                      </td>
+                      <td className="py-2 font-mono text-green-700 dark:text-green-300">
+                        {row.targetValue ?? <span className="text-muted-foreground">—</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Executive Summary */}
       {summary && (
         <Card>
@@ -197,7 +273,7 @@ export function RiskDashboard({
           <CardHeader className="pb-2">
             <CardTitle className="text-lg flex items-center gap-2">
               <AlertTriangle className="h-5 w-5" />
-              Key Change Factors
+              {roleLabel ? `Key Risks to the ${roleLabel}` : 'Key Change Factors'}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -2,9 +2,24 @@
 
 import React, { useMemo } from 'react';
 import * as Diff from 'diff';
-import { cn } from '@/lib/utils';
+import { cn, isLowConfidenceMatch } from '@/lib/utils';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { useClauseTaxonomy } from '@/lib/clause-taxonomy-context';
+import type { DefinitionChange } from '@/lib/defined-terms';
+import { describeBrokenCrossReference, type BrokenCrossReference } from '@/lib/clause-movement';
+
+// A Word revision imported from a redlined DOCX
+export interface TrackedChangeInfo {
+  id: string;
+  changeType: 'insertion' | 'deletion';
+  author: string | null;
+  changedAt: string | null;
+  content: string;
+  // Character span in the contract text it belongs to
+  startPosition: number;
+  endPosition: number;
+}
 
 interface DiffViewerProps {
   sourceText: string;
@@ -12,6 +27,11 @@ interface DiffViewerProps {
   sourceTitle?: string;
   targetTitle?: string;
   splitView?: boolean;
+  trackedChanges?: TrackedChangeInfo[];
+  // Where each text begins in its contract's text, which tracked changes are positioned in;
+  // null when it isn't a verbatim span of it, and revisions are then matched by their exact text
+  sourceOffset?: number | null;
+  targetOffset?: number | null;
 }
 
 interface DiffPart {
@@ -20,12 +40,55 @@ interface DiffPart {
   removed?: boolean;
 }
 
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// e.g. "Jane Doe, 3/14/2024"
+function trackedChangeAttribution(change: TrackedChangeInfo): string {
+  const date = change.changedAt ? new Date(change.changedAt).toLocaleDateString() : null;
+  return [change.author || 'Unknown author', date].filter(Boolean).join(', ');
+}
+
+function describeTrackedChange(change: TrackedChangeInfo): string {
+  const action = change.changeType === 'insertion' ? 'Inserted' : 'Deleted';
+  return `${action} (${trackedChangeAttribution(change)})`;
+}
+
+// Find the Word revision a highlighted diff part came from, if any. Deletions are positioned in
+// the original's text and insertions in the redline's, so `start` is the part's position in its
+// own side's text and `offset` where that text begins in the contract's
+function findTrackedChange(
+  part: DiffPart,
+  start: number,
+  offset: number | null,
+  trackedChanges: TrackedChangeInfo[]
+): TrackedChangeInfo | undefined {
+  if (!part.added && !part.removed) return undefined;
+  const changeType = part.added ? 'insertion' : 'deletion';
+
+  if (offset !== null) {
+    const partStart = offset + start;
+    const partEnd = partStart + part.value.length;
+    return trackedChanges.find(change =>
+      change.changeType === changeType && change.startPosition < partEnd && change.endPosition > partStart
+    );
+  }
+
+  const value = collapseWhitespace(part.value);
+  if (!value) return undefined;
+  return trackedChanges.find(change =>
+    change.changeType === changeType && collapseWhitespace(change.content) === value
+  );
+}
+
 export function DiffViewer({
   sourceText,
   targetText,
   sourceTitle = 'Template',
   targetTitle = 'Redlined',
   splitView = true,
+  trackedChanges = [],
+  sourceOffset = 0,
+  targetOffset = 0,
 }: DiffViewerProps) {
   const diff = useMemo(() => {
     return Diff.diffWords(sourceText, targetText);
@@ -46,6 +109,22 @@ export function DiffViewer({
     return { additions, deletions, unchanged };
   }, [diff]);
 
+  // The revision behind each diff part, by index, as its tooltip
+  const revisionTitles = useMemo(() => {
+    const titles: (string | undefined)[] = [];
+    let sourcePosition = 0;
+    let targetPosition = 0;
+    for (const part of diff as DiffPart[]) {
+      const change = part.added
+        ? findTrackedChange(part, targetPosition, targetOffset, trackedChanges)
+        : findTrackedChange(part, sourcePosition, sourceOffset, trackedChanges);
+      titles.push(change ? describeTrackedChange(change) : undefined);
+      if (!part.added) sourcePosition += part.value.length;
+      if (!part.removed) targetPosition += part.value.length;
+    }
+    return titles;
+  }, [diff, trackedChanges, sourceOffset, targetOffset]);
+
   if (splitView) {
     return (
       <div className="border rounded-lg overflow-hidden">
@@ -75,6 +154,7 @@ export function DiffViewer({
               return (
                 <span
                   key={index}
+                  title={revisionTitles[index]}
                   className={cn(
                     part.removed && 'bg-red-100 text-red-800 line-through dark:bg-red-950 dark:text-red-300'
                   )}
@@ -92,6 +172,7 @@ export function DiffViewer({
               return (
                 <span
                   key={index}
+                  title={revisionTitles[index]}
                   className={cn(
                     part.added && 'bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-300'
                   )}
@@ -128,6 +209,7 @@ export function DiffViewer({
         {diff.map((part: DiffPart, index: number) => (
           <span
             key={index}
+            title={revisionTitles[index]}
             className={cn(
               part.added && 'bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-300',
               part.removed && 'bg-red-100 text-red-800 line-through dark:bg-red-950 dark:text-red-300'
@@ -149,6 +231,51 @@ interface ClauseDiffViewerProps {
   riskScore?: number;
   riskSummary?: string;
   status: string;
+  trackedChanges?: TrackedChangeInfo[];
+  // Where each clause's text begins in its contract's text; null when it doesn't appear there verbatim
+  sourceOffset?: number | null;
+  targetOffset?: number | null;
+  // Terms the clause uses that were redefined elsewhere in the contract
+  definitionChanges?: DefinitionChange[];
+  // How sure matching was that the two clauses correspond (0-1), and why
+  matchConfidence?: number | null;
+  matchReason?: string | null;
+  // How a split's or merge's clauses relate; the two sides are then their clauses' combined text
+  clauseGroup?: string | null;
+  // How the clause moved or was renumbered, e.g. "Renumbered from 9 to 10"
+  clauseMovement?: string | null;
+  // References in the revised clause to a section by its old or a missing number
+  brokenCrossReferences?: BrokenCrossReference[];
+}
+
+const DEFINITION_STATUS_LABELS: Record<DefinitionChange['status'], string> = {
+  changed: 'Redefined',
+  added: 'Newly defined',
+  removed: 'No longer defined',
+};
+
+// Word diff of a term's two definitions, inline
+function DefinitionDiff({ change }: { change: DefinitionChange }) {
+  const parts = useMemo(
+    () => Diff.diffWords(change.sourceDefinition || '', change.targetDefinition || ''),
+    [change.sourceDefinition, change.targetDefinition]
+  );
+
+  return (
+    <p className="font-mono text-sm whitespace-pre-wrap">
+      {parts.map((part, index) => (
+        <span
+          key={index}
+          className={cn(
+            part.added && 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-200',
+            part.removed && 'bg-red-100 text-red-800 line-through dark:bg-red-900/40 dark:text-red-200'
+          )}
+        >
+          {part.value}
+        </span>
+      ))}
+    </p>
+  );
 }
 
 export function ClauseDiffViewer({
@@ -158,7 +285,17 @@ export function ClauseDiffViewer({
   riskScore,
   riskSummary,
   status,
+  trackedChanges = [],
+  sourceOffset = null,
+  targetOffset = null,
+  definitionChanges = [],
+  matchConfidence,
+  matchReason,
+  clauseGroup,
+  clauseMovement,
+  brokenCrossReferences = [],
 }: ClauseDiffViewerProps) {
+  const { formatClauseType } = useClauseTaxonomy();
   const getRiskColor = (score: number) => {
     if (score >= 75) return 'border-l-red-500 bg-red-50 dark:bg-red-950/20';
     if (score >= 50) return 'border-l-orange-500 bg-orange-50 dark:bg-orange-950/20';
@@ -173,6 +310,7 @@ export function ClauseDiffViewer({
       significant_change: { variant: 'danger', label: 'Significant Changes' },
       missing: { variant: 'danger', label: 'Missing' },
       added: { variant: 'info', label: 'Added' },
+      other: { variant: 'warning', label: 'Unclassified Change' },
     };
     return badges[status] || { variant: 'default', label: status };
   };
@@ -185,8 +323,8 @@ export function ClauseDiffViewer({
       <CardHeader className="pb-3 bg-card border-b">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
-            <CardTitle className="capitalize">
-              {clauseType.replace(/_/g, ' ')}
+            <CardTitle>
+              {formatClauseType(clauseType)}
             </CardTitle>
             <Badge variant={badge.variant}>
               {badge.label}
@@ -208,6 +346,37 @@ export function ClauseDiffViewer({
         </div>
       </CardHeader>
 
+      {clauseGroup && (
+        <div className="px-6 py-2 bg-blue-50 dark:bg-blue-950/30 border-b text-sm text-blue-800 dark:text-blue-200">
+          {clauseGroup}. Compared against the combined text of the clauses.
+        </div>
+      )}
+
+      {clauseMovement && (
+        <div className="px-6 py-2 bg-blue-50 dark:bg-blue-950/30 border-b text-sm text-blue-800 dark:text-blue-200">
+          {clauseMovement}. Moving or renumbering a clause doesn&apos;t count as a change to it.
+        </div>
+      )}
+
+      {brokenCrossReferences.length > 0 && (
+        <div className="px-6 py-2 bg-amber-50 dark:bg-amber-950/30 border-b text-sm text-amber-800 dark:text-amber-200">
+          Check the cross-references: {brokenCrossReferences.map(describeBrokenCrossReference).join(', ')}
+        </div>
+      )}
+
+      {/* How the two clauses were paired; a doubtful pairing makes the score doubtful too */}
+      {matchConfidence !== null && matchConfidence !== undefined && (
+        isLowConfidenceMatch(matchConfidence) ? (
+          <div className="px-6 py-2 bg-amber-50 dark:bg-amber-950/30 border-b text-sm text-amber-800 dark:text-amber-200">
+            Low-confidence pairing ({Math.round(matchConfidence * 100)}%){matchReason ? `: ${matchReason}` : ''}. Check that these clauses correspond before relying on the score.
+          </div>
+        ) : (
+          <div className="px-6 py-2 border-b text-xs text-muted-foreground">
+            Matched with {Math.round(matchConfidence * 100)}% confidence{matchReason ? `: ${matchReason}` : ''}
+          </div>
+        )
+      )}
+
       {/* Risk Summary */}
       {riskSummary && (
         <div className="px-6 py-3 bg-amber-50 dark:bg-amber-950/30 border-b text-sm text-amber-800 dark:text-amber-200">
@@ -245,8 +414,54 @@ export function ClauseDiffViewer({
             sourceTitle="Template"
             targetTitle="Redlined"
             splitView={true}
+            trackedChanges={trackedChanges}
+            sourceOffset={sourceOffset}
+            targetOffset={targetOffset}
           />
         )}
+
+        {/* Definitions elsewhere in the contract that change what this clause means */}
+        {definitionChanges.length > 0 && (
+          <div className="px-4 py-3 border-t">
+            <p className="text-sm font-medium mb-2">Redefined terms ({definitionChanges.length})</p>
+            <ul className="space-y-3">
+              {definitionChanges.map(change => (
+                <li key={change.term} className="space-y-1">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium">&ldquo;{change.term}&rdquo;</span>
+                    <Badge variant="warning">{DEFINITION_STATUS_LABELS[change.status]}</Badge>
+                  </div>
+                  <DefinitionDiff change={change} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Word revisions that fall within this clause */}
+        {trackedChanges.length > 0 && (
+          <div className="px-4 py-3 border-t">
+            <p className="text-sm font-medium mb-2">Tracked changes ({trackedChanges.length})</p>
+            <ul className="space-y-1.5">
+              {trackedChanges.map(change => (
+                <li key={change.id} className="flex items-start gap-2 text-sm">
+                  <Badge variant={change.changeType === 'insertion' ? 'success' : 'danger'} className="shrink-0">
+                    {change.changeType === 'insertion' ? 'Inserted' : 'Deleted'}
+                  </Badge>
+                  <span className="text-muted-foreground shrink-0">
+                    {trackedChangeAttribution(change)}
+                  </span>
+                  <span className={cn(
+                    'font-mono truncate',
+                    change.changeType === 'deletion' && 'line-through'
+                  )}>
+                    {collapseWhitespace(change.content)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -7,26 +7,35 @@ import { Card, CardContent } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
 
 interface FileUploadProps {
-  onFileSelect: (file: File, text: string) => void;
+  // `contractId` is the contract the upload was saved as; absent when the file is handed back untouched
+  onFileSelect: (file: File, text: string, contractId?: string) => void;
   label: string;
   description?: string;
   accept?: string;
   isLoading?: boolean;
   selectedFile?: { name: string; text: string } | null;
   onClear?: () => void;
+  // When false the file is handed back untouched (text is empty) for the caller to upload itself
+  extractText?: boolean;
+  // Save the uploaded contract as a template
+  isTemplate?: boolean;
 }
 
 export function FileUpload({
   onFileSelect,
   label,
   description,
-  accept = '.pdf,.doc,.docx,.txt',
+  accept = '.pdf,.docx,.txt',
   isLoading = false,
   selectedFile,
   onClear,
+  extractText = true,
+  isTemplate = false,
 }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const isBusy = isLoading || isExtracting;
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -40,20 +49,50 @@ export function FileUpload({
 
   const processFile = useCallback(async (file: File) => {
     setError(null);
+
+    if (!extractText) {
+      const extensions = accept.split(',').map(ext => ext.trim().toLowerCase());
+      if (extensions.some(ext => file.name.toLowerCase().endsWith(ext))) {
+        onFileSelect(file, '');
+      } else {
+        setError(`Unsupported file type. Please use ${extensions.join(', ')} files.`);
+      }
+      return;
+    }
     
-    // For MVP, we'll read text files directly
-    // In production, this would use OCR for PDFs
-    if (file.type === 'text/plain' || file.name.endsWith('.txt')) {
-      const text = await file.text();
-      onFileSelect(file, text);
-    } else if (file.type === 'application/pdf' || file.name.endsWith('.pdf')) {
-      // For demo purposes, we'll show a message about PDF processing
-      // In production, this would call the OCR API
-      setError('PDF processing requires OCR. For the demo, please use a .txt file or paste contract text directly.');
+    if (
+      file.type === 'text/plain' || file.name.endsWith('.txt') ||
+      file.type === 'application/pdf' || file.name.endsWith('.pdf') ||
+      file.name.toLowerCase().endsWith('.docx')
+    ) {
+      // The file is saved as a contract; PDFs are OCR'd and DOCX files parsed on the server,
+      // which can take a little while
+      setIsExtracting(true);
+      try {
+        const formData = new FormData();
+        formData.append('file', file);
+        formData.append('isTemplate', String(isTemplate));
+        const response = await fetch('/api/contracts/upload', {
+          method: 'POST',
+          body: formData,
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to extract text from file');
+        }
+
+        onFileSelect(file, data.text, data.contract.id);
+      } catch (err) {
+        console.error('File extraction error:', err);
+        setError(err instanceof Error ? err.message : 'Failed to extract text from file');
+      } finally {
+        setIsExtracting(false);
+      }
     } else {
-      setError('Unsupported file type. Please use .txt, .pdf, .doc, or .docx files.');
+      setError('Unsupported file type. Please use .txt, .pdf, or .docx files.');
     }
-  }, [onFileSelect]);
+  }, [onFileSelect, extractText, accept, isTemplate]);
 
   const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
@@ -82,7 +121,7 @@ export function FileUpload({
               <div>
                 <p className="font-medium text-green-900 dark:text-green-100">{selectedFile.name}</p>
                 <p className="text-sm text-green-700 dark:text-green-300">
-                  {selectedFile.text.length.toLocaleString()} characters
+                  {extractText ? `${selectedFile.text.length.toLocaleString()} characters` : 'Ready to import'}
                 </p>
               </div>
             </div>
@@ -116,7 +155,7 @@ export function FileUpload({
           isDragging
             ? 'border-primary bg-primary/5'
             : 'border-border hover:border-muted-foreground/50',
-          isLoading && 'opacity-50 pointer-events-none'
+          isBusy && 'opacity-50 pointer-events-none'
         )}
       >
         <input
@@ -124,18 +163,18 @@ export function FileUpload({
           accept={accept}
           onChange={handleFileInput}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-          disabled={isLoading}
+          disabled={isBusy}
         />
         
         <div className="flex flex-col items-center gap-2">
-          {isLoading ? (
+          {isBusy ? (
             <Loader2 className="h-10 w-10 text-muted-foreground animate-spin" />
           ) : (
             <Upload className="h-10 w-10 text-muted-foreground" />
           )}
           <div>
             <p className="text-sm font-medium">
-              {isLoading ? 'Processing...' : 'Drop your contract here'}
+              {isExtracting ? 'Extracting text...' : isLoading ? 'Processing...' : 'Drop your contract here'}
             </p>
             <p className="text-xs text-muted-foreground mt-1">
               {description || 'or click to browse'}
@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // The comparison worker needs Node APIs and a long-lived process
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startWorker } = await import('./lib/worker');
+    startWorker();
+  }
+}
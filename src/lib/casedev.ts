@@ -3,6 +3,10 @@
  * Handles interactions with Vaults, OCR, and LLM services
  */
 
+import { COUNTERPARTY_ROLES, formatPartyRole, formatPlaybookPosition, type PartyRole, type PlaybookPosition } from './utils';
+import { withLlmCache, type LlmCacheOperation } from './llm-cache';
+import type { DefinitionChange } from './defined-terms';
+
 const CASEDEV_API_URL = process.env.CASEDEV_API_URL || 'https://api.case.dev';
 const CASEDEV_API_KEY = process.env.CASEDEV_API_KEY;
 
@@ -94,6 +98,49 @@ export interface IngestResponse {
   message: string;
 }
 
+// Upload the file bytes to the presigned URL returned by getUploadUrl
+export async function uploadToPresignedUrl(
+  upload: UploadUrlResponse,
+  data: ArrayBuffer | Uint8Array,
+  contentType: string
+): Promise<ApiResponse<{ objectId: string }>> {
+  try {
+    const response = await fetch(upload.uploadUrl, {
+      method: upload.instructions?.method || 'PUT',
+      headers: {
+        'Content-Type': contentType,
+        ...upload.instructions?.headers,
+      },
+      body: new Blob([data as BlobPart], { type: contentType }),
+    });
+
+    if (!response.ok) {
+      return { error: `Upload failed: ${response.status}` };
+    }
+
+    return { data: { objectId: upload.objectId } };
+  } catch (error) {
+    return { error: `Upload failed: ${error}` };
+  }
+}
+
+export interface DownloadUrlResponse {
+  objectId: string;
+  url: string;
+  expiresIn: number;
+}
+
+export async function getDownloadUrl(
+  vaultId: string,
+  objectId: string,
+  expiresIn = 3600
+): Promise<ApiResponse<DownloadUrlResponse>> {
+  return apiRequest<DownloadUrlResponse>(`/vault/${vaultId}/objects/${objectId}/presigned-url`, {
+    method: 'POST',
+    body: JSON.stringify({ operation: 'GET', expiresIn }),
+  });
+}
+
 export async function ingestDocument(
   vaultId: string,
   objectId: string
@@ -248,10 +295,12 @@ export async function chatCompletion(
     model?: string;
     max_tokens?: number;
     temperature?: number;
+    signal?: AbortSignal; // aborts the request, e.g. when the comparison is cancelled
   } = {}
 ): Promise<ApiResponse<ChatCompletionResponse>> {
   return apiRequest<ChatCompletionResponse>('/llm/v1/chat/completions', {
     method: 'POST',
+    signal: options.signal,
     body: JSON.stringify({
       messages,
       model: options.model || 'anthropic/claude-sonnet-4.5',
@@ -261,6 +310,16 @@ export async function chatCompletion(
   });
 }
 
+/**
+ * Versions of the cached operations' prompts. The prompt text is hashed into the cache key
+ * as well; bump a version when the way its response is parsed changes.
+ */
+const PROMPT_VERSIONS: Record<LlmCacheOperation, number> = {
+  extract_clauses: 1,
+  match_clauses: 2,
+  analyze_clause_risk: 1,
+};
+
 // ============ CLAUSE MATCHING ============
 
 export interface ClauseMatch {
@@ -268,6 +327,10 @@ export interface ClauseMatch {
   targetClauseId: string | null;
   matchConfidence: number;
   matchReason: string;
+  // A split: further target clauses the source clause was divided into
+  splitTargetClauseIds?: string[];
+  // A merge: further source clauses combined with this one into the target clause
+  mergedSourceClauseIds?: string[];
 }
 
 export interface ClauseMatchingResult {
@@ -283,9 +346,16 @@ interface ClauseForMatching {
   content: string;
 }
 
+// Asked for 0-1, the model sometimes answers in percent or leaves the confidence out
+function normalizeMatchConfidence(value: unknown): number {
+  const confidence = typeof value === 'number' && Number.isFinite(value) ? value : 0;
+  return Math.min(1, Math.max(0, confidence > 1 ? confidence / 100 : confidence));
+}
+
 export async function matchClausesSemantically(
   sourceClauses: ClauseForMatching[],
-  targetClauses: ClauseForMatching[]
+  targetClauses: ClauseForMatching[],
+  signal?: AbortSignal
 ): Promise<ApiResponse<ClauseMatchingResult>> {
   const systemPrompt = `You are a legal document analyst specializing in contract clause matching. Match clauses from SOURCE to TARGET documents.
 
@@ -302,6 +372,11 @@ KEY RULES:
 - Only leave unmatched if there's truly no corresponding provision
 - Prefer matching over leaving unmatched
 
+SPLITS AND MERGES:
+- If a source clause was divided into several target clauses (e.g. one indemnity section became 8.1 and 8.2), match it to the first and list the others in "splitTargetClauseIds"
+- If several source clauses were combined into one target clause (e.g. "Term" and "Termination" became one section), match the first to it and list the others in "mergedSourceClauseIds"
+- A clause listed in a split or merge must not appear in any other match or in the unmatched lists
+
 COMMON MATCHING PAIRS (match these even if labels differ slightly):
 - indemnification ↔ indemnity, hold harmless
 - limitation_of_liability ↔ liability cap, damages limitation  
@@ -314,10 +389,17 @@ Return ONLY valid JSON:
 {
   "matches": [
     {
-      "sourceClauseId": "source-id-1",
-      "targetClauseId": "target-id-1",
+      "sourceClauseId": "S1",
+      "targetClauseId": "T1",
       "matchConfidence": 0.95,
       "matchReason": "Both clauses address indemnification"
+    },
+    {
+      "sourceClauseId": "S2",
+      "targetClauseId": "T2",
+      "matchConfidence": 0.9,
+      "matchReason": "The limitation of liability section was split in two",
+      "splitTargetClauseIds": ["T3"]
     }
   ],
   "unmatchedSource": [],
@@ -328,8 +410,10 @@ Return ONLY valid JSON:
   // Truncation can cause critical context loss that leads to incorrect matches
   const CONTENT_LIMIT = 2000;
   
-  const sourceClauseSummaries = sourceClauses.map(c => ({
-    id: c.id,
+  // Clauses are sent with positional ids so the prompt, and the cached result, don't depend on
+  // the database ids of a particular extraction
+  const sourceClauseSummaries = sourceClauses.map((c, i) => ({
+    id: `S${i + 1}`,
     type: c.clauseType,
     title: c.title,
     content: c.content.length > CONTENT_LIMIT 
@@ -337,8 +421,8 @@ Return ONLY valid JSON:
       : c.content
   }));
 
-  const targetClauseSummaries = targetClauses.map(c => ({
-    id: c.id,
+  const targetClauseSummaries = targetClauses.map((c, i) => ({
+    id: `T${i + 1}`,
     type: c.clauseType,
     title: c.title,
     content: c.content.length > CONTENT_LIMIT 
@@ -360,30 +444,73 @@ ${JSON.stringify(targetClauseSummaries, null, 2)}
 
 For each source clause, find the target clause that addresses the SAME legal topic or provision. Aim to match ALL source clauses if possible. Only list a clause as unmatched if there is genuinely NO corresponding provision.`;
 
-  const response = await chatCompletion([
-    { role: 'system', content: systemPrompt },
-    { role: 'user', content: userPrompt },
-  ], {
-    model: 'anthropic/claude-sonnet-4.5',
-    max_tokens: 4000,
-    temperature: 0, // Must be 0 for consistent matching results
+  const model = 'anthropic/claude-sonnet-4.5';
+
+  const response = await withLlmCache<ClauseMatchingResult>({
+    operation: 'match_clauses',
+    promptVersion: PROMPT_VERSIONS.match_clauses,
+    model,
+    inputs: [systemPrompt, userPrompt],
+  }, async () => {
+    const response = await chatCompletion([
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ], {
+      model,
+      max_tokens: 4000,
+      temperature: 0, // Must be 0 for consistent matching results
+      signal,
+    });
+
+    if (response.error) {
+      return { error: response.error };
+    }
+
+    try {
+      const content = response.data?.choices[0]?.message?.content || '{}';
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        return { error: 'Failed to parse clause matching response' };
+      }
+      const result = JSON.parse(jsonMatch[0]) as ClauseMatchingResult;
+      return { data: result };
+    } catch (error) {
+      return { error: `Failed to parse clause matching: ${error}` };
+    }
   });
 
-  if (response.error) {
+  if (!response.data) {
     return { error: response.error };
   }
 
-  try {
-    const content = response.data?.choices[0]?.message?.content || '{}';
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      return { error: 'Failed to parse clause matching response' };
-    }
-    const result = JSON.parse(jsonMatch[0]) as ClauseMatchingResult;
-    return { data: result };
-  } catch (error) {
-    return { error: `Failed to parse clause matching: ${error}` };
+  // Map the positional ids back to clause ids, dropping any the model made up
+  const sourceIds = new Map(sourceClauses.map((c, i) => [`S${i + 1}`, c.id]));
+  const targetIds = new Map(targetClauses.map((c, i) => [`T${i + 1}`, c.id]));
+  const matches: ClauseMatch[] = [];
+  for (const match of response.data.matches || []) {
+    const sourceClauseId = sourceIds.get(match.sourceClauseId);
+    if (!sourceClauseId) continue;
+    const targetClauseId = match.targetClauseId ? targetIds.get(match.targetClauseId) ?? null : null;
+    matches.push({
+      sourceClauseId,
+      targetClauseId,
+      matchConfidence: normalizeMatchConfidence(match.matchConfidence),
+      matchReason: match.matchReason || '',
+      // Splits and merges need a clause on the other side to split from or merge into
+      ...(targetClauseId && {
+        splitTargetClauseIds: (match.splitTargetClauseIds || []).flatMap(id => targetIds.get(id) ?? []),
+        mergedSourceClauseIds: (match.mergedSourceClauseIds || []).flatMap(id => sourceIds.get(id) ?? []),
+      }),
+    });
   }
+
+  return {
+    data: {
+      matches,
+      unmatchedSource: (response.data.unmatchedSource || []).flatMap(id => sourceIds.get(id) ?? []),
+      unmatchedTarget: (response.data.unmatchedTarget || []).flatMap(id => targetIds.get(id) ?? []),
+    },
+  };
 }
 
 // ============ CLAUSE EXTRACTION ============
@@ -396,29 +523,35 @@ export interface ExtractedClause {
   confidence?: number;
 }
 
-const CLAUSE_TYPES = [
-  'indemnification',
-  'termination',
-  'ip_ownership',
-  'confidentiality',
-  'limitation_of_liability',
-  'governing_law',
-  'dispute_resolution',
-  'assignment',
-  'force_majeure',
-  'warranties',
-  'payment_terms',
-  'term_and_renewal',
-  'non_compete',
-  'non_solicitation',
-  'data_protection',
-];
+// A clause type from the org's taxonomy, as the extraction prompt describes it
+export interface ClauseTypeForExtraction {
+  key: string;
+  displayName: string;
+  description: string | null;
+  synonyms: string[];
+  extractionHints: string | null;
+}
+
+function describeClauseType(clauseType: ClauseTypeForExtraction): string {
+  const details = [
+    clauseType.displayName,
+    clauseType.description,
+    clauseType.synonyms.length > 0 ? `Also titled: ${clauseType.synonyms.join(', ')}` : null,
+    clauseType.extractionHints,
+  ].filter(Boolean);
+  return `- ${clauseType.key}: ${details.join('. ')}`;
+}
 
 export async function extractClauses(
-  contractText: string
+  contractText: string,
+  clauseTypes: ClauseTypeForExtraction[],
+  signal?: AbortSignal
 ): Promise<ApiResponse<ExtractedClause[]>> {
   const systemPrompt = `You are a legal document analyst specializing in contract analysis. Extract all UNIQUE clauses from the provided contract text.
 
+CLAUSE TYPES (key: description):
+${clauseTypes.map(describeClauseType).join('\n')}
+
 STEP 1 - IDENTIFY DOCUMENT STRUCTURE:
 First, scan the document for its organizational structure:
 - Look for numbered sections (1., 2., 3. or 1.1, 1.2, 2.1, etc.)
@@ -435,7 +568,7 @@ Use the document's OWN numbering/structure to define clause boundaries:
 - Match clauses between documents by their section numbers when possible
 
 For each clause, identify:
-1. clause_type: One of [${CLAUSE_TYPES.join(', ')}]
+1. clause_type: One of the CLAUSE TYPES keys above
 2. title: The clause heading/title EXACTLY as it appears in the document (preserve section numbers like "8.1", "Article IV", "Section 3", etc.)
 3. content: The COMPLETE clause text including ALL subsections and related provisions
 4. page_number: If identifiable from context
@@ -474,35 +607,46 @@ CONSISTENCY REQUIREMENTS (important for document comparison):
 If a clause type doesn't match the predefined list, use the closest match.
 Maximum of ONE clause per clause_type unless they are genuinely distinct provisions addressing different subjects.`;
 
-  const response = await chatCompletion([
-    { role: 'system', content: systemPrompt },
-    { role: 'user', content: `Extract all clauses from this contract. 
+  const userPrompt = `Extract all clauses from this contract. 
 
 IMPORTANT: First identify the document's numbering structure (e.g., "1.", "1.1", "Article I", "Section A"), then use that structure to define clause boundaries. Be thorough and extract the COMPLETE text of each clause including all subsections:
 
-${contractText}` },
-  ], {
-    model: 'anthropic/claude-sonnet-4.5',
-    max_tokens: 16000, // Increased for complete extraction
-    temperature: 0, // Must be 0 for consistent extraction
-  });
+${contractText}`;
+  const model = 'anthropic/claude-sonnet-4.5';
+
+  return withLlmCache<ExtractedClause[]>({
+    operation: 'extract_clauses',
+    promptVersion: PROMPT_VERSIONS.extract_clauses,
+    model,
+    inputs: [systemPrompt, userPrompt],
+  }, async () => {
+    const response = await chatCompletion([
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ], {
+      model,
+      max_tokens: 16000, // Increased for complete extraction
+      temperature: 0, // Must be 0 for consistent extraction
+      signal,
+    });
 
-  if (response.error) {
-    return { error: response.error };
-  }
+    if (response.error) {
+      return { error: response.error };
+    }
 
-  try {
-    const content = response.data?.choices[0]?.message?.content || '[]';
-    // Extract JSON from the response (handle potential markdown code blocks)
-    const jsonMatch = content.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      return { error: 'Failed to parse clause extraction response' };
+    try {
+      const content = response.data?.choices[0]?.message?.content || '[]';
+      // Extract JSON from the response (handle potential markdown code blocks)
+      const jsonMatch = content.match(/\[[\s\S]*\]/);
+      if (!jsonMatch) {
+        return { error: 'Failed to parse clause extraction response' };
+      }
+      const clauses = JSON.parse(jsonMatch[0]) as ExtractedClause[];
+      return { data: clauses };
+    } catch (error) {
+      return { error: `Failed to parse clauses: ${error}` };
     }
-    const clauses = JSON.parse(jsonMatch[0]) as ExtractedClause[];
-    return { data: clauses };
-  } catch (error) {
-    return { error: `Failed to parse clauses: ${error}` };
-  }
+  });
 }
 
 // ============ CHANGE ANALYSIS ============
@@ -520,11 +664,67 @@ export interface RiskAnalysis {
   };
 }
 
+// An org playbook position the redline is scored against
+export interface PlaybookRuleForAnalysis {
+  position: PlaybookPosition;
+  rule: string;
+}
+
+const PLAYBOOK_SCORING = `
+
+PLAYBOOK SCORING - the organization's playbook for this clause type is provided and takes precedence over the generic criteria above:
+- Judge the REDLINED VERSION against the playbook positions, not only against the original
+- Breaches a "Red line" position: +40-60 points per breach, and the level must be at least "high"
+- Departs from the "Preferred" position but stays within a "Fallback" position: +5-15 points
+- Meets the "Preferred" position: no points for that topic, even if the wording changed
+- Changes the playbook does not address: score them with the generic criteria
+- Every risk factor that comes from a playbook position MUST end by citing it verbatim in square brackets with its label, e.g. "Liability cap reduced to 6 months of fees (+45) [Red line: Liability cap of at least 12 months of fees]"
+- Never cite a position that is not in the playbook`;
+
+const DEFINITION_SCORING = `
+
+DEFINITION CHANGES - defined terms this clause uses were redefined elsewhere in the contract; their original and redlined definitions are provided:
+- Read the clause with each definition substituted in, for both versions
+- Score how each changed definition changes what the clause obliges or protects, under "Definition changes" above, even if the clause text itself is unchanged
+- A definition change that doesn't alter this clause's effect adds no points
+- Every risk factor that comes from a changed definition MUST name the term, e.g. "Broader 'Affiliate' definition extends the confidentiality obligation to parent companies (+15)"`;
+
+// Changed definitions as the risk prompt lists them
+function formatDefinitionChanges(changes: DefinitionChange[]): string {
+  return changes.map(change => `- "${change.term}"
+  ORIGINAL DEFINITION: ${change.sourceDefinition ?? '(not defined)'}
+  REDLINED DEFINITION: ${change.targetDefinition ?? '(not defined)'}`).join('\n');
+}
+
+// Makes "risk" mean risk to our side of the deal rather than the size of the change
+function partyPerspective(partyRole: PartyRole | null | undefined): string {
+  if (!partyRole) return '';
+  const counterparty = COUNTERPARTY_ROLES[partyRole];
+
+  return `
+
+PARTY PERSPECTIVE - you are reviewing for the ${partyRole.toUpperCase()} (the other side is the ${counterparty}):
+- "Risk" means risk to the ${partyRole}: judge every change by its effect on the ${partyRole}'s position
+- Changes that favour the ${partyRole} (fewer ${partyRole} obligations, more protection from the ${counterparty}) add few or no points, however large
+- Changes that move obligations, liability or cost onto the ${partyRole}, or weaken its protections, add points as above
+- Word risk factors and summaries from the ${partyRole}'s side and name both parties by role, e.g. "${formatPartyRole(partyRole)} now indemnifies the ${counterparty} for third-party claims (+20)"`;
+}
+
 export async function analyzeClauseRisk(
   templateClause: string,
   redlinedClause: string,
-  clauseType: string
+  clauseType: string,
+  options: {
+    playbookRules?: PlaybookRuleForAnalysis[];
+    partyRole?: PartyRole | null;
+    // Defined terms the clause uses whose definitions changed
+    definitionChanges?: DefinitionChange[];
+    signal?: AbortSignal;
+  } = {}
 ): Promise<ApiResponse<RiskAnalysis>> {
+  const playbookRules = options.playbookRules || [];
+  const definitionChanges = options.definitionChanges || [];
+
   const systemPrompt = `You are a legal analyst specializing in contract review. Compare the template clause (original) with the redlined version and assess the significance of changes using DETERMINISTIC SCORING CRITERIA.
 
 SCORING METHODOLOGY (use these exact criteria for consistency):
@@ -558,7 +758,7 @@ ANALYSIS REQUIREMENTS:
 1. Identify ALL specific changes (additions, deletions, modifications)
 2. Calculate score by ADDING points for each change found
 3. Be CONSISTENT - same types of changes should receive same point values
-4. Focus on LEGAL SUBSTANCE, not formatting or minor wording
+4. Focus on LEGAL SUBSTANCE, not formatting or minor wording${partyPerspective(options.partyRole)}${playbookRules.length > 0 ? PLAYBOOK_SCORING : ''}${definitionChanges.length > 0 ? DEFINITION_SCORING : ''}
 
 TONE GUIDELINES:
 - Use neutral, professional language
@@ -588,33 +788,50 @@ ${templateClause}
 
 REDLINED VERSION:
 ${redlinedClause}
-
+${playbookRules.length > 0 ? `
+ORGANIZATION PLAYBOOK:
+${playbookRules.map(r => `- ${formatPlaybookPosition(r.position)}: ${r.rule}`).join('\n')}
+` : ''}${definitionChanges.length > 0 ? `
+CHANGED DEFINITIONS USED IN THIS CLAUSE:
+${formatDefinitionChanges(definitionChanges)}
+` : ''}
 Analyze the significance of changes between these versions.`;
 
-  const response = await chatCompletion([
-    { role: 'system', content: systemPrompt },
-    { role: 'user', content: userPrompt },
-  ], {
-    model: 'anthropic/claude-sonnet-4.5',
-    max_tokens: 2000,
-    temperature: 0,
-  });
+  const model = 'anthropic/claude-sonnet-4.5';
+
+  // The playbook, party role and changed definitions are in the prompts, so they are part of the key too
+  return withLlmCache<RiskAnalysis>({
+    operation: 'analyze_clause_risk',
+    promptVersion: PROMPT_VERSIONS.analyze_clause_risk,
+    model,
+    inputs: [systemPrompt, userPrompt],
+  }, async () => {
+    const response = await chatCompletion([
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ], {
+      model,
+      max_tokens: 2000,
+      temperature: 0,
+      signal: options.signal,
+    });
 
-  if (response.error) {
-    return { error: response.error };
-  }
+    if (response.error) {
+      return { error: response.error };
+    }
 
-  try {
-    const content = response.data?.choices[0]?.message?.content || '{}';
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      return { error: 'Failed to parse risk analysis response' };
+    try {
+      const content = response.data?.choices[0]?.message?.content || '{}';
+      const jsonMatch = content.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        return { error: 'Failed to parse risk analysis response' };
+      }
+      const analysis = JSON.parse(jsonMatch[0]) as RiskAnalysis;
+      return { data: analysis };
+    } catch (error) {
+      return { error: `Failed to parse risk analysis: ${error}` };
     }
-    const analysis = JSON.parse(jsonMatch[0]) as RiskAnalysis;
-    return { data: analysis };
-  } catch (error) {
-    return { error: `Failed to parse risk analysis: ${error}` };
-  }
+  });
 }
 
 // ============ SEMANTIC TAGGING ============
@@ -630,7 +847,8 @@ export async function generateSemanticTags(
   targetContractName: string,
   summary: string | null,
   clauseTypes: string[],
-  overallRiskScore: number | null
+  overallRiskScore: number | null,
+  signal?: AbortSignal
 ): Promise<ApiResponse<SemanticTag[]>> {
   const systemPrompt = `You are a legal document analyst. Generate semantic tags for a contract comparison to help with organization and search.
 
@@ -671,6 +889,7 @@ Generate 3-6 relevant tags to categorize this comparison.`;
     model: 'anthropic/claude-sonnet-4.5',
     max_tokens: 500,
     temperature: 0,
+    signal,
   });
 
   if (response.error) {
@@ -700,7 +919,9 @@ export async function generateComparisonSummary(
     status: string;
     riskScore?: number;
     summary?: string;
-  }>
+  }>,
+  partyRole?: PartyRole | null,
+  signal?: AbortSignal
 ): Promise<ApiResponse<string>> {
   const systemPrompt = `You are a legal analyst. Generate a brief executive summary of the contract comparison.
 
@@ -714,7 +935,8 @@ REQUIREMENTS:
 - Use neutral, professional language
 - Be direct and factual
 - When mentioning a specific clause, wrap the clause type in double brackets like [[clause_type]] so it can be linked
-- Use the exact clause_type values provided (e.g., [[indemnification]], [[confidentiality]], [[limitation_of_liability]])
+- Use the exact clause_type values provided (e.g., [[indemnification]], [[confidentiality]], [[limitation_of_liability]])${partyRole ? `
+- Write from the ${partyRole}'s side: say whether each change favours or burdens the ${partyRole}, naming both parties by role (${partyRole} and ${COUNTERPARTY_ROLES[partyRole]})` : ''}
 
 Example format:
 "The redlined contract contains 4 material changes across 8 clauses analyzed. The [[indemnification]] clause expands liability scope by 35%. [[confidentiality]] terms extend from 2 years to 5 years. The [[limitation_of_liability]] cap was removed entirely. [[payment_terms]] changed from net-30 to net-60."`;
@@ -737,6 +959,7 @@ Generate a brief executive summary with 3-5 key findings. No recommendations. Re
     model: 'anthropic/claude-sonnet-4.5',
     max_tokens: 300,
     temperature: 0, // Must be 0 for consistent, reproducible results
+    signal,
   });
 
   if (response.error) {
@@ -0,0 +1,125 @@
+/**
+ * Clause Alignment
+ * Finds where an extracted clause sits in its contract's text. The LLM quotes clauses
+ * verbatim but not always character for character: whitespace, quote marks and dashes can
+ * differ, and stray page headers can be dropped, so the search falls back from an exact
+ * match to a folded one and then to anchoring the clause's first and last words.
+ */
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+const ANCHOR_LENGTH = 48;
+const MAX_ANCHOR_ATTEMPTS = 5;
+// How far the aligned span's length may stray from the clause's before the anchors are rejected
+const MIN_LENGTH_RATIO = 0.7;
+const MAX_LENGTH_RATIO = 1.5;
+
+interface FoldedText {
+  text: string;
+  // Offset in the original text of each folded character
+  offsets: number[];
+}
+
+// Lowercase, unify quote and dash variants and collapse whitespace, remembering where each character came from
+function foldText(text: string): FoldedText {
+  let folded = '';
+  const offsets: number[] = [];
+  let pendingSpace = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      pendingSpace = folded.length > 0;
+      continue;
+    }
+    if (pendingSpace) {
+      folded += ' ';
+      offsets.push(i - 1);
+      pendingSpace = false;
+    }
+
+    // A few characters lowercase to two; keep those as they are so offsets stay one to one
+    const lower = char.toLowerCase();
+    folded += (lower.length === 1 ? lower : char)
+      .replace(/[\u2018\u2019\u201A\u2032]/, "'")
+      .replace(/[\u201C\u201D\u201E\u2033]/, '"')
+      .replace(/[\u2010-\u2015\u2212]/, '-');
+    offsets.push(i);
+  }
+
+  return { text: folded, offsets };
+}
+
+// Map a span of folded text back to the original
+function toOriginalSpan(folded: FoldedText, start: number, end: number): TextSpan {
+  return { start: folded.offsets[start], end: folded.offsets[end - 1] + 1 };
+}
+
+// Every position `anchor` occurs at in `text`
+function findAll(text: string, anchor: string): number[] {
+  const positions: number[] = [];
+  for (let i = text.indexOf(anchor); i !== -1; i = text.indexOf(anchor, i + 1)) {
+    positions.push(i);
+  }
+  return positions;
+}
+
+// Pin the clause by an anchor near its start and one near its end, trying later/earlier anchors when one was altered
+function alignByAnchors(document: FoldedText, clause: string): TextSpan | null {
+  if (clause.length < ANCHOR_LENGTH * 2) return null;
+
+  for (let attempt = 0; attempt < MAX_ANCHOR_ATTEMPTS; attempt++) {
+    const headOffset = attempt * ANCHOR_LENGTH;
+    const tailOffset = clause.length - (attempt + 1) * ANCHOR_LENGTH;
+    if (tailOffset <= headOffset + ANCHOR_LENGTH) break;
+
+    const head = clause.slice(headOffset, headOffset + ANCHOR_LENGTH);
+    const tail = clause.slice(tailOffset, tailOffset + ANCHOR_LENGTH);
+    const tailAfterHead = tailOffset - headOffset;
+
+    for (const headAt of findAll(document.text, head)) {
+      const start = Math.max(0, headAt - headOffset);
+      const minTailAt = headAt + tailAfterHead * MIN_LENGTH_RATIO;
+      const maxTailAt = headAt + tailAfterHead * MAX_LENGTH_RATIO;
+
+      const tailAt = document.text.indexOf(tail, Math.floor(minTailAt));
+      if (tailAt !== -1 && tailAt <= maxTailAt) {
+        const end = Math.min(document.text.length, tailAt + clause.length - tailOffset);
+        return toOriginalSpan(document, start, end);
+      }
+    }
+  }
+
+  return null;
+}
+
+// Locate a clause in the document text, or null when it can't be found with confidence
+function locateClause(documentText: string, getFolded: () => FoldedText, clauseContent: string): TextSpan | null {
+  const content = clauseContent.trim();
+  if (!content) return null;
+
+  const exactAt = documentText.indexOf(content);
+  if (exactAt !== -1) {
+    return { start: exactAt, end: exactAt + content.length };
+  }
+
+  const folded = getFolded();
+  const clause = foldText(content).text;
+  const foldedAt = folded.text.indexOf(clause);
+  if (foldedAt !== -1) {
+    return toOriginalSpan(folded, foldedAt, foldedAt + clause.length);
+  }
+
+  return alignByAnchors(folded, clause);
+}
+
+// Locate each clause in the document, in the order given; null for any that can't be found
+export function alignClauses(documentText: string, clauseContents: string[]): (TextSpan | null)[] {
+  let folded: FoldedText | null = null;
+  const getFolded = () => (folded ??= foldText(documentText));
+
+  return clauseContents.map(content => locateClause(documentText, getFolded, content));
+}
@@ -0,0 +1,294 @@
+/**
+ * Clause Extraction
+ * Splits long contracts into overlapping chunks on section boundaries, extracts each chunk's
+ * clauses in parallel and merges the results, joining clauses cut in two by a chunk boundary.
+ */
+
+import { db, contracts, clauses } from '@/lib/db';
+import type { Clause, Contract } from '@/lib/db';
+import { and, eq, isNull } from 'drizzle-orm';
+import { extractClauses, type ClauseTypeForExtraction, type ExtractedClause } from '@/lib/casedev';
+import { getClauseTaxonomy } from '@/lib/clause-taxonomy';
+import { alignClauses } from '@/lib/clause-alignment';
+import { calculateTextSimilarity, normalizeTextForComparison } from '@/lib/utils';
+import { v4 as uuidv4 } from 'uuid';
+
+// Extracted clauses are quoted verbatim, so a chunk must fit the response as well as the prompt
+const MAX_CHUNK_CHARS = 40000;
+// Text repeated at the start of the next chunk, so a clause split at a boundary is seen whole in one
+const CHUNK_OVERLAP_CHARS = 2000;
+const EXTRACTION_CONCURRENCY = 4;
+// Shortest shared run that counts as two pieces of the same clause rather than a coincidence
+const MIN_MERGE_OVERLAP_CHARS = 200;
+const NEAR_DUPLICATE_SIMILARITY = 0.95;
+
+/**
+ * Raised when the LLM can't extract a contract's clauses
+ */
+export class ClauseExtractionError extends Error {
+  constructor(message: string) {
+    super(`Failed to extract clauses: ${message}`);
+    this.name = 'ClauseExtractionError';
+  }
+}
+
+// ============ CHUNKING ============
+
+// "1.", "1.1", "12.3.4" or "IV." followed by a heading
+const NUMBERED_HEADING = /^(?:\d+\.(?:\d+\.?)*|[IVXLC]+\.)\s+\S/;
+// "Section 5", "ARTICLE IV", "Schedule A"
+const NAMED_HEADING = /^(?:section|article|schedule|exhibit|annex|appendix)\s+[\dA-Z]+\b/i;
+// "GOVERNING LAW" on a line of its own
+const CAPS_HEADING = /^[A-Z][A-Z0-9 ,;:&'()-]{3,80}$/;
+
+// Offsets of the lines that start a section, always including 0
+function findSectionStarts(text: string): number[] {
+  const starts = [0];
+  const linePattern = /\n[ \t]*([^\n]*)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = linePattern.exec(text)) !== null) {
+    const line = match[1].trim();
+    if (NUMBERED_HEADING.test(line) || NAMED_HEADING.test(line) || CAPS_HEADING.test(line)) {
+      starts.push(match.index + 1);
+    }
+  }
+
+  return starts;
+}
+
+// Break sections too long for one chunk at paragraph breaks, then line breaks, then anywhere
+function splitLongSections(text: string, sectionStarts: number[], maxLength: number): number[] {
+  const boundaries: number[] = [];
+  const ends = [...sectionStarts.slice(1), text.length];
+
+  sectionStarts.forEach((start, i) => {
+    boundaries.push(start);
+    let position = start;
+
+    while (ends[i] - position > maxLength) {
+      const window = text.slice(position, position + maxLength);
+      const paragraphBreak = window.lastIndexOf('\n\n');
+      const lineBreak = window.lastIndexOf('\n');
+
+      if (paragraphBreak > maxLength / 2) position += paragraphBreak + 2;
+      else if (lineBreak > maxLength / 2) position += lineBreak + 1;
+      else position += maxLength;
+
+      boundaries.push(position);
+    }
+  });
+
+  return boundaries;
+}
+
+/**
+ * Split contract text into chunks of at most MAX_CHUNK_CHARS that start and end on section
+ * boundaries where possible. Each chunk after the first repeats up to CHUNK_OVERLAP_CHARS of
+ * the one before it, starting at a section boundary inside that window when there is one.
+ */
+export function splitIntoChunks(text: string): string[] {
+  if (text.length <= MAX_CHUNK_CHARS) return [text];
+
+  const boundaries = splitLongSections(
+    text,
+    findSectionStarts(text),
+    MAX_CHUNK_CHARS - CHUNK_OVERLAP_CHARS
+  );
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (text.length - start > MAX_CHUNK_CHARS) {
+    const end = boundaries.filter(b => b > start && b <= start + MAX_CHUNK_CHARS).pop() ?? start + MAX_CHUNK_CHARS;
+    chunks.push(text.slice(start, end));
+
+    const overlapStart = boundaries.find(b => b > start && b >= end - CHUNK_OVERLAP_CHARS && b < end);
+    start = overlapStart ?? Math.max(end - CHUNK_OVERLAP_CHARS, start + 1);
+  }
+
+  chunks.push(text.slice(start));
+  return chunks;
+}
+
+// ============ MERGING ============
+
+// Length of the run at the end of `first` that `second` starts with, or 0
+function boundaryOverlap(first: string, second: string): number {
+  const probe = second.slice(0, MIN_MERGE_OVERLAP_CHARS);
+  if (probe.length < MIN_MERGE_OVERLAP_CHARS) return 0;
+
+  for (let i = first.indexOf(probe); i !== -1; i = first.indexOf(probe, i + 1)) {
+    if (second.startsWith(first.slice(i))) {
+      return first.length - i;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Merge the clauses extracted from each chunk, in chunk order. A clause found again in the
+ * overlap (whole or as part of a longer extraction) is kept once, and two halves of a
+ * clause split at a chunk boundary are joined into one.
+ */
+export function mergeExtractedClauses(chunkResults: ExtractedClause[][]): ExtractedClause[] {
+  const merged: ExtractedClause[] = [];
+
+  for (const clause of chunkResults.flat()) {
+    const content = normalizeTextForComparison(clause.content);
+    if (!content) continue;
+
+    let isDuplicate = false;
+    for (let i = 0; i < merged.length; i++) {
+      const existing = merged[i];
+      const confidence = Math.max(existing.confidence ?? 0, clause.confidence ?? 0) || undefined;
+
+      if (existing.content.includes(content)) {
+        merged[i] = { ...existing, confidence };
+      } else if (content.includes(existing.content)) {
+        merged[i] = { ...clause, content, confidence, page_number: existing.page_number ?? clause.page_number };
+      } else if (existing.clause_type === clause.clause_type) {
+        const overlapAfter = boundaryOverlap(existing.content, content);
+        const overlapBefore = overlapAfter ? 0 : boundaryOverlap(content, existing.content);
+
+        if (overlapAfter) {
+          merged[i] = { ...existing, content: existing.content + content.slice(overlapAfter), confidence };
+        } else if (overlapBefore) {
+          merged[i] = { ...existing, content: content + existing.content.slice(overlapBefore), confidence };
+        } else if (calculateTextSimilarity(existing.content, content) >= NEAR_DUPLICATE_SIMILARITY) {
+          if (content.length > existing.content.length) {
+            merged[i] = { ...clause, content, confidence };
+          }
+        } else {
+          continue;
+        }
+      } else {
+        continue;
+      }
+
+      isDuplicate = true;
+      break;
+    }
+
+    if (!isDuplicate) {
+      merged.push({ ...clause, content });
+    }
+  }
+
+  // Sort by clause type for deterministic ordering; the sort is stable, so document order holds within a type
+  return merged.sort((a, b) => a.clause_type.localeCompare(b.clause_type));
+}
+
+// ============ EXTRACTION ============
+
+// Run `task` over every item with at most `limit` running at once, keeping results in item order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runNext));
+  return results;
+}
+
+// Extract a contract's clauses chunk by chunk, classified into `clauseTypes`, and merge them into one list
+export async function extractContractClauses(
+  contractText: string,
+  clauseTypes: ClauseTypeForExtraction[],
+  signal?: AbortSignal
+): Promise<ExtractedClause[]> {
+  const chunks = splitIntoChunks(contractText);
+
+  const chunkResults = await mapWithConcurrency(chunks, EXTRACTION_CONCURRENCY, async (chunk, index) => {
+    signal?.throwIfAborted();
+    const result = await extractClauses(chunk, clauseTypes, signal);
+    signal?.throwIfAborted();
+
+    if (result.error) {
+      throw new ClauseExtractionError(
+        chunks.length > 1 ? `part ${index + 1} of ${chunks.length}: ${result.error}` : result.error
+      );
+    }
+    return result.data || [];
+  });
+
+  return mergeExtractedClauses(chunkResults);
+}
+
+// Extract clauses from a contract's text using its org's taxonomy, replacing any it already has, and mark it completed
+export async function extractAndSaveClauses(
+  contract: Pick<Contract, 'id' | 'orgId'>,
+  contractText: string,
+  signal?: AbortSignal
+): Promise<Clause[]> {
+  const contractId = contract.id;
+  const taxonomy = await getClauseTaxonomy(contract.orgId);
+  const extractedClauses = await extractContractClauses(contractText, taxonomy, signal);
+  const spans = alignClauses(contractText, extractedClauses.map(clause => clause.content));
+
+  await db.delete(clauses).where(eq(clauses.contractId, contractId));
+
+  const newClauses = extractedClauses.length > 0
+    ? await db
+        .insert(clauses)
+        .values(extractedClauses.map((clause, i) => ({
+          id: uuidv4(),
+          contractId,
+          clauseType: clause.clause_type,
+          title: clause.title,
+          content: clause.content,
+          startPosition: spans[i]?.start ?? null,
+          endPosition: spans[i]?.end ?? null,
+          pageNumber: clause.page_number,
+          confidenceScore: clause.confidence,
+          extractedAt: new Date(),
+        })))
+        .returning()
+    : [];
+
+  await db
+    .update(contracts)
+    .set({
+      ingestionStatus: 'completed',
+      processedAt: new Date(),
+    })
+    .where(eq(contracts.id, contractId));
+
+  return newClauses;
+}
+
+/**
+ * Fill in the text positions of clauses extracted before positions were recorded, saving
+ * them so it happens once. Returns the clauses with their positions; clauses that can't be
+ * located keep null positions and are tried again next time.
+ */
+export async function ensureClausePositions(contractText: string, contractClauses: Clause[]): Promise<Clause[]> {
+  const unaligned = contractClauses.filter(clause => clause.startPosition === null);
+  if (unaligned.length === 0) return contractClauses;
+
+  const spans = alignClauses(contractText, unaligned.map(clause => clause.content));
+  const aligned = new Map<string, Clause>();
+
+  await Promise.all(unaligned.map(async (clause, i) => {
+    const span = spans[i];
+    if (!span) return;
+
+    const [updated] = await db
+      .update(clauses)
+      .set({ startPosition: span.start, endPosition: span.end })
+      .where(and(eq(clauses.id, clause.id), isNull(clauses.startPosition)))
+      .returning();
+    if (updated) aligned.set(updated.id, updated);
+  }));
+
+  return contractClauses.map(clause => aligned.get(clause.id) ?? clause);
+}
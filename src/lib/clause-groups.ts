@@ -0,0 +1,237 @@
+/**
+ * Clause Groups
+ * Splits and merges between drafts: one original clause divided into several revised clauses,
+ * or several original clauses combined into one. A group is compared as a whole, against the
+ * combined text of its clauses, instead of as a missing clause plus an added one.
+ */
+
+import type { ClauseMatch, ClauseMatchingResult } from '@/lib/casedev';
+import { clauseSectionNumber, formatClauseType, shingleContainment, wordShingles } from '@/lib/utils';
+
+// Share of a leftover clause's text that has to reappear in another clause for the leftover
+// to count as split off from it, or merged into it
+const GROUP_CONTAINMENT = 0.6;
+
+// Leftovers with fewer shingles than this are too short to tell where their text went
+const MIN_GROUP_SHINGLES = 4;
+
+interface GroupableClause {
+  id: string;
+  content: string;
+}
+
+// A clause as the UI and exports show it in a group
+interface DisplayedClause {
+  clauseType: string;
+  title: string | null;
+  content: string;
+  startPosition: number | null;
+}
+
+/**
+ * The matching with every clause in exactly one place. The model can name a clause in two
+ * matches, or in a split and a merge at once; the first use wins and the rest is dropped.
+ */
+function normalizeClauseGroups(matching: ClauseMatchingResult): ClauseMatchingResult {
+  const usedSourceIds = new Set<string>();
+  const usedTargetIds = new Set<string>();
+  const matches: ClauseMatch[] = [];
+
+  for (const match of matching.matches) {
+    if (usedSourceIds.has(match.sourceClauseId)) continue;
+    if (match.targetClauseId && usedTargetIds.has(match.targetClauseId)) continue;
+
+    const splitTargetClauseIds = [...new Set(match.splitTargetClauseIds ?? [])]
+      .filter(id => id !== match.targetClauseId && !usedTargetIds.has(id));
+    // A group is one clause against several; a split wins over a merge
+    const mergedSourceClauseIds = splitTargetClauseIds.length > 0
+      ? []
+      : [...new Set(match.mergedSourceClauseIds ?? [])]
+          .filter(id => id !== match.sourceClauseId && !usedSourceIds.has(id));
+
+    usedSourceIds.add(match.sourceClauseId);
+    mergedSourceClauseIds.forEach(id => usedSourceIds.add(id));
+    if (match.targetClauseId) usedTargetIds.add(match.targetClauseId);
+    splitTargetClauseIds.forEach(id => usedTargetIds.add(id));
+
+    matches.push({ ...match, splitTargetClauseIds, mergedSourceClauseIds });
+  }
+
+  // Clauses that lost their place to an earlier match are left unmatched
+  const mentionedSourceIds = [
+    ...matching.matches.flatMap(m => [m.sourceClauseId, ...(m.mergedSourceClauseIds ?? [])]),
+    ...matching.unmatchedSource,
+  ];
+  const mentionedTargetIds = [
+    ...matching.matches.flatMap(m => [...(m.targetClauseId ? [m.targetClauseId] : []), ...(m.splitTargetClauseIds ?? [])]),
+    ...matching.unmatchedTarget,
+  ];
+
+  return {
+    matches,
+    unmatchedSource: [...new Set(mentionedSourceIds)].filter(id => !usedSourceIds.has(id)),
+    unmatchedTarget: [...new Set(mentionedTargetIds)].filter(id => !usedTargetIds.has(id)),
+  };
+}
+
+// The clause whose text contains most of `part`, if enough of it
+function bestContainer(
+  part: Set<string>,
+  candidates: GroupableClause[],
+  shinglesById: Map<string, Set<string>>
+): { id: string; containment: number } | null {
+  let best: { id: string; containment: number } | null = null;
+  for (const candidate of candidates) {
+    const containment = shingleContainment(part, shinglesById.get(candidate.id)!);
+    if (containment >= GROUP_CONTAINMENT && (!best || containment > best.containment)) {
+      best = { id: candidate.id, containment };
+    }
+  }
+  return best;
+}
+
+/**
+ * The matching with splits and merges the matcher missed filled in. A clause left unmatched
+ * whose text mostly reappears in a clause on the other side joins that clause's group: a
+ * revised clause carved out of an original one is part of a split, an original clause folded
+ * into a revised one part of a merge.
+ */
+export function detectSplitsAndMerges(
+  matching: ClauseMatchingResult,
+  sourceClauses: GroupableClause[],
+  targetClauses: GroupableClause[]
+): ClauseMatchingResult {
+  const result = normalizeClauseGroups(matching);
+  const shinglesById = new Map(
+    [...sourceClauses, ...targetClauses].map(clause => [clause.id, wordShingles(clause.content)])
+  );
+
+  const matchOfSource = (id: string) => result.matches.find(m =>
+    m.sourceClauseId === id || m.mergedSourceClauseIds?.includes(id)
+  );
+  const matchOfTarget = (id: string) => result.matches.find(m =>
+    m.targetClauseId === id || m.splitTargetClauseIds?.includes(id)
+  );
+
+  // Revised clauses carved out of an original clause
+  for (const targetClauseId of [...result.unmatchedTarget]) {
+    const part = shinglesById.get(targetClauseId);
+    if (!part || part.size < MIN_GROUP_SHINGLES) continue;
+
+    const container = bestContainer(part, sourceClauses, shinglesById);
+    if (!container) continue;
+
+    const match = matchOfSource(container.id);
+    // Already one of several original clauses merged together
+    if (match?.mergedSourceClauseIds?.length) continue;
+
+    if (match?.targetClauseId) {
+      match.splitTargetClauseIds = [...(match.splitTargetClauseIds ?? []), targetClauseId];
+    } else {
+      const reason = 'Most of the revised clause comes from this clause';
+      if (match) {
+        Object.assign(match, { targetClauseId, matchConfidence: container.containment, matchReason: reason });
+      } else {
+        result.matches.push({
+          sourceClauseId: container.id,
+          targetClauseId,
+          matchConfidence: container.containment,
+          matchReason: reason,
+        });
+      }
+      result.unmatchedSource = result.unmatchedSource.filter(id => id !== container.id);
+    }
+    result.unmatchedTarget = result.unmatchedTarget.filter(id => id !== targetClauseId);
+  }
+
+  // Original clauses folded into a revised clause
+  for (const sourceClauseId of [...result.unmatchedSource]) {
+    const part = shinglesById.get(sourceClauseId);
+    if (!part || part.size < MIN_GROUP_SHINGLES) continue;
+
+    const container = bestContainer(part, targetClauses, shinglesById);
+    if (!container) continue;
+
+    const match = matchOfTarget(container.id);
+    // Already one of several revised clauses split from an original
+    if (match?.splitTargetClauseIds?.length) continue;
+
+    if (match) {
+      match.mergedSourceClauseIds = [...(match.mergedSourceClauseIds ?? []), sourceClauseId];
+    } else {
+      result.matches.push({
+        sourceClauseId,
+        targetClauseId: container.id,
+        matchConfidence: container.containment,
+        matchReason: 'Most of this clause reappears in the revised clause',
+      });
+      result.unmatchedTarget = result.unmatchedTarget.filter(id => id !== container.id);
+    }
+    result.unmatchedSource = result.unmatchedSource.filter(id => id !== sourceClauseId);
+  }
+
+  return result;
+}
+
+// ============ DISPLAY ============
+
+// Clauses that couldn't be located keep their place at the end
+function inDocumentOrder<T extends { startPosition: number | null }>(clauses: T[]): T[] {
+  return [...clauses].sort((a, b) =>
+    (a.startPosition ?? Number.MAX_SAFE_INTEGER) - (b.startPosition ?? Number.MAX_SAFE_INTEGER)
+  );
+}
+
+/**
+ * The text a group is compared by: its clauses' text in document order, a paragraph apart
+ */
+export function combineClauseContent(clauses: Pick<DisplayedClause, 'content' | 'startPosition'>[]): string {
+  return inDocumentOrder(clauses).map(clause => clause.content.trim()).join('\n\n');
+}
+
+// One side of a clause comparison as the UI gets it: the clause, or its merge's or split's clauses combined
+export function clauseGroupContent(
+  clause: Pick<DisplayedClause, 'content' | 'startPosition'> | null,
+  groupClauses: Pick<DisplayedClause, 'content' | 'startPosition'>[] = []
+): string {
+  return clause ? combineClauseContent([clause, ...groupClauses]) : '';
+}
+
+// "8.1" for a numbered clause, else its heading or clause type
+function clauseReference(clause: DisplayedClause): string {
+  return clauseSectionNumber(clause) ?? (clause.title || formatClauseType(clause.clauseType));
+}
+
+function joinReferences(references: string[]): string {
+  return references.length > 1
+    ? `${references.slice(0, -1).join(', ')} and ${references[references.length - 1]}`
+    : references.join('');
+}
+
+/**
+ * How a clause comparison's clauses relate when it's a split or a merge, e.g.
+ * "Split into 8.1 and 8.2" or "Merged from 4, 5 and 6"; null for a one-to-one pair
+ */
+export function describeClauseGroup(
+  sourceClauses: DisplayedClause[],
+  targetClauses: DisplayedClause[]
+): string | null {
+  if (sourceClauses.length === 1 && targetClauses.length > 1) {
+    return `Split into ${joinReferences(inDocumentOrder(targetClauses).map(clauseReference))}`;
+  }
+  if (sourceClauses.length > 1 && targetClauses.length === 1) {
+    return `Merged from ${joinReferences(inDocumentOrder(sourceClauses).map(clauseReference))}`;
+  }
+  return null;
+}
+
+// Parse a clause comparison's stored split or merge clause ids
+export function parseClauseIds(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
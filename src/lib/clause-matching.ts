@@ -0,0 +1,316 @@
+/**
+ * Clause Matching
+ * Deterministic pairing of two contracts' clauses: every source/target pair is scored by text
+ * similarity (TF-IDF), clause type and section number, and the pairs are chosen as the
+ * assignment with the highest total score. Used on its own when semantic matching fails, and to
+ * check and fill in the model's matches when it doesn't, so the same contracts pair the same way.
+ */
+
+import type { ClauseMatch, ClauseMatchingResult } from '@/lib/casedev';
+import { clauseSectionNumber } from '@/lib/utils';
+
+// How much each signal counts towards a pair's score (0-1)
+const TEXT_WEIGHT = 0.6;
+const TYPE_WEIGHT = 0.25;
+const SECTION_WEIGHT = 0.15;
+
+// Pairs scoring below this are left unmatched: the same clause type alone (0.25) isn't enough,
+// the same type and a fair share of the wording is
+const MIN_MATCH_SCORE = 0.4;
+
+// A pair the model made is dropped for the assignment's when the assignment pairs either
+// clause with one scoring this much higher
+const REPLACE_MARGIN = 0.2;
+
+interface MatchableClause {
+  id: string;
+  clauseType: string;
+  title: string | null;
+  content: string;
+}
+
+interface PairScore {
+  score: number;
+  textSimilarity: number;
+  sameType: boolean;
+  // The section number both clauses carry, when it's the same
+  sameSection: string | null;
+}
+
+// ============ SIMILARITY ============
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
+
+/**
+ * TF-IDF vectors of the clauses' headings and text, with document frequencies counted over both
+ * contracts so wording every clause shares ("the", "party", "agreement") barely counts
+ */
+function tfidfVectors(texts: string[]): Map<string, number>[] {
+  const termCounts = texts.map(text => {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(text)) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    return counts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of termCounts) {
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return termCounts.map(counts => {
+    const vector = new Map<string, number>();
+    let norm = 0;
+    for (const [term, count] of counts) {
+      const weight = (1 + Math.log(count)) * (Math.log((texts.length + 1) / (documentFrequency.get(term)! + 1)) + 1);
+      vector.set(term, weight);
+      norm += weight * weight;
+    }
+    norm = Math.sqrt(norm);
+    for (const [term, weight] of vector) {
+      vector.set(term, weight / norm);
+    }
+    return vector;
+  });
+}
+
+// Cosine similarity of two unit vectors
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [term, weight] of smaller) {
+    dot += weight * (larger.get(term) ?? 0);
+  }
+  return Math.min(1, dot);
+}
+
+/**
+ * Every source clause scored against every target clause: scores[i][j] is source i with target j
+ */
+function scoreClausePairs(sourceClauses: MatchableClause[], targetClauses: MatchableClause[]): PairScore[][] {
+  const vectors = tfidfVectors(
+    [...sourceClauses, ...targetClauses].map(clause => `${clause.title ?? ''}\n${clause.content}`)
+  );
+  const sourceVectors = vectors.slice(0, sourceClauses.length);
+  const targetVectors = vectors.slice(sourceClauses.length);
+  const targetSections = targetClauses.map(clauseSectionNumber);
+
+  return sourceClauses.map((sourceClause, i) => {
+    const sourceSection = clauseSectionNumber(sourceClause);
+    return targetClauses.map((targetClause, j) => {
+      const textSimilarity = cosine(sourceVectors[i], targetVectors[j]);
+      const sameType = sourceClause.clauseType === targetClause.clauseType;
+      const sameSection = sourceSection !== null && sourceSection === targetSections[j] ? sourceSection : null;
+      return {
+        score: TEXT_WEIGHT * textSimilarity + (sameType ? TYPE_WEIGHT : 0) + (sameSection ? SECTION_WEIGHT : 0),
+        textSimilarity,
+        sameType,
+        sameSection,
+      };
+    });
+  });
+}
+
+// A score as a match confidence
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+function describePairScore(pairScore: PairScore): string {
+  const reasons = [`${Math.round(pairScore.textSimilarity * 100)}% similar text`];
+  if (pairScore.sameType) reasons.push('same clause type');
+  if (pairScore.sameSection) reasons.push(`same section number (${pairScore.sameSection})`);
+  return `Matched locally: ${reasons.join(', ')}`;
+}
+
+// ============ ASSIGNMENT ============
+
+/**
+ * The rows-to-columns assignment with the lowest total cost (Hungarian method), for a matrix
+ * with no more rows than columns. Returns the column assigned to each row.
+ */
+function solveAssignment(cost: number[][]): number[] {
+  const rows = cost.length;
+  const columns = rows > 0 ? cost[0].length : 0;
+  // 1-based potentials and matching; column 0 is the virtual start of each augmenting path
+  const rowPotential = new Array<number>(rows + 1).fill(0);
+  const columnPotential = new Array<number>(columns + 1).fill(0);
+  const rowOfColumn = new Array<number>(columns + 1).fill(0);
+  const previousColumn = new Array<number>(columns + 1).fill(0);
+
+  for (let row = 1; row <= rows; row++) {
+    rowOfColumn[0] = row;
+    let column = 0;
+    const minSlack = new Array<number>(columns + 1).fill(Infinity);
+    const visited = new Array<boolean>(columns + 1).fill(false);
+
+    do {
+      visited[column] = true;
+      const currentRow = rowOfColumn[column];
+      let delta = Infinity;
+      let nextColumn = 0;
+      for (let j = 1; j <= columns; j++) {
+        if (visited[j]) continue;
+        const slack = cost[currentRow - 1][j - 1] - rowPotential[currentRow] - columnPotential[j];
+        if (slack < minSlack[j]) {
+          minSlack[j] = slack;
+          previousColumn[j] = column;
+        }
+        if (minSlack[j] < delta) {
+          delta = minSlack[j];
+          nextColumn = j;
+        }
+      }
+      for (let j = 0; j <= columns; j++) {
+        if (visited[j]) {
+          rowPotential[rowOfColumn[j]] += delta;
+          columnPotential[j] -= delta;
+        } else {
+          minSlack[j] -= delta;
+        }
+      }
+      column = nextColumn;
+    } while (rowOfColumn[column] !== 0);
+
+    // Flip the augmenting path
+    do {
+      const previous = previousColumn[column];
+      rowOfColumn[column] = rowOfColumn[previous];
+      column = previous;
+    } while (column !== 0);
+  }
+
+  const columnOfRow = new Array<number>(rows).fill(-1);
+  for (let j = 1; j <= columns; j++) {
+    if (rowOfColumn[j] !== 0) columnOfRow[rowOfColumn[j] - 1] = j - 1;
+  }
+  return columnOfRow;
+}
+
+/**
+ * The source/target index pairs with the highest total score, leaving out pairs below the
+ * minimum score. A pair below it counts as zero, so it never displaces a real match.
+ */
+function assignClauses(scores: PairScore[][], targetCount: number): [number, number][] {
+  const value = (pairScore: PairScore) => (pairScore.score >= MIN_MATCH_SCORE ? pairScore.score : 0);
+  const transposed = scores.length > targetCount;
+  const cost = transposed
+    ? Array.from({ length: targetCount }, (_, j) => scores.map(row => -value(row[j])))
+    : scores.map(row => row.map(pairScore => -value(pairScore)));
+
+  const pairs: [number, number][] = [];
+  solveAssignment(cost).forEach((assigned, index) => {
+    if (assigned < 0) return;
+    const [i, j] = transposed ? [assigned, index] : [index, assigned];
+    if (scores[i][j].score >= MIN_MATCH_SCORE) pairs.push([i, j]);
+  });
+  return pairs.sort((a, b) => a[0] - b[0]);
+}
+
+// ============ MATCHING ============
+
+/**
+ * Pair the clauses without the model. The same clauses always pair the same way.
+ */
+export function matchClausesLocally(
+  sourceClauses: MatchableClause[],
+  targetClauses: MatchableClause[]
+): ClauseMatchingResult {
+  const scores = scoreClausePairs(sourceClauses, targetClauses);
+  const pairs = assignClauses(scores, targetClauses.length);
+  const matchedSource = new Set(pairs.map(([i]) => i));
+  const matchedTarget = new Set(pairs.map(([, j]) => j));
+
+  return {
+    matches: pairs.map(([i, j]) => ({
+      sourceClauseId: sourceClauses[i].id,
+      targetClauseId: targetClauses[j].id,
+      matchConfidence: roundScore(scores[i][j].score),
+      matchReason: describePairScore(scores[i][j]),
+    })),
+    unmatchedSource: sourceClauses.filter((_, i) => !matchedSource.has(i)).map(c => c.id),
+    unmatchedTarget: targetClauses.filter((_, j) => !matchedTarget.has(j)).map(c => c.id),
+  };
+}
+
+/**
+ * The model's matching checked against the local assignment. A pair the model made that
+ * scores clearly below what the assignment pairs either clause with is dropped; one that
+ * disagrees with the assignment but is close is kept with its confidence lowered to its score,
+ * so it's flagged for review. Clauses left unmatched are then paired as the assignment pairs
+ * them, where both are still free.
+ */
+export function checkClauseMatches(
+  matching: ClauseMatchingResult,
+  sourceClauses: MatchableClause[],
+  targetClauses: MatchableClause[]
+): ClauseMatchingResult {
+  const scores = scoreClausePairs(sourceClauses, targetClauses);
+  const pairs = assignClauses(scores, targetClauses.length);
+  const sourceIndex = new Map(sourceClauses.map((clause, i) => [clause.id, i]));
+  const targetIndex = new Map(targetClauses.map((clause, j) => [clause.id, j]));
+  const assignedTarget = new Map(pairs.map(([i, j]) => [i, j]));
+  const assignedSource = new Map(pairs.map(([i, j]) => [j, i]));
+
+  const matches: ClauseMatch[] = [];
+  const usedSourceIds = new Set<string>();
+  const usedTargetIds = new Set<string>();
+
+  for (const match of matching.matches) {
+    // A clause the model had as removed is unmatched, and may still be paired below
+    if (!match.targetClauseId) continue;
+    const i = sourceIndex.get(match.sourceClauseId);
+    const j = targetIndex.get(match.targetClauseId);
+    if (i === undefined || j === undefined) continue;
+    if (usedSourceIds.has(match.sourceClauseId) || usedTargetIds.has(match.targetClauseId)) continue;
+
+    let checked = match;
+    if (assignedTarget.get(i) !== j) {
+      const pairScore = scores[i][j].score;
+      const alternative = Math.max(
+        assignedTarget.has(i) ? scores[i][assignedTarget.get(i)!].score : 0,
+        assignedSource.has(j) ? scores[assignedSource.get(j)!][j].score : 0
+      );
+      if (alternative - pairScore > REPLACE_MARGIN) continue;
+      if (alternative > 0 && pairScore < match.matchConfidence) {
+        checked = {
+          ...match,
+          matchConfidence: roundScore(pairScore),
+          matchReason: `${match.matchReason} (the text is closer to another clause)`,
+        };
+      }
+    }
+
+    matches.push(checked);
+    usedSourceIds.add(match.sourceClauseId);
+    match.mergedSourceClauseIds?.forEach(id => usedSourceIds.add(id));
+    usedTargetIds.add(match.targetClauseId);
+    match.splitTargetClauseIds?.forEach(id => usedTargetIds.add(id));
+  }
+
+  for (const [i, j] of pairs) {
+    const sourceClause = sourceClauses[i];
+    const targetClause = targetClauses[j];
+    if (usedSourceIds.has(sourceClause.id) || usedTargetIds.has(targetClause.id)) continue;
+
+    matches.push({
+      sourceClauseId: sourceClause.id,
+      targetClauseId: targetClause.id,
+      matchConfidence: roundScore(scores[i][j].score),
+      matchReason: describePairScore(scores[i][j]),
+    });
+    usedSourceIds.add(sourceClause.id);
+    usedTargetIds.add(targetClause.id);
+  }
+
+  return {
+    matches,
+    unmatchedSource: sourceClauses.filter(c => !usedSourceIds.has(c.id)).map(c => c.id),
+    unmatchedTarget: targetClauses.filter(c => !usedTargetIds.has(c.id)).map(c => c.id),
+  };
+}
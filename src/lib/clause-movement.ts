@@ -0,0 +1,238 @@
+/**
+ * Clause Movement
+ * Where each clause comparison's clauses sit in the two contracts: clauses relocated relative to
+ * the clauses around them, sections renumbered, and cross-references ("as set forth in
+ * Section 9.2") the revision left pointing at a section's old number.
+ */
+
+import { clauseSectionNumber, stripSectionNumber } from '@/lib/utils';
+
+// A reference in the revised text to a section by the wrong number
+export interface BrokenCrossReference {
+  // As the clause words it, e.g. "Section 9.2"
+  reference: string;
+  sectionNumber: string;
+  // What the section referred to is numbered now; null when it's no longer in the contract
+  nowNumbered: string | null;
+}
+
+// Where a clause comparison's clauses sit, and the references in its revised text gone wrong
+export interface ClauseLayout {
+  sourceSectionNumber: string | null;
+  targetSectionNumber: string | null;
+  // Relocated relative to the other clauses, not just pushed along by clauses added or removed
+  moved: boolean;
+  brokenCrossReferences: BrokenCrossReference[];
+}
+
+interface PlacedClause {
+  title: string | null;
+  content: string;
+  startPosition: number | null;
+}
+
+// A clause comparison's clauses on each side, its main clause first; none on a side it's missing from
+export interface LayoutRow {
+  sourceClauseIds: string[];
+  targetClauseIds: string[];
+}
+
+// "Section 9.2", "Sections 4", "Article V", "clause 3.1(a)", "§ 7"
+const CROSS_REFERENCE_PATTERN =
+  /\b(?:[Ss]ections?|SECTIONS?|[Aa]rticles?|ARTICLES?|[Cc]lauses?|CLAUSES?)\s+((?:\d+\.)*\d+[A-Za-z]?|[IVXLC]+\b)|§\s*((?:\d+\.)*\d+[A-Za-z]?)/g;
+
+// ============ RELOCATION ============
+
+/**
+ * Indexes of the pairs that moved: with the pairs in source order, the ones outside the longest
+ * run whose target positions also rise. Inserting or deleting clauses shifts the rest without
+ * reordering them, so only clauses that changed places relative to the others count as moved.
+ */
+function findMovedPairs(pairs: { sourcePosition: number; targetPosition: number }[]): Set<number> {
+  const order = pairs.map((_, index) => index).sort((a, b) => pairs[a].sourcePosition - pairs[b].sourcePosition);
+
+  // Longest increasing subsequence of target positions: tails[k] ends the best run of length k + 1
+  const tails: number[] = [];
+  const previous = new Array<number>(order.length).fill(-1);
+  order.forEach((pairIndex, k) => {
+    const position = pairs[pairIndex].targetPosition;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (pairs[order[tails[middle]]].targetPosition < position) low = middle + 1;
+      else high = middle;
+    }
+    previous[k] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = k;
+  });
+
+  const inOrder = new Set<number>();
+  for (let k = tails.length > 0 ? tails[tails.length - 1] : -1; k >= 0; k = previous[k]) {
+    inOrder.add(order[k]);
+  }
+  return new Set(pairs.map((_, index) => index).filter(index => !inOrder.has(index)));
+}
+
+// ============ CROSS-REFERENCES ============
+
+// What follows a reference to another instrument's section: "Section 409A of the Code"
+const OTHER_INSTRUMENT_PATTERN = /^(?:\s*\([a-z0-9]+\))*\s+(?:of|under)\s+(?!this\b|the\s+agreement\b)/i;
+
+function findCrossReferences(text: string): { reference: string; sectionNumber: string; external: boolean }[] {
+  return [...text.matchAll(CROSS_REFERENCE_PATTERN)].map(match => ({
+    reference: match[0],
+    sectionNumber: match[1] ?? match[2],
+    external: OTHER_INSTRUMENT_PATTERN.test(text.slice(match.index! + match[0].length)),
+  }));
+}
+
+/**
+ * What section `sectionNumber` of the original is numbered in the revision, going by the most
+ * specific section renumbered: with 9 now 10, "9.2" is "10.2". Null when it was removed,
+ * undefined when nothing is known about it.
+ */
+function renumberedAs(sectionNumber: string, renumbering: Map<string, string | null>): string | null | undefined {
+  if (renumbering.has(sectionNumber)) return renumbering.get(sectionNumber);
+
+  let parent: string | null = null;
+  for (const original of renumbering.keys()) {
+    if (sectionNumber.startsWith(`${original}.`) && (!parent || original.length > parent.length)) {
+      parent = original;
+    }
+  }
+  if (parent === null) return undefined;
+  const renumberedParent = renumbering.get(parent);
+  return renumberedParent === null ? null : `${renumberedParent}${sectionNumber.slice(parent.length)}`;
+}
+
+// A section, one of its subsections or the article it falls under is in the revised contract
+function hasSection(sectionNumber: string, sectionNumbers: string[]): boolean {
+  return sectionNumbers.some(number =>
+    number === sectionNumber || sectionNumber.startsWith(`${number}.`) || number.startsWith(`${sectionNumber}.`)
+  );
+}
+
+/**
+ * References in a revised clause's text that the revision left pointing at the wrong section:
+ * references to a section of the original that has since been renumbered or removed, when the
+ * original clause makes them too or the revised contract has no section by that number. Only
+ * sections of the original are checked, so a reference to a section that was never extracted
+ * as a clause, or to one of another instrument (a statute, a schedule), is left alone.
+ */
+function findBrokenCrossReferences(
+  targetContent: string,
+  sourceContent: string | null,
+  renumbering: Map<string, string | null>,
+  targetSectionNumbers: string[]
+): BrokenCrossReference[] {
+  const sourceReferences = new Set(sourceContent ? findCrossReferences(sourceContent).map(ref => ref.sectionNumber) : []);
+  const broken: BrokenCrossReference[] = [];
+
+  for (const { reference, sectionNumber, external } of findCrossReferences(targetContent)) {
+    if (external || broken.some(b => b.sectionNumber === sectionNumber)) continue;
+
+    const nowNumbered = renumberedAs(sectionNumber, renumbering);
+    if (nowNumbered === undefined || nowNumbered === sectionNumber) continue;
+    if (sourceReferences.has(sectionNumber) || !hasSection(sectionNumber, targetSectionNumbers)) {
+      broken.push({ reference, sectionNumber, nowNumbered });
+    }
+  }
+
+  return broken;
+}
+
+// ============ LAYOUT ============
+
+/**
+ * The layout of each clause comparison, in the order given: section numbers of its main
+ * clauses, whether they moved, and the broken references in its revised text
+ */
+export function clauseLayout(
+  rows: LayoutRow[],
+  sourceClausesById: Map<string, PlacedClause>,
+  targetClausesById: Map<string, PlacedClause>
+): ClauseLayout[] {
+  const mainClause = (ids: string[], clausesById: Map<string, PlacedClause>) =>
+    ids.length > 0 ? clausesById.get(ids[0]) ?? null : null;
+  const placed = rows.map(row => {
+    const source = mainClause(row.sourceClauseIds, sourceClausesById);
+    const target = mainClause(row.targetClauseIds, targetClausesById);
+    return {
+      source,
+      target,
+      sourceSectionNumber: source ? clauseSectionNumber(source) : null,
+      targetSectionNumber: target ? clauseSectionNumber(target) : null,
+    };
+  });
+
+  // Original section numbers and what they became; a removed clause's section is gone
+  const renumbering = new Map<string, string | null>();
+  for (const { target, sourceSectionNumber, targetSectionNumber } of placed) {
+    if (!sourceSectionNumber) continue;
+    if (target && targetSectionNumber) renumbering.set(sourceSectionNumber, targetSectionNumber);
+    else if (!target) renumbering.set(sourceSectionNumber, null);
+  }
+  const targetSectionNumbers = [...targetClausesById.values()].flatMap(clause => clauseSectionNumber(clause) ?? []);
+
+  const locatedPairs = placed.flatMap(({ source, target }, index) =>
+    source && target && source.startPosition !== null && target.startPosition !== null
+      ? [{ index, sourcePosition: source.startPosition, targetPosition: target.startPosition }]
+      : []
+  );
+  const moved = new Set([...findMovedPairs(locatedPairs)].map(pairIndex => locatedPairs[pairIndex].index));
+
+  // A clause's own heading isn't a reference
+  const text = (ids: string[], clausesById: Map<string, PlacedClause>) =>
+    ids.flatMap(id => clausesById.has(id) ? [stripSectionNumber(clausesById.get(id)!.content)] : []).join('\n\n');
+
+  return rows.map((row, index) => {
+    const { sourceSectionNumber, targetSectionNumber } = placed[index];
+    return {
+      sourceSectionNumber,
+      targetSectionNumber,
+      moved: moved.has(index),
+      brokenCrossReferences: row.targetClauseIds.length > 0
+        ? findBrokenCrossReferences(
+            text(row.targetClauseIds, targetClausesById),
+            row.sourceClauseIds.length > 0 ? text(row.sourceClauseIds, sourceClausesById) : null,
+            renumbering,
+            targetSectionNumbers
+          )
+        : [],
+    };
+  });
+}
+
+// Parse a clause comparison's stored broken cross-references
+export function parseBrokenCrossReferences(value: string | null): BrokenCrossReference[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// "Section 9.2 (now 10.2)" or "Section 9.2 (no longer in the contract)"
+export function describeBrokenCrossReference(broken: BrokenCrossReference): string {
+  return broken.nowNumbered
+    ? `${broken.reference} (now ${broken.nowNumbered})`
+    : `${broken.reference} (no longer in the contract)`;
+}
+
+/**
+ * How a clause comparison's clauses moved, e.g. "Moved and renumbered from 9 to 12" or
+ * "Renumbered from 9 to 10"; null when they kept their place and number
+ */
+export function describeClauseMovement(
+  layout: Pick<ClauseLayout, 'moved' | 'sourceSectionNumber' | 'targetSectionNumber'>
+): string | null {
+  const renumbered = layout.sourceSectionNumber !== null && layout.targetSectionNumber !== null &&
+    layout.sourceSectionNumber !== layout.targetSectionNumber;
+  if (renumbered) {
+    return `${layout.moved ? 'Moved and renumbered' : 'Renumbered'} from ${layout.sourceSectionNumber} to ${layout.targetSectionNumber}`;
+  }
+  return layout.moved ? 'Moved' : null;
+}
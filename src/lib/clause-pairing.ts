@@ -0,0 +1,199 @@
+/**
+ * Clause Pairing
+ * Which source clause goes with which target clause, and the corrections reviewers make to it.
+ * Corrections are stored so scoring the comparison again pairs the clauses the same way.
+ */
+
+import { db, clausePairingOverrides } from '@/lib/db';
+import type { ClauseComparison, DbExecutor } from '@/lib/db';
+import type { ClauseMatch, ClauseMatchingResult } from '@/lib/casedev';
+import type { ClausePairingInput } from '@/lib/validations';
+import { and, asc, eq, inArray, or } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+// Match confidence and reason of a pair a reviewer made
+export const REVIEWER_MATCH: Pick<ClauseMatch, 'matchConfidence' | 'matchReason'> = {
+  matchConfidence: 1,
+  matchReason: 'Paired by a reviewer',
+};
+
+/**
+ * A correction that doesn't fit the comparison, e.g. a clause from another contract
+ */
+export class ClausePairingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClausePairingError';
+  }
+}
+
+// A source clause and the target clause it goes with; a null side makes it a missing or added clause
+export interface ClausePairing {
+  sourceClauseId: string | null;
+  targetClauseId: string | null;
+}
+
+export function isSamePairing(a: ClausePairing, b: ClausePairing): boolean {
+  return a.sourceClauseId === b.sourceClauseId && a.targetClauseId === b.targetClauseId;
+}
+
+/**
+ * `current` changed so each of `imposed` holds, in order. A clause whose partner is taken by
+ * an imposed pairing is left on its own: missing if it's a source clause, added if a target one.
+ */
+export function imposePairings(current: ClausePairing[], imposed: ClausePairing[]): ClausePairing[] {
+  let pairings = [...current];
+
+  for (const pairing of imposed) {
+    const kept: ClausePairing[] = [];
+    const released: ClausePairing[] = [];
+
+    for (const existing of pairings) {
+      const sharesSource = pairing.sourceClauseId !== null && existing.sourceClauseId === pairing.sourceClauseId;
+      const sharesTarget = pairing.targetClauseId !== null && existing.targetClauseId === pairing.targetClauseId;
+
+      if (!sharesSource && !sharesTarget) {
+        kept.push(existing);
+        continue;
+      }
+      if (existing.sourceClauseId && !sharesSource) {
+        released.push({ sourceClauseId: existing.sourceClauseId, targetClauseId: null });
+      }
+      if (existing.targetClauseId && !sharesTarget) {
+        released.push({ sourceClauseId: null, targetClauseId: existing.targetClauseId });
+      }
+    }
+
+    pairings = [...kept, ...released, pairing];
+  }
+
+  return pairings;
+}
+
+/**
+ * The pairings a reviewer's correction imposes, given the comparison's current clause comparisons
+ */
+export function correctionPairings(correction: ClausePairingInput, rows: ClauseComparison[]): ClausePairing[] {
+  switch (correction.action) {
+    case 'link':
+      return [{ sourceClauseId: correction.sourceClauseId, targetClauseId: correction.targetClauseId }];
+    case 'mark_missing':
+      return [{ sourceClauseId: correction.sourceClauseId, targetClauseId: null }];
+    case 'mark_added':
+      return [{ sourceClauseId: null, targetClauseId: correction.targetClauseId }];
+    case 'unlink': {
+      const row = rows.find(r => r.id === correction.clauseComparisonId);
+      if (!row) {
+        throw new ClausePairingError('Clause comparison not found in this comparison');
+      }
+      if (!row.sourceClauseId || !row.targetClauseId) {
+        throw new ClausePairingError('Only a pair of clauses can be unlinked');
+      }
+      return [
+        { sourceClauseId: row.sourceClauseId, targetClauseId: null },
+        { sourceClauseId: null, targetClauseId: row.targetClauseId },
+      ];
+    }
+  }
+}
+
+/**
+ * The matcher's result with stored corrections imposed on it. Corrections naming a clause
+ * that's no longer among the contracts' clauses (they were extracted again) are skipped.
+ */
+export function applyPairingOverrides(
+  matching: ClauseMatchingResult,
+  overrides: ClausePairing[],
+  sourceClauseIds: Set<string>,
+  targetClauseIds: Set<string>
+): ClauseMatchingResult {
+  const applicable = overrides.filter(override =>
+    (!override.sourceClauseId || sourceClauseIds.has(override.sourceClauseId)) &&
+    (!override.targetClauseId || targetClauseIds.has(override.targetClauseId))
+  );
+  if (applicable.length === 0) return matching;
+
+  // A split or merge an override touches falls apart into its main pair and unmatched clauses
+  const namedIds = new Set(applicable.flatMap(override => [override.sourceClauseId, override.targetClauseId]));
+  const releasedSource: string[] = [];
+  const releasedTarget: string[] = [];
+  const matches = matching.matches.map(match => {
+    const mergedSourceClauseIds = match.mergedSourceClauseIds ?? [];
+    const splitTargetClauseIds = match.splitTargetClauseIds ?? [];
+    const groupIds = [match.sourceClauseId, match.targetClauseId, ...mergedSourceClauseIds, ...splitTargetClauseIds];
+    if (mergedSourceClauseIds.length + splitTargetClauseIds.length === 0 || !groupIds.some(id => namedIds.has(id))) {
+      return match;
+    }
+    releasedSource.push(...mergedSourceClauseIds);
+    releasedTarget.push(...splitTargetClauseIds);
+    return { ...match, mergedSourceClauseIds: [], splitTargetClauseIds: [] };
+  });
+
+  const pairings = imposePairings([
+    ...matches.map(match => ({ sourceClauseId: match.sourceClauseId, targetClauseId: match.targetClauseId })),
+    ...[...matching.unmatchedSource, ...releasedSource].map(id => ({ sourceClauseId: id, targetClauseId: null })),
+    ...[...matching.unmatchedTarget, ...releasedTarget].map(id => ({ sourceClauseId: null, targetClauseId: id })),
+  ], applicable);
+
+  const result: ClauseMatchingResult = { matches: [], unmatchedSource: [], unmatchedTarget: [] };
+  for (const pairing of pairings) {
+    if (pairing.sourceClauseId && pairing.targetClauseId) {
+      const isOverride = applicable.some(override => isSamePairing(override, pairing));
+      const match = matches.find(m => isSamePairing(m, pairing));
+      result.matches.push(isOverride || !match
+        ? { sourceClauseId: pairing.sourceClauseId, targetClauseId: pairing.targetClauseId, ...REVIEWER_MATCH }
+        : match
+      );
+    } else if (pairing.sourceClauseId) {
+      result.unmatchedSource.push(pairing.sourceClauseId);
+    } else if (pairing.targetClauseId) {
+      result.unmatchedTarget.push(pairing.targetClauseId);
+    }
+  }
+
+  return result;
+}
+
+// ============ STORED CORRECTIONS ============
+
+/**
+ * A comparison's stored corrections, oldest first so later ones win when imposed in order
+ */
+export async function loadPairingOverrides(comparisonId: string): Promise<ClausePairing[]> {
+  return db
+    .select({
+      sourceClauseId: clausePairingOverrides.sourceClauseId,
+      targetClauseId: clausePairingOverrides.targetClauseId,
+    })
+    .from(clausePairingOverrides)
+    .where(eq(clausePairingOverrides.comparisonId, comparisonId))
+    .orderBy(asc(clausePairingOverrides.createdAt));
+}
+
+/**
+ * Store a correction's pairings, replacing any earlier correction about the same clauses
+ */
+export async function savePairingOverrides(
+  comparisonId: string,
+  pairings: ClausePairing[],
+  executor: DbExecutor = db
+): Promise<void> {
+  const sourceClauseIds = pairings.flatMap(p => p.sourceClauseId ?? []);
+  const targetClauseIds = pairings.flatMap(p => p.targetClauseId ?? []);
+
+  await executor
+    .delete(clausePairingOverrides)
+    .where(and(
+      eq(clausePairingOverrides.comparisonId, comparisonId),
+      or(
+        sourceClauseIds.length > 0 ? inArray(clausePairingOverrides.sourceClauseId, sourceClauseIds) : undefined,
+        targetClauseIds.length > 0 ? inArray(clausePairingOverrides.targetClauseId, targetClauseIds) : undefined
+      )
+    ));
+
+  await executor.insert(clausePairingOverrides).values(pairings.map(pairing => ({
+    id: uuidv4(),
+    comparisonId,
+    ...pairing,
+  })));
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import React, { createContext, useContext, useState, useCallback, useEffect, useMemo, ReactNode } from 'react';
+import { formatClauseType as formatClauseTypeKey } from '@/lib/utils';
+import type { ClauseTypeDefinition } from '@/lib/clause-taxonomy';
+
+interface ClauseTaxonomyContextType {
+  clauseTypes: ClauseTypeDefinition[];
+  isLoaded: boolean;
+  // Display name from the org's taxonomy; keys it doesn't know are shown in title case
+  formatClauseType: (type: string) => string;
+  refreshClauseTypes: () => Promise<void>;
+}
+
+const ClauseTaxonomyContext = createContext<ClauseTaxonomyContextType | undefined>(undefined);
+
+export function ClauseTaxonomyProvider({ children }: { children: ReactNode }) {
+  const [clauseTypes, setClauseTypes] = useState<ClauseTypeDefinition[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const refreshClauseTypes = useCallback(async () => {
+    try {
+      const response = await fetch('/api/clause-types');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch clause types');
+      }
+
+      setClauseTypes(data.clauseTypes);
+    } catch (error) {
+      console.error('Failed to load clause types:', error);
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshClauseTypes();
+  }, [refreshClauseTypes]);
+
+  const value = useMemo(() => {
+    const labels = Object.fromEntries(clauseTypes.map(clauseType => [clauseType.key, clauseType.displayName]));
+    return {
+      clauseTypes,
+      isLoaded,
+      formatClauseType: (type: string) => formatClauseTypeKey(type, labels),
+      refreshClauseTypes,
+    };
+  }, [clauseTypes, isLoaded, refreshClauseTypes]);
+
+  return (
+    <ClauseTaxonomyContext.Provider value={value}>
+      {children}
+    </ClauseTaxonomyContext.Provider>
+  );
+}
+
+export function useClauseTaxonomy() {
+  const context = useContext(ClauseTaxonomyContext);
+  if (context === undefined) {
+    throw new Error('useClauseTaxonomy must be used within a ClauseTaxonomyProvider');
+  }
+  return context;
+}
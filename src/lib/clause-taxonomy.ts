@@ -0,0 +1,196 @@
+/**
+ * Clause Taxonomy
+ * Each org's clause types: what extraction classifies clauses into, how they're labelled
+ * and the risk of losing one. An org starts from the default taxonomy.
+ */
+
+import { db, clauseTypes } from '@/lib/db';
+import type { ClauseType } from '@/lib/db';
+import type { ClauseTypeInput } from '@/lib/validations';
+import { asc, eq } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+// Risk score of a removed clause when its type doesn't say otherwise
+export const DEFAULT_MISSING_RISK = 50;
+
+// A clause type with its synonyms parsed, as the API returns it
+export type ClauseTypeDefinition = Omit<ClauseType, 'synonyms'> & { synonyms: string[] };
+
+// The taxonomy every org starts with
+export const DEFAULT_CLAUSE_TYPES: ClauseTypeInput[] = [
+  {
+    key: 'indemnification',
+    displayName: 'Indemnification',
+    description: 'Who compensates whom for third-party claims, losses and defence costs',
+    synonyms: ['indemnity', 'hold harmless'],
+    parentCategory: 'Risk Allocation',
+  },
+  {
+    key: 'limitation_of_liability',
+    displayName: 'Limitation of Liability',
+    description: 'Caps on damages and exclusions of indirect or consequential loss',
+    synonyms: ['liability cap', 'exclusion of liability'],
+    parentCategory: 'Risk Allocation',
+  },
+  {
+    key: 'warranties',
+    displayName: 'Warranties',
+    description: 'Representations and warranties, and any disclaimers of them',
+    synonyms: ['representations and warranties', 'disclaimer'],
+    parentCategory: 'Risk Allocation',
+  },
+  {
+    key: 'force_majeure',
+    displayName: 'Force Majeure',
+    description: 'Relief from performance for events beyond a party\'s control',
+    synonyms: ['excused performance'],
+    parentCategory: 'Risk Allocation',
+  },
+  {
+    key: 'ip_ownership',
+    displayName: 'IP Ownership',
+    description: 'Ownership, assignment and licensing of intellectual property',
+    synonyms: ['intellectual property', 'work product', 'licence grant'],
+    parentCategory: 'IP & Data',
+  },
+  {
+    key: 'confidentiality',
+    displayName: 'Confidentiality',
+    description: 'Protection, permitted use and disclosure of confidential information',
+    synonyms: ['non-disclosure', 'confidential information'],
+    parentCategory: 'IP & Data',
+  },
+  {
+    key: 'data_protection',
+    displayName: 'Data Protection',
+    description: 'Handling of personal data, security measures and privacy law compliance',
+    synonyms: ['privacy', 'data processing', 'GDPR'],
+    parentCategory: 'IP & Data',
+  },
+  {
+    key: 'payment_terms',
+    displayName: 'Payment Terms',
+    description: 'Fees, invoicing, payment deadlines, late payment and taxes',
+    synonyms: ['fees', 'compensation', 'invoicing'],
+    parentCategory: 'Commercial',
+  },
+  {
+    key: 'assignment',
+    displayName: 'Assignment',
+    description: 'Whether and how a party may transfer the agreement or its rights',
+    synonyms: ['transfer', 'subcontracting'],
+    parentCategory: 'Commercial',
+  },
+  {
+    key: 'term_and_renewal',
+    displayName: 'Term and Renewal',
+    description: 'How long the agreement runs and how it renews',
+    synonyms: ['term', 'duration', 'renewal'],
+    parentCategory: 'Term & Termination',
+  },
+  {
+    key: 'termination',
+    displayName: 'Termination',
+    description: 'Rights to end the agreement, notice periods and effects of termination',
+    synonyms: ['termination for cause', 'termination for convenience'],
+    parentCategory: 'Term & Termination',
+  },
+  {
+    key: 'governing_law',
+    displayName: 'Governing Law',
+    description: 'The law that governs the agreement and the courts with jurisdiction',
+    synonyms: ['choice of law', 'jurisdiction'],
+    parentCategory: 'Disputes',
+  },
+  {
+    key: 'dispute_resolution',
+    displayName: 'Dispute Resolution',
+    description: 'Escalation, mediation and arbitration of disputes',
+    synonyms: ['arbitration', 'mediation', 'escalation'],
+    parentCategory: 'Disputes',
+  },
+  {
+    key: 'non_compete',
+    displayName: 'Non-Compete',
+    description: 'Restrictions on competing with the other party',
+    synonyms: ['non-competition', 'restrictive covenant'],
+    parentCategory: 'Restrictive Covenants',
+  },
+  {
+    key: 'non_solicitation',
+    displayName: 'Non-Solicitation',
+    description: 'Restrictions on soliciting the other party\'s staff or customers',
+    synonyms: ['no-hire', 'non-solicit'],
+    parentCategory: 'Restrictive Covenants',
+  },
+];
+
+function parseSynonyms(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toClauseTypeDefinition(clauseType: ClauseType): ClauseTypeDefinition {
+  return { ...clauseType, synonyms: parseSynonyms(clauseType.synonyms) };
+}
+
+// Column values for a clause type, for inserts and full updates
+export function clauseTypeValues(input: ClauseTypeInput) {
+  return {
+    displayName: input.displayName,
+    description: input.description || null,
+    synonyms: input.synonyms && input.synonyms.length > 0 ? JSON.stringify(input.synonyms) : null,
+    parentCategory: input.parentCategory || null,
+    missingRisk: input.missingRisk ?? DEFAULT_MISSING_RISK,
+    extractionHints: input.extractionHints || null,
+  };
+}
+
+/**
+ * Get an org's clause types in display order, giving it the default taxonomy if it has none
+ */
+export async function getClauseTaxonomy(orgId: string): Promise<ClauseTypeDefinition[]> {
+  const query = () => db
+    .select()
+    .from(clauseTypes)
+    .where(eq(clauseTypes.orgId, orgId))
+    .orderBy(asc(clauseTypes.sortOrder), asc(clauseTypes.displayName));
+
+  let entries = await query();
+
+  if (entries.length === 0) {
+    // Another request may be seeding the same org; the unique (org, key) index keeps one copy
+    await db
+      .insert(clauseTypes)
+      .values(DEFAULT_CLAUSE_TYPES.map((input, index) => ({
+        id: uuidv4(),
+        orgId,
+        key: input.key,
+        ...clauseTypeValues(input),
+        sortOrder: input.sortOrder ?? index,
+      })))
+      .onConflictDoNothing();
+
+    entries = await query();
+  }
+
+  return entries.map(toClauseTypeDefinition);
+}
+
+/**
+ * Keys among `keys` that aren't in the org's taxonomy
+ */
+export async function findUnknownClauseTypes(orgId: string, keys: string[]): Promise<string[]> {
+  const knownKeys = new Set((await getClauseTaxonomy(orgId)).map(entry => entry.key));
+  return [...new Set(keys)].filter(key => !knownKeys.has(key));
+}
+
+// Display names by key, for formatClauseType
+export function clauseTypeLabels(taxonomy: ClauseTypeDefinition[]): Record<string, string> {
+  return Object.fromEntries(taxonomy.map(entry => [entry.key, entry.displayName]));
+}
@@ -0,0 +1,1024 @@
+/**
+ * Comparison Pipeline
+ * Extraction, matching, risk scoring and summary for a queued comparison, and reviewers'
+ * corrections to a finished comparison's clause pairings
+ */
+
+import { db, contracts, clauses, comparisons, clauseComparisons, keyTermChanges } from '@/lib/db';
+import type { Comparison, Contract, Clause, DbExecutor } from '@/lib/db';
+import { and, eq, inArray, ne } from 'drizzle-orm';
+import { analyzeClauseRisk, generateComparisonSummary, matchClausesSemantically, generateSemanticTags } from '@/lib/casedev';
+import type { ClauseMatch } from '@/lib/casedev';
+import { ensureClausePositions, extractAndSaveClauses } from '@/lib/clause-extraction';
+import { findUncoveredRegions, UNCLASSIFIED_CLAUSE_TYPE } from '@/lib/document-coverage';
+import { DEFAULT_MISSING_RISK, getClauseTaxonomy } from '@/lib/clause-taxonomy';
+import { diffDefinedTerms, extractDefinedTerms, findChangedTermsUsed, type DefinitionChange } from '@/lib/defined-terms';
+import { diffKeyTerms } from '@/lib/key-terms';
+import { combineClauseContent, detectSplitsAndMerges, parseClauseIds } from '@/lib/clause-groups';
+import { checkClauseMatches, matchClausesLocally } from '@/lib/clause-matching';
+import {
+  clauseLayout,
+  parseBrokenCrossReferences,
+  type BrokenCrossReference,
+  type ClauseLayout,
+  type LayoutRow,
+} from '@/lib/clause-movement';
+import type { TextSpan } from '@/lib/clause-alignment';
+import { calculateOverallRisk, normalizeTextForComparison, stripSectionNumber, type PartyRole, type PipelineStage } from '@/lib/utils';
+import { loadPlaybookForComparison } from '@/lib/playbooks';
+import {
+  applyPairingOverrides,
+  ClausePairingError,
+  type ClausePairing,
+  correctionPairings,
+  imposePairings,
+  isSamePairing,
+  loadPairingOverrides,
+  REVIEWER_MATCH,
+  savePairingOverrides,
+} from '@/lib/clause-pairing';
+import type { ClausePairingInput } from '@/lib/validations';
+import { publishComparisonProgress, publishComparisonStatus } from '@/lib/events';
+import { enqueueComparisonJob } from '@/lib/jobs';
+import { v4 as uuidv4 } from 'uuid';
+import * as Diff from 'diff';
+
+/**
+ * Raised inside the pipeline once its comparison has been cancelled
+ */
+export class ComparisonCancelledError extends Error {
+  constructor(comparisonId: string) {
+    super(`Comparison cancelled: ${comparisonId}`);
+    this.name = 'ComparisonCancelledError';
+  }
+}
+
+// Clause-level outcome the summary and overall risk are built from
+interface ClauseComparisonResult {
+  clauseType: string;
+  status: string;
+  riskScore?: number;
+  summary?: string;
+}
+
+// ============ PROGRESS ============
+
+// Slice of the progress bar each stage fills; extraction and risk analysis are the slow ones
+const STAGE_PROGRESS: Record<PipelineStage, [number, number]> = {
+  extracting_source: [0, 20],
+  extracting_target: [20, 40],
+  matching: [40, 50],
+  risk_analysis: [50, 90],
+  summary: [90, 95],
+  tags: [95, 100],
+};
+
+// Record the stage a comparison has reached; `current` of `total` fills the stage's slice
+async function reportProgress(
+  comparisonId: string,
+  stage: PipelineStage,
+  current: number | null = null,
+  total: number | null = null
+) {
+  const [start, end] = STAGE_PROGRESS[stage];
+  const progressPercent = Math.round(total ? start + ((end - start) * (current ?? 0)) / total : start);
+
+  const [comparison] = await db
+    .update(comparisons)
+    .set({
+      progressStage: stage,
+      progressCurrent: current,
+      progressTotal: total,
+      progressPercent,
+      progressUpdatedAt: new Date(),
+    })
+    .where(and(eq(comparisons.id, comparisonId), eq(comparisons.comparisonStatus, 'processing')))
+    .returning();
+
+  if (comparison) {
+    await publishComparisonProgress(comparison);
+  }
+}
+
+// ============ CLAUSE EXTRACTION ============
+
+// Reuse a contract's clauses once extracted (a retry after a later stage failed
+// must not pay for extraction again), otherwise extract them from its stored text.
+// An uploaded contract is completed as soon as its text is read, before it has any clauses.
+async function prepareContractClauses(contract: Contract, signal?: AbortSignal): Promise<Clause[]> {
+  if (contract.ingestionStatus === 'completed') {
+    const existing = await db.select().from(clauses).where(eq(clauses.contractId, contract.id));
+    if (existing.length > 0) {
+      // Finding changes outside the clauses needs to know where each clause is
+      return contract.rawText ? ensureClausePositions(contract.rawText, existing) : existing;
+    }
+  }
+
+  if (!contract.rawText) {
+    throw new Error(`Contract "${contract.name}" has no text to extract clauses from`);
+  }
+
+  await db
+    .update(contracts)
+    .set({ ingestionStatus: 'processing' })
+    .where(eq(contracts.id, contract.id));
+
+  return extractAndSaveClauses(contract, contract.rawText, signal);
+}
+
+// ============ MATCHING AND RISK ============
+
+// Each changed region outside the clauses costs a risk analysis call; beyond this many the
+// documents barely share any text and a region-by-region review isn't useful anyway
+const MAX_UNCLASSIFIED_REGIONS = 30;
+
+// Risk analysis prompt wording for a region no clause covers
+const UNCLASSIFIED_RISK_LABEL = 'unclassified text outside the extracted clauses (e.g. recitals, definitions, boilerplate)';
+
+// A clause comparison on its way to being stored
+interface ClauseComparisonData {
+  clauseType: string;
+  sourceClauseId: string | null;
+  targetClauseId: string | null;
+  status: string;
+  riskScore?: number;
+  riskFactors?: string[];
+  deviationPercentage?: number;
+  diffSummary?: string;
+  // For risk analysis; cleared once analyzed
+  needsRiskAnalysis?: boolean;
+  sourceContent?: string;
+  targetContent?: string;
+  // Where an 'other' row's text sits in each contract
+  sourceSpan?: TextSpan;
+  targetSpan?: TextSpan;
+  // Redefined terms the clause uses
+  definitionChanges?: DefinitionChange[];
+  // How the two clauses came to be paired
+  matchConfidence?: number;
+  matchReason?: string;
+  // The rest of a merge's original clauses or a split's revised ones
+  mergedSourceClauseIds?: string[];
+  splitTargetClauseIds?: string[];
+  // Where the clauses sit in each contract
+  sourceSectionNumber?: string | null;
+  targetSectionNumber?: string | null;
+  moved?: boolean;
+  brokenCrossReferences?: BrokenCrossReference[];
+}
+
+// Where a contract's located clauses sit in its text
+function clauseSpans(contractClauses: Clause[]): TextSpan[] {
+  return contractClauses
+    .filter(c => c.startPosition !== null && c.endPosition !== null)
+    .map(c => ({ start: c.startPosition!, end: c.endPosition! }));
+}
+
+// A row's clauses on one side: the one clause, or all of a merge's or a split's
+function rowClauses(clauseId: string | null, groupIds: string[] | undefined, clausesById: Map<string, Clause>): Clause[] {
+  if (!clauseId) return [];
+  return [clauseId, ...(groupIds ?? [])].flatMap(id => clausesById.get(id) ?? []);
+}
+
+function withoutSectionNumber(clause: Clause): Clause {
+  return { ...clause, content: stripSectionNumber(clause.content) };
+}
+
+// A removed clause scores its type's missing-clause risk from the org's taxonomy
+async function loadMissingRisk(orgId: string): Promise<(clauseType: string) => number> {
+  const missingRiskByType = new Map(
+    (await getClauseTaxonomy(orgId)).map(clauseType => [clauseType.key, clauseType.missingRisk])
+  );
+  return (clauseType: string) => missingRiskByType.get(clauseType) ?? DEFAULT_MISSING_RISK;
+}
+
+function missingRow(sourceClause: Clause, missingRisk: (clauseType: string) => number): ClauseComparisonData {
+  return {
+    clauseType: sourceClause.clauseType,
+    sourceClauseId: sourceClause.id,
+    targetClauseId: null,
+    status: 'missing',
+    riskScore: missingRisk(sourceClause.clauseType),
+    diffSummary: 'This clause is missing from the redlined version.',
+  };
+}
+
+function addedRow(targetClause: Clause): ClauseComparisonData {
+  return {
+    clauseType: targetClause.clauseType,
+    sourceClauseId: null,
+    targetClauseId: targetClause.id,
+    status: 'added',
+    riskScore: 50,
+    diffSummary: 'This clause was added in the redlined version.',
+  };
+}
+
+// A matched pair, or a split or merge compared by its clauses' combined text: identical once
+// normalized, or queued for risk analysis with its change size
+function pairedRow(
+  sourceClauseId: string,
+  targetClauseId: string,
+  match: Pick<ClauseMatch, 'matchConfidence' | 'matchReason' | 'mergedSourceClauseIds' | 'splitTargetClauseIds'>,
+  sourceClausesById: Map<string, Clause>,
+  targetClausesById: Map<string, Clause>
+): ClauseComparisonData {
+  const sourceGroup = rowClauses(sourceClauseId, match.mergedSourceClauseIds, sourceClausesById);
+  const targetGroup = rowClauses(targetClauseId, match.splitTargetClauseIds, targetClausesById);
+
+  // Normalize content before comparison; a renumbered clause isn't changed by its new number
+  const sourceContent = normalizeTextForComparison(combineClauseContent(sourceGroup.map(withoutSectionNumber)));
+  const targetContent = normalizeTextForComparison(combineClauseContent(targetGroup.map(withoutSectionNumber)));
+  const pairing = {
+    clauseType: sourceClausesById.get(sourceClauseId)!.clauseType,
+    sourceClauseId,
+    targetClauseId,
+    matchConfidence: match.matchConfidence,
+    matchReason: match.matchReason,
+    mergedSourceClauseIds: match.mergedSourceClauseIds?.length ? match.mergedSourceClauseIds : undefined,
+    splitTargetClauseIds: match.splitTargetClauseIds?.length ? match.splitTargetClauseIds : undefined,
+  };
+
+  if (sourceContent === targetContent) {
+    return { ...pairing, status: 'identical', riskScore: 0 };
+  }
+
+  // Calculate change ratio
+  const diff = Diff.diffWords(sourceContent, targetContent);
+  const changes = diff.filter((part) => part.added || part.removed);
+  const totalChars = diff.reduce((sum, part) => sum + part.value.length, 0);
+  const changedChars = changes.reduce((sum, part) => sum + part.value.length, 0);
+  const changeRatio = totalChars > 0 ? changedChars / totalChars : 0;
+
+  return {
+    ...pairing,
+    status: changeRatio < 0.20 ? 'minor_change' : 'significant_change',
+    needsRiskAnalysis: true,
+    sourceContent,
+    targetContent,
+  };
+}
+
+// A clause also changes meaning when a term it uses is redefined, even if its own text is
+// unchanged. Those clauses are flagged and their risk is analyzed with the definitions in hand.
+function flagRedefinedTerms(
+  rows: ClauseComparisonData[],
+  sourceContract: Contract,
+  targetContract: Contract,
+  sourceClausesById: Map<string, Clause>,
+  targetClausesById: Map<string, Clause>
+) {
+  if (!sourceContract.rawText || !targetContract.rawText) return;
+
+  const changedDefinitions = diffDefinedTerms(
+    extractDefinedTerms(sourceContract.rawText),
+    extractDefinedTerms(targetContract.rawText)
+  );
+
+  for (const data of rows) {
+    if (!data.sourceClauseId || !data.targetClauseId || data.status === 'other') continue;
+    const sourceContent = combineClauseContent(rowClauses(data.sourceClauseId, data.mergedSourceClauseIds, sourceClausesById));
+    const targetContent = combineClauseContent(rowClauses(data.targetClauseId, data.splitTargetClauseIds, targetClausesById));
+
+    const used = findChangedTermsUsed(`${sourceContent}\n\n${targetContent}`, changedDefinitions);
+    if (used.length === 0) continue;
+
+    data.definitionChanges = used;
+    if (!data.needsRiskAnalysis) {
+      data.needsRiskAnalysis = true;
+      data.sourceContent = normalizeTextForComparison(sourceContent);
+      data.targetContent = normalizeTextForComparison(targetContent);
+    }
+  }
+}
+
+// A clause comparison's clauses on each side, for working out where they sit
+function layoutRow(row: {
+  sourceClauseId: string | null;
+  targetClauseId: string | null;
+  mergedSourceClauseIds?: string[];
+  splitTargetClauseIds?: string[];
+}): LayoutRow {
+  return {
+    sourceClauseIds: row.sourceClauseId ? [row.sourceClauseId, ...(row.mergedSourceClauseIds ?? [])] : [],
+    targetClauseIds: row.targetClauseId ? [row.targetClauseId, ...(row.splitTargetClauseIds ?? [])] : [],
+  };
+}
+
+// Record each row's section numbers, whether it moved and the cross-references its revised text
+// gets wrong. Rows for changes outside the clauses have no place of their own.
+function flagClauseLayout(
+  rows: ClauseComparisonData[],
+  sourceClausesById: Map<string, Clause>,
+  targetClausesById: Map<string, Clause>
+) {
+  const clauseRows = rows.filter(row => row.status !== 'other');
+  const layouts = clauseLayout(clauseRows.map(layoutRow), sourceClausesById, targetClausesById);
+  clauseRows.forEach((row, index) => Object.assign(row, layouts[index]));
+}
+
+// A row's layout as stored
+function layoutColumns(layout: Partial<ClauseLayout>) {
+  return {
+    sourceSectionNumber: layout.sourceSectionNumber ?? null,
+    targetSectionNumber: layout.targetSectionNumber ?? null,
+    moved: layout.moved ?? false,
+    brokenCrossReferences: layout.brokenCrossReferences?.length ? JSON.stringify(layout.brokenCrossReferences) : null,
+  };
+}
+
+// Analyze the risk of every row that needs it, in parallel, and score the rows from the results
+async function analyzeRows(
+  comparison: Comparison,
+  rows: ClauseComparisonData[],
+  signal?: AbortSignal,
+  reportAnalyzed?: (analyzed: number, total: number) => Promise<void>
+) {
+  // Score and word findings from our side of the deal, when the reviewer gave it
+  const partyRole = comparison.partyRole as PartyRole | null;
+
+  const clausesNeedingAnalysis = rows.filter(c => c.needsRiskAnalysis);
+
+  if (clausesNeedingAnalysis.length === 0) return;
+
+  // Score against the org's playbook positions where it has any for the clause type
+  const playbookRulesByType = await loadPlaybookForComparison(comparison.id);
+
+  // Progress writes are chained so a slower write can't overwrite a later count
+  let analyzedCount = 0;
+  let progressWrite = reportAnalyzed?.(0, clausesNeedingAnalysis.length) ?? Promise.resolve();
+
+  const riskAnalysisPromises = clausesNeedingAnalysis.map(clause =>
+    analyzeClauseRisk(
+      clause.sourceContent || '(not present)',
+      clause.targetContent || '(not present)',
+      clause.status === 'other' ? UNCLASSIFIED_RISK_LABEL : clause.clauseType,
+      {
+        playbookRules: playbookRulesByType.get(clause.clauseType),
+        partyRole,
+        definitionChanges: clause.definitionChanges,
+        signal,
+      }
+    )
+      .then(result => {
+        const analyzed = ++analyzedCount;
+        if (reportAnalyzed) {
+          progressWrite = progressWrite.then(() => reportAnalyzed(analyzed, clausesNeedingAnalysis.length));
+        }
+        return { clause, result };
+      })
+  );
+
+  const riskResults = await Promise.all(riskAnalysisPromises);
+  await progressWrite;
+  signal?.throwIfAborted();
+
+  // Update clause data with risk analysis results
+  for (const { clause, result } of riskResults) {
+    clause.needsRiskAnalysis = false;
+    if (result.data) {
+      clause.riskScore = result.data.risk_score;
+      clause.riskFactors = result.data.risk_factors;
+      clause.deviationPercentage = result.data.deviation_percentage;
+      clause.diffSummary = result.data.summary;
+    } else if (clause.status === 'other') {
+      clause.riskScore = 50;
+      clause.diffSummary = 'Changes detected in text outside the extracted clauses.';
+    } else if (clause.status === 'identical') {
+      clause.riskScore = 25;
+      clause.diffSummary = `Definitions used in this clause changed: ${clause.definitionChanges!.map(change => `"${change.term}"`).join(', ')}.`;
+    } else {
+      clause.riskScore = clause.status === 'minor_change' ? 25 : 60;
+      clause.diffSummary = `Changes detected in ${clause.clauseType} clause.`;
+    }
+  }
+}
+
+// BATCH INSERT: store the rows along with the figures and dates that differ within each changed pair
+async function insertRows(comparisonId: string, rows: ClauseComparisonData[], executor: DbExecutor = db) {
+  const clauseComparisonInserts = rows.map(c => ({
+    id: uuidv4(),
+    comparisonId,
+    clauseType: c.clauseType,
+    sourceClauseId: c.sourceClauseId,
+    targetClauseId: c.targetClauseId,
+    status: c.status,
+    riskScore: c.riskScore || null,
+    riskFactors: c.riskFactors ? JSON.stringify(c.riskFactors) : null,
+    deviationPercentage: c.deviationPercentage || null,
+    diffSummary: c.diffSummary || null,
+    sourceStartPosition: c.sourceSpan?.start ?? null,
+    sourceEndPosition: c.sourceSpan?.end ?? null,
+    targetStartPosition: c.targetSpan?.start ?? null,
+    targetEndPosition: c.targetSpan?.end ?? null,
+    definitionChanges: c.definitionChanges ? JSON.stringify(c.definitionChanges) : null,
+    matchConfidence: c.matchConfidence ?? null,
+    matchReason: c.matchReason || null,
+    mergedSourceClauseIds: c.mergedSourceClauseIds ? JSON.stringify(c.mergedSourceClauseIds) : null,
+    splitTargetClauseIds: c.splitTargetClauseIds ? JSON.stringify(c.splitTargetClauseIds) : null,
+    ...layoutColumns(c),
+    needsRiskAnalysis: c.needsRiskAnalysis ?? false,
+  }));
+
+  // Key terms are read straight from the text
+  const keyTermChangeInserts = rows.flatMap((c, index) => {
+    if (c.status === 'identical' || !c.sourceContent || !c.targetContent) return [];
+    return diffKeyTerms(c.sourceContent, c.targetContent).map((change, position) => ({
+      id: uuidv4(),
+      comparisonId,
+      clauseComparisonId: clauseComparisonInserts[index].id,
+      ...change,
+      position,
+    }));
+  });
+
+  if (clauseComparisonInserts.length > 0) {
+    await executor.insert(clauseComparisons).values(clauseComparisonInserts);
+  }
+
+  if (keyTermChangeInserts.length > 0) {
+    await executor.insert(keyTermChanges).values(keyTermChangeInserts);
+  }
+}
+
+// Pair the two contracts' clauses, score every change and store the clause comparisons
+async function scoreClauses(
+  comparison: Comparison,
+  sourceContract: Contract,
+  targetContract: Contract,
+  sourceClauses: Clause[],
+  targetClauses: Clause[],
+  signal?: AbortSignal
+): Promise<ClauseComparisonResult[]> {
+  const comparisonId = comparison.id;
+  const missingRisk = await loadMissingRisk(comparison.orgId);
+
+  // Sort clauses by type for deterministic ordering
+  // This ensures consistent processing order regardless of database retrieval order
+  const sortedSourceClauses = [...sourceClauses].sort((a, b) => 
+    a.clauseType.localeCompare(b.clauseType) || a.id.localeCompare(b.id)
+  );
+  const sortedTargetClauses = [...targetClauses].sort((a, b) => 
+    a.clauseType.localeCompare(b.clauseType) || a.id.localeCompare(b.id)
+  );
+  // Use semantic matching to pair clauses by meaning, not just by type
+  const sourceClausesForMatching = sortedSourceClauses.map(c => ({
+    id: c.id,
+    clauseType: c.clauseType,
+    title: c.title || c.clauseType,
+    content: c.content,
+  }));
+  
+  const targetClausesForMatching = sortedTargetClauses.map(c => ({
+    id: c.id,
+    clauseType: c.clauseType,
+    title: c.title || c.clauseType,
+    content: c.content,
+  }));
+
+  // Get semantic matches from LLM
+  await reportProgress(comparisonId, 'matching');
+  const matchingResult = await matchClausesSemantically(
+    sourceClausesForMatching,
+    targetClausesForMatching,
+    signal
+  );
+  signal?.throwIfAborted();
+  
+  if (!matchingResult.data) {
+    console.warn('Semantic matching failed, falling back to local matching:', matchingResult.error);
+  }
+
+  // The model's matches are checked against the local assignment, which also pairs what the
+  // model left unmatched. Splits and merges show up as clauses left unmatched on both sides;
+  // pairings a reviewer corrected on this comparison before win over the matcher's.
+  const matching = applyPairingOverrides(
+    detectSplitsAndMerges(
+      matchingResult.data
+        ? checkClauseMatches(matchingResult.data, sortedSourceClauses, sortedTargetClauses)
+        : matchClausesLocally(sortedSourceClauses, sortedTargetClauses),
+      sortedSourceClauses,
+      sortedTargetClauses
+    ),
+    await loadPairingOverrides(comparisonId),
+    new Set(sourceClauses.map(c => c.id)),
+    new Set(targetClauses.map(c => c.id))
+  );
+
+  // Create maps for quick lookup
+  const sourceClausesById = new Map(sourceClauses.map(c => [c.id, c]));
+  const targetClausesById = new Map(targetClauses.map(c => [c.id, c]));
+
+  // Prepare all clause comparison data - just compute diff status, queue LLM calls
+  const clauseComparisonData: ClauseComparisonData[] = [];
+
+  for (const match of matching.matches) {
+    const sourceClause = sourceClausesById.get(match.sourceClauseId);
+    const targetClause = match.targetClauseId ? targetClausesById.get(match.targetClauseId) : undefined;
+
+    if (!sourceClause) continue;
+
+    clauseComparisonData.push(
+      targetClause
+        ? pairedRow(sourceClause.id, targetClause.id, match, sourceClausesById, targetClausesById)
+        : missingRow(sourceClause, missingRisk)
+    );
+  }
+
+  // Add unmatched source clauses (missing in target)
+  for (const sourceId of matching.unmatchedSource) {
+    const sourceClause = sourceClausesById.get(sourceId);
+    if (sourceClause) clauseComparisonData.push(missingRow(sourceClause, missingRisk));
+  }
+
+  // Add unmatched target clauses (added in target)
+  for (const targetId of matching.unmatchedTarget) {
+    const targetClause = targetClausesById.get(targetId);
+    if (targetClause) clauseComparisonData.push(addedRow(targetClause));
+  }
+
+  flagRedefinedTerms(clauseComparisonData, sourceContract, targetContract, sourceClausesById, targetClausesById);
+  flagClauseLayout(clauseComparisonData, sourceClausesById, targetClausesById);
+  // Changes no extracted clause covers (a recital, a definition, boilerplate) get a row each.
+  // A clause that couldn't be located counts as uncovered text, so its changes may show here too.
+  if (sourceContract.rawText && targetContract.rawText) {
+    const regions = findUncoveredRegions(
+      sourceContract.rawText,
+      targetContract.rawText,
+      clauseSpans(sourceClauses),
+      clauseSpans(targetClauses)
+    );
+
+    if (regions.length > MAX_UNCLASSIFIED_REGIONS) {
+      console.warn(
+        `Comparison ${comparisonId}: ${regions.length} changed regions outside the clauses, analyzing the first ${MAX_UNCLASSIFIED_REGIONS}`
+      );
+    }
+
+    for (const region of regions.slice(0, MAX_UNCLASSIFIED_REGIONS)) {
+      clauseComparisonData.push({
+        clauseType: UNCLASSIFIED_CLAUSE_TYPE,
+        sourceClauseId: null,
+        targetClauseId: null,
+        status: 'other',
+        needsRiskAnalysis: true,
+        sourceContent: sourceContract.rawText.slice(region.source.start, region.source.end),
+        targetContent: targetContract.rawText.slice(region.target.start, region.target.end),
+        sourceSpan: region.source,
+        targetSpan: region.target,
+      });
+    }
+  }
+
+  // PARALLEL RISK ANALYSIS: Analyze all changed clauses at once
+  await analyzeRows(comparison, clauseComparisonData, signal, (analyzed, total) =>
+    reportProgress(comparisonId, 'risk_analysis', analyzed, total)
+  );
+
+  // A retried job replaces whatever an earlier attempt managed to write; key term changes go with their rows
+  await db.delete(clauseComparisons).where(eq(clauseComparisons.comparisonId, comparisonId));
+  await insertRows(comparisonId, clauseComparisonData);
+
+  // Prepare results for summary generation
+  return clauseComparisonData.map(c => ({
+    clauseType: c.clauseType,
+    status: c.status,
+    riskScore: c.riskScore,
+    summary: c.diffSummary,
+  }));
+}
+
+// Clause comparisons an earlier attempt already stored, so a retry can go straight to the summary
+async function loadScoredClauses(comparisonId: string): Promise<ClauseComparisonResult[]> {
+  const stored = await db
+    .select()
+    .from(clauseComparisons)
+    .where(eq(clauseComparisons.comparisonId, comparisonId));
+
+  return stored.map(c => ({
+    clauseType: c.clauseType,
+    status: c.status,
+    riskScore: c.riskScore ?? 0, // every result is scored; a score of 0 is stored as null
+    summary: c.diffSummary ?? undefined,
+  }));
+}
+
+// ============ SUMMARY ============
+
+interface ComparisonOverview {
+  overallRiskScore: number;
+  summary: string | null;
+  semanticTags: string | null;
+}
+
+// Overall risk, executive summary and tags from the clause-level results
+async function comparisonOverview(
+  comparison: Comparison,
+  sourceContract: Contract,
+  targetContract: Contract,
+  clauseComparisonResults: ClauseComparisonResult[],
+  signal?: AbortSignal,
+  reportStage?: (stage: PipelineStage) => Promise<void>
+): Promise<ComparisonOverview> {
+  const partyRole = comparison.partyRole as PartyRole | null;
+
+  // Sort by clause type for consistent ordering
+  clauseComparisonResults.sort((a, b) => a.clauseType.localeCompare(b.clauseType));
+
+  // Calculate overall risk score
+  const riskScores = clauseComparisonResults
+    .filter((c) => c.riskScore !== undefined)
+    .map((c) => c.riskScore as number);
+  const overallRiskScore = calculateOverallRisk(riskScores);
+
+  // PARALLEL: Generate summary and tags at the same time
+  await reportStage?.('summary');
+  const [summaryResult, tagsResult] = await Promise.all([
+    generateComparisonSummary(
+      sourceContract.name,
+      targetContract.name,
+      clauseComparisonResults,
+      partyRole,
+      signal
+    ).then(async result => {
+      await reportStage?.('tags');
+      return result;
+    }),
+    generateSemanticTags(
+      sourceContract.name,
+      targetContract.name,
+      null, // Can't use summary here since they run in parallel
+      clauseComparisonResults.map(c => c.clauseType),
+      overallRiskScore,
+      signal
+    ),
+  ]);
+  signal?.throwIfAborted();
+
+  return {
+    overallRiskScore,
+    summary: summaryResult.data || null,
+    semanticTags: tagsResult.data ? JSON.stringify(tagsResult.data) : null,
+  };
+}
+
+// Overall risk, executive summary and tags, then mark the comparison completed
+async function summarizeComparison(
+  comparison: Comparison,
+  sourceContract: Contract,
+  targetContract: Contract,
+  clauseComparisonResults: ClauseComparisonResult[],
+  signal?: AbortSignal
+) {
+  const comparisonId = comparison.id;
+
+  const overview = await comparisonOverview(
+    comparison,
+    sourceContract,
+    targetContract,
+    clauseComparisonResults,
+    signal,
+    stage => reportProgress(comparisonId, stage)
+  );
+
+  // Update comparison with overall risk, summary, tags, and completed status
+  const [completed] = await db
+    .update(comparisons)
+    .set({
+      ...overview,
+      comparisonStatus: 'completed',
+      progressPercent: 100,
+      progressUpdatedAt: new Date(),
+      completedAt: new Date(),
+    })
+    .where(and(eq(comparisons.id, comparisonId), eq(comparisons.comparisonStatus, 'processing')))
+    .returning();
+
+  // Cancelled after the last LLM call returned
+  if (!completed) {
+    throw new ComparisonCancelledError(comparisonId);
+  }
+
+  await publishComparisonStatus(completed);
+}
+
+// ============ CORRECTIONS ============
+
+// A contract's clauses by id
+async function loadClausesById(contractId: string, executor: DbExecutor = db): Promise<Map<string, Clause>> {
+  const contractClauses = await executor.select().from(clauses).where(eq(clauses.contractId, contractId));
+  return new Map(contractClauses.map(c => [c.id, c]));
+}
+
+/**
+ * Apply a reviewer's correction to a completed comparison's clause pairings. The comparison is
+ * locked while its rows are re-paired, so corrections made at the same time apply one after the
+ * other. Clause comparisons the correction changes are stored unscored and the comparison goes
+ * back to processing with a job queued to analyze them and rebuild the overall risk and summary;
+ * a correction that changes no pairing leaves it completed.
+ * The correction is stored, so scoring the comparison again keeps it.
+ * Returns the comparison, or null when it isn't completed (or is gone). Throws
+ * ClausePairingError when the correction names clauses that aren't in the comparison.
+ */
+export async function correctClausePairing(
+  comparisonId: string,
+  correction: ClausePairingInput
+): Promise<Comparison | null> {
+  const corrected = await db.transaction(async tx => {
+    const [comparison] = await tx
+      .select()
+      .from(comparisons)
+      .where(eq(comparisons.id, comparisonId))
+      .for('update');
+
+    if (!comparison || comparison.comparisonStatus !== 'completed') return null;
+
+    const [sourceContract] = await tx.select().from(contracts).where(eq(contracts.id, comparison.sourceContractId));
+    const [targetContract] = await tx.select().from(contracts).where(eq(contracts.id, comparison.targetContractId));
+
+    if (!sourceContract || !targetContract) {
+      throw new Error('One or both contracts not found');
+    }
+
+    const sourceClausesById = await loadClausesById(sourceContract.id, tx);
+    const targetClausesById = await loadClausesById(targetContract.id, tx);
+
+    const rows = await tx
+      .select()
+      .from(clauseComparisons)
+      .where(eq(clauseComparisons.comparisonId, comparisonId));
+
+    const imposed = correctionPairings(correction, rows);
+    for (const pairing of imposed) {
+      if (pairing.sourceClauseId && !sourceClausesById.has(pairing.sourceClauseId)) {
+        throw new ClausePairingError('Source clause not found in the original contract');
+      }
+      if (pairing.targetClauseId && !targetClausesById.has(pairing.targetClauseId)) {
+        throw new ClausePairingError('Target clause not found in the revised contract');
+      }
+    }
+
+    // Rows for changes outside the clauses aren't pairings and stay as they are
+    const pairedRows = rows.filter(row => row.status !== 'other');
+
+    // A split or merge the correction touches falls apart: its main pair stays, for now, and its
+    // other clauses are left unmatched
+    const brokenGroups = pairedRows.filter(row => {
+      const sourceIds = [row.sourceClauseId, ...parseClauseIds(row.mergedSourceClauseIds)];
+      const targetIds = [row.targetClauseId, ...parseClauseIds(row.splitTargetClauseIds)];
+      return sourceIds.length + targetIds.length > 2 && imposed.some(pairing =>
+        (pairing.sourceClauseId && sourceIds.includes(pairing.sourceClauseId)) ||
+        (pairing.targetClauseId && targetIds.includes(pairing.targetClauseId))
+      );
+    });
+
+    // Imposing a pairing the comparison already has, e.g. marking a missing clause missing, changes
+    // nothing; confirming a pair the matcher made only changes how it was matched
+    const unchangedRows = pairedRows.filter(row =>
+      !brokenGroups.includes(row) && imposed.some(pairing => isSamePairing(pairing, row))
+    );
+    const confirmedRows = unchangedRows.filter(row => row.sourceClauseId && row.targetClauseId);
+    if (confirmedRows.length > 0) {
+      await tx
+        .update(clauseComparisons)
+        .set(REVIEWER_MATCH)
+        .where(inArray(clauseComparisons.id, confirmedRows.map(row => row.id)));
+    }
+
+    const current: ClausePairing[] = pairedRows.flatMap(row => !brokenGroups.includes(row) ? [row] : [
+      { sourceClauseId: row.sourceClauseId, targetClauseId: row.targetClauseId },
+      ...parseClauseIds(row.mergedSourceClauseIds).map(id => ({ sourceClauseId: id, targetClauseId: null })),
+      ...parseClauseIds(row.splitTargetClauseIds).map(id => ({ sourceClauseId: null, targetClauseId: id })),
+    ]);
+    const pairings = imposePairings(
+      current,
+      imposed.filter(pairing => !unchangedRows.some(row => isSamePairing(pairing, row)))
+    );
+
+    // Rows that keep their pairing are the same objects imposePairings was given
+    const keptRows = new Set<ClausePairing>(pairings);
+    const staleRows = pairedRows.filter(row => !keptRows.has(row));
+    const missingRisk = await loadMissingRisk(comparison.orgId);
+    const newRows = pairings
+      .filter(pairing => !pairedRows.some(row => row === pairing))
+      .map(pairing => {
+        const { sourceClauseId, targetClauseId } = pairing;
+        if (sourceClauseId && targetClauseId) {
+          // The main pair of a broken-up group keeps how it was matched
+          const group = brokenGroups.find(row => isSamePairing(row, pairing));
+          const match = group && !imposed.some(p => isSamePairing(p, pairing))
+            ? { matchConfidence: group.matchConfidence ?? REVIEWER_MATCH.matchConfidence, matchReason: group.matchReason ?? '' }
+            : REVIEWER_MATCH;
+          return pairedRow(sourceClauseId, targetClauseId, match, sourceClausesById, targetClausesById);
+        }
+        return sourceClauseId
+          ? missingRow(sourceClausesById.get(sourceClauseId)!, missingRisk)
+          : addedRow(targetClausesById.get(targetClauseId!)!);
+      });
+
+    await savePairingOverrides(comparisonId, imposed, tx);
+    if (newRows.length === 0 && staleRows.length === 0) return { comparison, requeued: false };
+
+    flagRedefinedTerms(newRows, sourceContract, targetContract, sourceClausesById, targetClausesById);
+
+    // Which clauses count as moved, and what sections are renumbered, depends on every pairing
+    const keptStoredRows = pairedRows.filter(row => keptRows.has(row));
+    const layouts = clauseLayout(
+      [
+        ...keptStoredRows.map(row => layoutRow({
+          ...row,
+          mergedSourceClauseIds: parseClauseIds(row.mergedSourceClauseIds),
+          splitTargetClauseIds: parseClauseIds(row.splitTargetClauseIds),
+        })),
+        ...newRows.map(layoutRow),
+      ],
+      sourceClausesById,
+      targetClausesById
+    );
+    newRows.forEach((row, index) => Object.assign(row, layouts[keptStoredRows.length + index]));
+    for (const [index, row] of keptStoredRows.entries()) {
+      const columns = layoutColumns(layouts[index]);
+      if ((Object.keys(columns) as (keyof typeof columns)[]).some(key => row[key] !== columns[key])) {
+        await tx.update(clauseComparisons).set(columns).where(eq(clauseComparisons.id, row.id));
+      }
+    }
+
+    // Key term changes go with their rows
+    if (staleRows.length > 0) {
+      await tx.delete(clauseComparisons).where(inArray(clauseComparisons.id, staleRows.map(row => row.id)));
+    }
+    await insertRows(comparisonId, newRows, tx);
+
+    // Back to processing until the job has scored the new rows and rebuilt the summary
+    const [processing] = await tx
+      .update(comparisons)
+      .set({
+        comparisonStatus: 'processing',
+        errorMessage: null,
+        completedAt: null,
+        progressStage: null,
+        progressCurrent: null,
+        progressTotal: null,
+        progressPercent: null,
+        progressStartedAt: null,
+        progressUpdatedAt: null,
+      })
+      .where(eq(comparisons.id, comparisonId))
+      .returning();
+    // Queued with the status flip, so a processing comparison always has a job to finish it
+    await enqueueComparisonJob(comparisonId, tx);
+
+    return { comparison: processing, requeued: true };
+  });
+
+  if (!corrected) return null;
+  if (corrected.requeued) {
+    await publishComparisonStatus(corrected.comparison);
+  }
+  return corrected.comparison;
+}
+
+/**
+ * Score the clause comparisons a reviewer's correction stored unscored. Their text is rebuilt
+ * from their clauses, as it was when they were stored, and they're stored again scored.
+ */
+async function analyzePendingRows(
+  comparison: Comparison,
+  sourceContract: Contract,
+  targetContract: Contract,
+  signal?: AbortSignal
+) {
+  const pending = await db
+    .select()
+    .from(clauseComparisons)
+    .where(and(eq(clauseComparisons.comparisonId, comparison.id), eq(clauseComparisons.needsRiskAnalysis, true)));
+
+  if (pending.length === 0) return;
+
+  const sourceClausesById = await loadClausesById(sourceContract.id);
+  const targetClausesById = await loadClausesById(targetContract.id);
+
+  const rows: ClauseComparisonData[] = pending.map(row => ({
+    ...pairedRow(
+      row.sourceClauseId!,
+      row.targetClauseId!,
+      {
+        matchConfidence: row.matchConfidence ?? REVIEWER_MATCH.matchConfidence,
+        matchReason: row.matchReason ?? '',
+        mergedSourceClauseIds: parseClauseIds(row.mergedSourceClauseIds),
+        splitTargetClauseIds: parseClauseIds(row.splitTargetClauseIds),
+      },
+      sourceClausesById,
+      targetClausesById
+    ),
+    sourceSectionNumber: row.sourceSectionNumber,
+    targetSectionNumber: row.targetSectionNumber,
+    moved: row.moved,
+    brokenCrossReferences: parseBrokenCrossReferences(row.brokenCrossReferences),
+  }));
+  flagRedefinedTerms(rows, sourceContract, targetContract, sourceClausesById, targetClausesById);
+
+  await analyzeRows(comparison, rows, signal, (analyzed, total) =>
+    reportProgress(comparison.id, 'risk_analysis', analyzed, total)
+  );
+
+  await db.transaction(async tx => {
+    await tx.delete(clauseComparisons).where(inArray(clauseComparisons.id, pending.map(row => row.id)));
+    await insertRows(comparison.id, rows, tx);
+  });
+}
+
+// ============ PIPELINE ============
+
+/**
+ * Run a comparison end to end: extraction -> matching -> risk -> summary.
+ * Throws on failure so the job queue can retry. Safe to run again after a partial attempt:
+ * extracted clauses and stored clause comparisons are reused, so only unfinished stages run.
+ * Aborting `signal` stops in-flight LLM calls and throws ComparisonCancelledError.
+ */
+export async function runComparisonPipeline(comparisonId: string, signal?: AbortSignal): Promise<void> {
+  const [comparison] = await db
+    .select()
+    .from(comparisons)
+    .where(eq(comparisons.id, comparisonId));
+
+  if (!comparison) {
+    throw new Error(`Comparison not found: ${comparisonId}`);
+  }
+
+  // Finished by a worker that lost its lease, or cancelled before this job started
+  if (comparison.comparisonStatus === 'completed') {
+    return;
+  }
+  if (comparison.comparisonStatus === 'cancelled') {
+    throw new ComparisonCancelledError(comparisonId);
+  }
+
+  const [sourceContract] = await db.select().from(contracts).where(eq(contracts.id, comparison.sourceContractId));
+  const [targetContract] = await db.select().from(contracts).where(eq(contracts.id, comparison.targetContractId));
+
+  if (!sourceContract || !targetContract) {
+    throw new Error('One or both contracts not found');
+  }
+
+  // Each attempt starts the progress bar and its ETA clock afresh
+  await db
+    .update(comparisons)
+    .set({ progressStartedAt: new Date() })
+    .where(eq(comparisons.id, comparisonId));
+
+  // Clause comparisons a reviewer re-paired are scored before the summary is rebuilt
+  await analyzePendingRows(comparison, sourceContract, targetContract, signal);
+
+  let clauseComparisonResults = await loadScoredClauses(comparisonId);
+
+  if (clauseComparisonResults.length === 0) {
+    await reportProgress(comparisonId, 'extracting_source');
+
+    // Extract clauses for both contracts (this is the slow part); they run side by side,
+    // so the stage moves on to the revised contract once the original is done
+    const [sourceClauses, targetClauses] = await Promise.all([
+      prepareContractClauses(sourceContract, signal).then(async result => {
+        await reportProgress(comparisonId, 'extracting_target');
+        return result;
+      }),
+      prepareContractClauses(targetContract, signal),
+    ]);
+
+    clauseComparisonResults = await scoreClauses(
+      comparison,
+      sourceContract,
+      targetContract,
+      sourceClauses,
+      targetClauses,
+      signal
+    );
+  }
+
+  await summarizeComparison(comparison, sourceContract, targetContract, clauseComparisonResults, signal);
+}
+
+// Record a comparison that has run out of retries, along with any contract whose extraction never finished
+export async function markComparisonFailed(comparisonId: string, errorMessage: string): Promise<void> {
+  const [comparison] = await db
+    .update(comparisons)
+    .set({
+      comparisonStatus: 'failed',
+      errorMessage,
+      completedAt: new Date(),
+    })
+    .where(and(eq(comparisons.id, comparisonId), eq(comparisons.comparisonStatus, 'processing')))
+    .returning();
+
+  if (!comparison) return;
+
+  await publishComparisonStatus(comparison);
+
+  await db
+    .update(contracts)
+    .set({ ingestionStatus: 'failed' })
+    .where(and(
+      inArray(contracts.id, [comparison.sourceContractId, comparison.targetContractId]),
+      ne(contracts.ingestionStatus, 'completed')
+    ));
+}
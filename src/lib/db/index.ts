@@ -20,6 +20,9 @@ const pool = new Pool({
 // Create Drizzle ORM instance
 export const db = drizzle(pool, { schema });
 
+// The database or a transaction on it, for writes that may run as part of a larger transaction
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 // Track initialization state
 let initPromise: Promise<void> | null = null;
 let initialized = false;
@@ -74,6 +77,40 @@ export function initializeDatabase(): Promise<void> {
           extracted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
         );
 
+        CREATE TABLE IF NOT EXISTS playbooks (
+          id TEXT PRIMARY KEY,
+          org_id TEXT NOT NULL REFERENCES organizations(id),
+          name TEXT NOT NULL,
+          description TEXT,
+          is_default BOOLEAN NOT NULL DEFAULT FALSE,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        CREATE TABLE IF NOT EXISTS playbook_rules (
+          id TEXT PRIMARY KEY,
+          playbook_id TEXT NOT NULL REFERENCES playbooks(id) ON DELETE CASCADE,
+          clause_type TEXT NOT NULL,
+          position TEXT NOT NULL,
+          rule TEXT NOT NULL,
+          sort_order INTEGER NOT NULL DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS clause_types (
+          id TEXT PRIMARY KEY,
+          org_id TEXT NOT NULL REFERENCES organizations(id),
+          key TEXT NOT NULL,
+          display_name TEXT NOT NULL,
+          description TEXT,
+          synonyms TEXT,
+          parent_category TEXT,
+          missing_risk REAL NOT NULL DEFAULT 50,
+          extraction_hints TEXT,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
         CREATE TABLE IF NOT EXISTS comparisons (
           id TEXT PRIMARY KEY,
           org_id TEXT NOT NULL REFERENCES organizations(id),
@@ -81,6 +118,8 @@ export function initializeDatabase(): Promise<void> {
           source_contract_id TEXT NOT NULL REFERENCES contracts(id),
           target_contract_id TEXT NOT NULL REFERENCES contracts(id),
           comparison_type TEXT,
+          playbook_id TEXT REFERENCES playbooks(id) ON DELETE SET NULL,
+          party_role TEXT,
           comparison_status TEXT NOT NULL DEFAULT 'pending',
           overall_risk_score REAL,
           summary TEXT,
@@ -102,6 +141,62 @@ export function initializeDatabase(): Promise<void> {
           status TEXT NOT NULL
         );
 
+        CREATE TABLE IF NOT EXISTS clause_pairing_overrides (
+          id TEXT PRIMARY KEY,
+          comparison_id TEXT NOT NULL REFERENCES comparisons(id) ON DELETE CASCADE,
+          source_clause_id TEXT REFERENCES clauses(id) ON DELETE CASCADE,
+          target_clause_id TEXT REFERENCES clauses(id) ON DELETE CASCADE,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        CREATE TABLE IF NOT EXISTS key_term_changes (
+          id TEXT PRIMARY KEY,
+          comparison_id TEXT NOT NULL REFERENCES comparisons(id) ON DELETE CASCADE,
+          clause_comparison_id TEXT NOT NULL REFERENCES clause_comparisons(id) ON DELETE CASCADE,
+          kind TEXT NOT NULL,
+          label TEXT,
+          source_value TEXT,
+          target_value TEXT,
+          position INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS comparison_jobs (
+          id TEXT PRIMARY KEY,
+          comparison_id TEXT NOT NULL REFERENCES comparisons(id) ON DELETE CASCADE,
+          status TEXT NOT NULL DEFAULT 'queued',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          max_attempts INTEGER NOT NULL DEFAULT 3,
+          run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          lease_owner TEXT,
+          lease_expires_at TIMESTAMPTZ,
+          heartbeat_at TIMESTAMPTZ,
+          last_error TEXT,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          completed_at TIMESTAMPTZ
+        );
+
+        CREATE TABLE IF NOT EXISTS comparison_events (
+          id BIGSERIAL PRIMARY KEY,
+          comparison_id TEXT NOT NULL REFERENCES comparisons(id) ON DELETE CASCADE,
+          org_id TEXT NOT NULL,
+          event TEXT NOT NULL,
+          data TEXT NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        CREATE TABLE IF NOT EXISTS tracked_changes (
+          id TEXT PRIMARY KEY,
+          contract_id TEXT NOT NULL REFERENCES contracts(id) ON DELETE CASCADE,
+          revision_id TEXT,
+          change_type TEXT NOT NULL,
+          author TEXT,
+          changed_at TIMESTAMPTZ,
+          content TEXT NOT NULL,
+          start_position INTEGER NOT NULL,
+          end_position INTEGER NOT NULL
+        );
+
         CREATE TABLE IF NOT EXISTS templates (
           id TEXT PRIMARY KEY,
           org_id TEXT NOT NULL REFERENCES organizations(id),
@@ -113,11 +208,65 @@ export function initializeDatabase(): Promise<void> {
           created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
         );
 
+        CREATE TABLE IF NOT EXISTS llm_cache (
+          key TEXT PRIMARY KEY,
+          operation TEXT NOT NULL,
+          prompt_version INTEGER NOT NULL,
+          model TEXT NOT NULL,
+          content_hash TEXT NOT NULL,
+          result TEXT NOT NULL,
+          hit_count INTEGER NOT NULL DEFAULT 0,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          last_hit_at TIMESTAMPTZ
+        );
+
+        CREATE TABLE IF NOT EXISTS llm_cache_stats (
+          operation TEXT PRIMARY KEY,
+          hits INTEGER NOT NULL DEFAULT 0,
+          misses INTEGER NOT NULL DEFAULT 0,
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+
+        -- Columns added after the first release
+        ALTER TABLE comparisons ADD COLUMN IF NOT EXISTS playbook_id TEXT REFERENCES playbooks(id) ON DELETE SET NULL;
+        ALTER TABLE comparisons ADD COLUMN IF NOT EXISTS party_role TEXT;
+        ALTER TABLE comparisons ADD COLUMN IF NOT EXISTS progress_stage TEXT;
+        ALTER TABLE comparisons ADD COLUMN IF NOT EXISTS progress_current INTEGER;
+        ALTER TABLE comparisons ADD COLUMN IF NOT EXISTS progress_total INTEGER;
+        ALTER TABLE comparisons ADD COLUMN IF NOT EXISTS progress_percent INTEGER;
+        ALTER TABLE comparisons ADD COLUMN IF NOT EXISTS progress_started_at TIMESTAMPTZ;
+        ALTER TABLE comparisons ADD COLUMN IF NOT EXISTS progress_updated_at TIMESTAMPTZ;
+        ALTER TABLE clause_comparisons ADD COLUMN IF NOT EXISTS source_start_position INTEGER;
+        ALTER TABLE clause_comparisons ADD COLUMN IF NOT EXISTS source_end_position INTEGER;
+        ALTER TABLE clause_comparisons ADD COLUMN IF NOT EXISTS target_start_position INTEGER;
+        ALTER TABLE clause_comparisons ADD COLUMN IF NOT EXISTS target_end_position INTEGER;
+        ALTER TABLE clause_comparisons ADD COLUMN IF NOT EXISTS definition_changes TEXT;
+        ALTER TABLE clause_comparisons ADD COLUMN IF NOT EXISTS match_confidence REAL;
+        ALTER TABLE clause_comparisons ADD COLUMN IF NOT EXISTS match_reason TEXT;
+        ALTER TABLE clause_comparisons ADD COLUMN IF NOT EXISTS merged_source_clause_ids TEXT;
+        ALTER TABLE clause_comparisons ADD COLUMN IF NOT EXISTS split_target_clause_ids TEXT;
+        ALTER TABLE clause_comparisons ADD COLUMN IF NOT EXISTS source_section_number TEXT;
+        ALTER TABLE clause_comparisons ADD COLUMN IF NOT EXISTS target_section_number TEXT;
+        ALTER TABLE clause_comparisons ADD COLUMN IF NOT EXISTS moved BOOLEAN NOT NULL DEFAULT FALSE;
+        ALTER TABLE clause_comparisons ADD COLUMN IF NOT EXISTS broken_cross_references TEXT;
+        ALTER TABLE clause_comparisons ADD COLUMN IF NOT EXISTS needs_risk_analysis BOOLEAN NOT NULL DEFAULT FALSE;
+
         -- Create indexes for better query performance
         CREATE INDEX IF NOT EXISTS idx_contracts_org_id ON contracts(org_id);
         CREATE INDEX IF NOT EXISTS idx_clauses_contract_id ON clauses(contract_id);
         CREATE INDEX IF NOT EXISTS idx_comparisons_org_id ON comparisons(org_id);
         CREATE INDEX IF NOT EXISTS idx_clause_comparisons_comparison_id ON clause_comparisons(comparison_id);
+        CREATE INDEX IF NOT EXISTS idx_clause_pairing_overrides_comparison_id ON clause_pairing_overrides(comparison_id);
+        CREATE INDEX IF NOT EXISTS idx_key_term_changes_comparison_id ON key_term_changes(comparison_id);
+        CREATE INDEX IF NOT EXISTS idx_comparison_jobs_comparison_id ON comparison_jobs(comparison_id);
+        CREATE INDEX IF NOT EXISTS idx_comparison_jobs_status_run_after ON comparison_jobs(status, run_after);
+        CREATE INDEX IF NOT EXISTS idx_comparison_events_org_id ON comparison_events(org_id, id);
+        CREATE INDEX IF NOT EXISTS idx_comparison_events_created_at ON comparison_events(created_at);
+        CREATE INDEX IF NOT EXISTS idx_tracked_changes_contract_id ON tracked_changes(contract_id);
+        CREATE INDEX IF NOT EXISTS idx_playbooks_org_id ON playbooks(org_id);
+        CREATE INDEX IF NOT EXISTS idx_playbook_rules_playbook_id ON playbook_rules(playbook_id);
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_clause_types_org_key ON clause_types(org_id, key);
+        CREATE INDEX IF NOT EXISTS idx_llm_cache_operation ON llm_cache(operation, prompt_version);
       `);
 
       // Create default organization if it doesn't exist
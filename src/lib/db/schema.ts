@@ -1,4 +1,4 @@
-import { pgTable, text, integer, real, boolean, timestamp } from 'drizzle-orm/pg-core';
+import { pgTable, text, integer, real, boolean, timestamp, bigserial } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // Organizations table
@@ -39,6 +39,43 @@ export const clauses = pgTable('clauses', {
   extractedAt: timestamp('extracted_at', { withTimezone: true }).notNull().defaultNow(),
 });
 
+// Playbooks table (an org's negotiating positions, used to score redlines)
+export const playbooks = pgTable('playbooks', {
+  id: text('id').primaryKey(),
+  orgId: text('org_id').notNull().references(() => organizations.id),
+  name: text('name').notNull(),
+  description: text('description'),
+  isDefault: boolean('is_default').notNull().default(false),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Playbook Rules table
+export const playbookRules = pgTable('playbook_rules', {
+  id: text('id').primaryKey(),
+  playbookId: text('playbook_id').notNull().references(() => playbooks.id, { onDelete: 'cascade' }),
+  clauseType: text('clause_type').notNull(),
+  position: text('position').notNull(), // 'preferred', 'fallback', 'red_line'
+  rule: text('rule').notNull(),
+  sortOrder: integer('sort_order').notNull().default(0),
+});
+
+// Clause Types table (an org's clause taxonomy, which extraction classifies clauses into)
+export const clauseTypes = pgTable('clause_types', {
+  id: text('id').primaryKey(),
+  orgId: text('org_id').notNull().references(() => organizations.id),
+  key: text('key').notNull(), // e.g. 'limitation_of_liability'; unique within the org
+  displayName: text('display_name').notNull(),
+  description: text('description'),
+  synonyms: text('synonyms'), // JSON array of other headings the clause goes by
+  parentCategory: text('parent_category'),
+  missingRisk: real('missing_risk').notNull().default(50), // risk score when the clause is removed
+  extractionHints: text('extraction_hints'),
+  sortOrder: integer('sort_order').notNull().default(0),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
 // Comparisons table
 export const comparisons = pgTable('comparisons', {
   id: text('id').primaryKey(),
@@ -47,11 +84,20 @@ export const comparisons = pgTable('comparisons', {
   sourceContractId: text('source_contract_id').notNull().references(() => contracts.id),
   targetContractId: text('target_contract_id').notNull().references(() => contracts.id),
   comparisonType: text('comparison_type'),
-  comparisonStatus: text('comparison_status').notNull().default('pending'), // 'pending', 'processing', 'completed', 'failed'
+  playbookId: text('playbook_id').references(() => playbooks.id, { onDelete: 'set null' }),
+  partyRole: text('party_role'), // our side: 'customer', 'vendor', 'licensor', 'licensee', 'discloser', 'recipient', 'employer', 'employee'
+  comparisonStatus: text('comparison_status').notNull().default('pending'), // 'pending', 'processing', 'completed', 'failed', 'cancelled'
   overallRiskScore: real('overall_risk_score'),
   summary: text('summary'),
   semanticTags: text('semantic_tags'), // JSON array of semantic tags generated by LLM
   errorMessage: text('error_message'),
+  // Pipeline progress while processing; see PIPELINE_STAGES in utils
+  progressStage: text('progress_stage'),
+  progressCurrent: integer('progress_current'),
+  progressTotal: integer('progress_total'),
+  progressPercent: integer('progress_percent'),
+  progressStartedAt: timestamp('progress_started_at', { withTimezone: true }),
+  progressUpdatedAt: timestamp('progress_updated_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   completedAt: timestamp('completed_at', { withTimezone: true }),
 });
@@ -67,7 +113,94 @@ export const clauseComparisons = pgTable('clause_comparisons', {
   riskScore: real('risk_score'),
   riskFactors: text('risk_factors'), // JSON string
   deviationPercentage: real('deviation_percentage'),
-  status: text('status').notNull(), // 'identical', 'minor_change', 'significant_change', 'missing', 'added'
+  status: text('status').notNull(), // 'identical', 'minor_change', 'significant_change', 'missing', 'added', 'other'
+  // Where an 'other' row's changed text sits in each contract; it belongs to no extracted clause
+  sourceStartPosition: integer('source_start_position'),
+  sourceEndPosition: integer('source_end_position'),
+  targetStartPosition: integer('target_start_position'),
+  targetEndPosition: integer('target_end_position'),
+  // JSON array of the defined terms the clause uses whose definitions changed, with both definitions
+  definitionChanges: text('definition_changes'),
+  // How sure matching was that the two clauses correspond (0-1), and why; null when one side is missing
+  matchConfidence: real('match_confidence'),
+  matchReason: text('match_reason'),
+  // JSON arrays of the clauses beyond source_clause_id / target_clause_id in a merge or a split:
+  // the other original clauses combined into the target, or the other revised clauses the source became
+  mergedSourceClauseIds: text('merged_source_clause_ids'),
+  splitTargetClauseIds: text('split_target_clause_ids'),
+  // Section numbers of the main clauses (they differ when the section was renumbered), and whether
+  // the clause was relocated relative to the others; moving alone doesn't change the status
+  sourceSectionNumber: text('source_section_number'),
+  targetSectionNumber: text('target_section_number'),
+  moved: boolean('moved').notNull().default(false),
+  // JSON array of references in the revised clause to a section by its old or a missing number
+  brokenCrossReferences: text('broken_cross_references'),
+  // Stored by a reviewer's re-pairing and not yet scored; the comparison's next job analyzes it
+  needsRiskAnalysis: boolean('needs_risk_analysis').notNull().default(false),
+});
+
+// Clause Pairing Overrides table (reviewers' corrections to how a comparison's clauses are paired,
+// applied over the matcher whenever the comparison's clauses are scored again)
+export const clausePairingOverrides = pgTable('clause_pairing_overrides', {
+  id: text('id').primaryKey(),
+  comparisonId: text('comparison_id').notNull().references(() => comparisons.id, { onDelete: 'cascade' }),
+  // Both set: the clauses are a pair. Source only: the clause is missing from the target. Target only: it was added.
+  sourceClauseId: text('source_clause_id').references(() => clauses.id, { onDelete: 'cascade' }),
+  targetClauseId: text('target_clause_id').references(() => clauses.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Key Term Changes table (numbers and dates that differ within a clause pair, as each version words them)
+export const keyTermChanges = pgTable('key_term_changes', {
+  id: text('id').primaryKey(),
+  comparisonId: text('comparison_id').notNull().references(() => comparisons.id, { onDelete: 'cascade' }),
+  clauseComparisonId: text('clause_comparison_id').notNull().references(() => clauseComparisons.id, { onDelete: 'cascade' }),
+  kind: text('kind').notNull(), // 'amount', 'percentage', 'notice_period', 'duration', 'date', 'count'
+  label: text('label'), // What the value is of, e.g. 'total liability'
+  sourceValue: text('source_value'), // Null when the value is only in the target
+  targetValue: text('target_value'), // Null when the value is only in the source
+  position: integer('position').notNull(), // Order within the clause
+});
+
+// Comparison Jobs table (durable queue the background worker claims comparisons from)
+export const comparisonJobs = pgTable('comparison_jobs', {
+  id: text('id').primaryKey(),
+  comparisonId: text('comparison_id').notNull().references(() => comparisons.id, { onDelete: 'cascade' }),
+  status: text('status').notNull().default('queued'), // 'queued', 'running', 'completed', 'failed', 'cancelled'
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(3),
+  runAfter: timestamp('run_after', { withTimezone: true }).notNull().defaultNow(),
+  leaseOwner: text('lease_owner'),
+  leaseExpiresAt: timestamp('lease_expires_at', { withTimezone: true }),
+  heartbeatAt: timestamp('heartbeat_at', { withTimezone: true }),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+});
+
+// Comparison Events table (status and progress changes relayed to open streams; the id is the SSE event id)
+export const comparisonEvents = pgTable('comparison_events', {
+  id: bigserial('id', { mode: 'number' }).primaryKey(),
+  comparisonId: text('comparison_id').notNull().references(() => comparisons.id, { onDelete: 'cascade' }),
+  orgId: text('org_id').notNull(),
+  event: text('event').notNull(), // 'status', 'progress'
+  data: text('data').notNull(), // JSON payload sent to the client
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Tracked Changes table (Word revisions imported from a redlined DOCX)
+export const trackedChanges = pgTable('tracked_changes', {
+  id: text('id').primaryKey(),
+  // Deletions belong to the source (before) contract, insertions to the target (after) contract
+  contractId: text('contract_id').notNull().references(() => contracts.id, { onDelete: 'cascade' }),
+  revisionId: text('revision_id'),
+  changeType: text('change_type').notNull(), // 'insertion', 'deletion'
+  author: text('author'),
+  changedAt: timestamp('changed_at', { withTimezone: true }),
+  content: text('content').notNull(),
+  startPosition: integer('start_position').notNull(),
+  endPosition: integer('end_position').notNull(),
 });
 
 // Templates table
@@ -82,11 +215,34 @@ export const templates = pgTable('templates', {
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
 });
 
+// LLM Cache table (parsed LLM results, keyed on operation, prompt version, model and a hash of the normalized input)
+export const llmCache = pgTable('llm_cache', {
+  key: text('key').primaryKey(),
+  operation: text('operation').notNull(), // 'extract_clauses', 'match_clauses', 'analyze_clause_risk'
+  promptVersion: integer('prompt_version').notNull(),
+  model: text('model').notNull(),
+  contentHash: text('content_hash').notNull(),
+  result: text('result').notNull(), // JSON
+  hitCount: integer('hit_count').notNull().default(0),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  lastHitAt: timestamp('last_hit_at', { withTimezone: true }),
+});
+
+// LLM Cache Stats table (hit and miss counters per operation, shared by every server process)
+export const llmCacheStats = pgTable('llm_cache_stats', {
+  operation: text('operation').primaryKey(),
+  hits: integer('hits').notNull().default(0),
+  misses: integer('misses').notNull().default(0),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+});
+
 // Relations
 export const organizationsRelations = relations(organizations, ({ many }) => ({
   contracts: many(contracts),
   comparisons: many(comparisons),
   templates: many(templates),
+  playbooks: many(playbooks),
+  clauseTypes: many(clauseTypes),
 }));
 
 export const contractsRelations = relations(contracts, ({ one, many }) => ({
@@ -98,6 +254,7 @@ export const contractsRelations = relations(contracts, ({ one, many }) => ({
   sourceComparisons: many(comparisons, { relationName: 'sourceContract' }),
   targetComparisons: many(comparisons, { relationName: 'targetContract' }),
   templates: many(templates),
+  trackedChanges: many(trackedChanges),
 }));
 
 export const clausesRelations = relations(clauses, ({ one, many }) => ({
@@ -109,11 +266,38 @@ export const clausesRelations = relations(clauses, ({ one, many }) => ({
   targetComparisons: many(clauseComparisons, { relationName: 'targetClause' }),
 }));
 
+export const playbooksRelations = relations(playbooks, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [playbooks.orgId],
+    references: [organizations.id],
+  }),
+  rules: many(playbookRules),
+  comparisons: many(comparisons),
+}));
+
+export const playbookRulesRelations = relations(playbookRules, ({ one }) => ({
+  playbook: one(playbooks, {
+    fields: [playbookRules.playbookId],
+    references: [playbooks.id],
+  }),
+}));
+
+export const clauseTypesRelations = relations(clauseTypes, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [clauseTypes.orgId],
+    references: [organizations.id],
+  }),
+}));
+
 export const comparisonsRelations = relations(comparisons, ({ one, many }) => ({
   organization: one(organizations, {
     fields: [comparisons.orgId],
     references: [organizations.id],
   }),
+  playbook: one(playbooks, {
+    fields: [comparisons.playbookId],
+    references: [playbooks.id],
+  }),
   sourceContract: one(contracts, {
     fields: [comparisons.sourceContractId],
     references: [contracts.id],
@@ -125,9 +309,27 @@ export const comparisonsRelations = relations(comparisons, ({ one, many }) => ({
     relationName: 'targetContract',
   }),
   clauseComparisons: many(clauseComparisons),
+  keyTermChanges: many(keyTermChanges),
+  pairingOverrides: many(clausePairingOverrides),
+  jobs: many(comparisonJobs),
+  events: many(comparisonEvents),
+}));
+
+export const comparisonEventsRelations = relations(comparisonEvents, ({ one }) => ({
+  comparison: one(comparisons, {
+    fields: [comparisonEvents.comparisonId],
+    references: [comparisons.id],
+  }),
+}));
+
+export const comparisonJobsRelations = relations(comparisonJobs, ({ one }) => ({
+  comparison: one(comparisons, {
+    fields: [comparisonJobs.comparisonId],
+    references: [comparisons.id],
+  }),
 }));
 
-export const clauseComparisonsRelations = relations(clauseComparisons, ({ one }) => ({
+export const clauseComparisonsRelations = relations(clauseComparisons, ({ one, many }) => ({
   comparison: one(comparisons, {
     fields: [clauseComparisons.comparisonId],
     references: [comparisons.id],
@@ -142,6 +344,32 @@ export const clauseComparisonsRelations = relations(clauseComparisons, ({ one })
     references: [clauses.id],
     relationName: 'targetClause',
   }),
+  keyTermChanges: many(keyTermChanges),
+}));
+
+export const clausePairingOverridesRelations = relations(clausePairingOverrides, ({ one }) => ({
+  comparison: one(comparisons, {
+    fields: [clausePairingOverrides.comparisonId],
+    references: [comparisons.id],
+  }),
+}));
+
+export const keyTermChangesRelations = relations(keyTermChanges, ({ one }) => ({
+  comparison: one(comparisons, {
+    fields: [keyTermChanges.comparisonId],
+    references: [comparisons.id],
+  }),
+  clauseComparison: one(clauseComparisons, {
+    fields: [keyTermChanges.clauseComparisonId],
+    references: [clauseComparisons.id],
+  }),
+}));
+
+export const trackedChangesRelations = relations(trackedChanges, ({ one }) => ({
+  contract: one(contracts, {
+    fields: [trackedChanges.contractId],
+    references: [contracts.id],
+  }),
 }));
 
 export const templatesRelations = relations(templates, ({ one }) => ({
@@ -162,9 +390,28 @@ export type Contract = typeof contracts.$inferSelect;
 export type NewContract = typeof contracts.$inferInsert;
 export type Clause = typeof clauses.$inferSelect;
 export type NewClause = typeof clauses.$inferInsert;
+export type Playbook = typeof playbooks.$inferSelect;
+export type NewPlaybook = typeof playbooks.$inferInsert;
+export type PlaybookRule = typeof playbookRules.$inferSelect;
+export type NewPlaybookRule = typeof playbookRules.$inferInsert;
+export type ClauseType = typeof clauseTypes.$inferSelect;
+export type NewClauseType = typeof clauseTypes.$inferInsert;
 export type Comparison = typeof comparisons.$inferSelect;
 export type NewComparison = typeof comparisons.$inferInsert;
 export type ClauseComparison = typeof clauseComparisons.$inferSelect;
 export type NewClauseComparison = typeof clauseComparisons.$inferInsert;
+export type ClausePairingOverride = typeof clausePairingOverrides.$inferSelect;
+export type NewClausePairingOverride = typeof clausePairingOverrides.$inferInsert;
+export type KeyTermChangeRecord = typeof keyTermChanges.$inferSelect;
+export type NewKeyTermChangeRecord = typeof keyTermChanges.$inferInsert;
+export type ComparisonJob = typeof comparisonJobs.$inferSelect;
+export type NewComparisonJob = typeof comparisonJobs.$inferInsert;
+export type ComparisonEvent = typeof comparisonEvents.$inferSelect;
+export type NewComparisonEvent = typeof comparisonEvents.$inferInsert;
+export type TrackedChangeRecord = typeof trackedChanges.$inferSelect;
+export type NewTrackedChangeRecord = typeof trackedChanges.$inferInsert;
 export type Template = typeof templates.$inferSelect;
 export type NewTemplate = typeof templates.$inferInsert;
+export type LlmCacheEntry = typeof llmCache.$inferSelect;
+export type NewLlmCacheEntry = typeof llmCache.$inferInsert;
+export type LlmCacheStat = typeof llmCacheStats.$inferSelect;
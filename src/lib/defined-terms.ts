@@ -0,0 +1,137 @@
+/**
+ * Defined Terms
+ * Finds the defined terms in a contract ("Confidential Information" means ...), diffs their
+ * definitions between two contracts and tells which clauses use a term whose definition changed.
+ */
+
+import { normalizeTextForComparison } from './utils';
+
+// Definitions run on past this are cut, so one unterminated definition can't swallow the contract
+const MAX_DEFINITION_CHARS = 2000;
+
+export interface DefinedTerm {
+  term: string;
+  definition: string;
+  start: number;
+  end: number;
+}
+
+export interface DefinitionChange {
+  term: string;
+  // 'added' and 'removed' terms are only defined in the target or only in the source
+  status: 'changed' | 'added' | 'removed';
+  sourceDefinition: string | null;
+  targetDefinition: string | null;
+}
+
+// A quoted, capitalised term: "Affiliate", “Confidential Information”
+const QUOTED_TERM = String.raw`["“]([A-Z][^"“”\n]{0,80}?)["”]`;
+
+// A definitions-section entry: "Affiliate" means / shall mean / has the meaning / includes ...
+const MEANS_DEFINITION = new RegExp(
+  `${QUOTED_TERM}\\s*,?\\s*(?:shall\\s+)?(?:means?|has\\s+the\\s+meanings?|have\\s+the\\s+meanings?|refers?\\s+to|shall\\s+include|includes?)\\b`,
+  'g'
+);
+
+// An inline definition: Acme Corp. (the "Company"), ... (collectively, the "Services")
+const INLINE_DEFINITION = new RegExp(
+  `\\((?:each\\s+(?:a|an)\\s+|collectively,?\\s+|together,?\\s+|individually,?\\s+)?(?:the\\s+|a\\s+|an\\s+)?${QUOTED_TERM}\\)`,
+  'g'
+);
+
+/**
+ * Every term the text defines, in order of appearance. A term defined more than once keeps
+ * its first definition.
+ */
+export function extractDefinedTerms(text: string): DefinedTerm[] {
+  const meansMatches = [...text.matchAll(MEANS_DEFINITION)];
+  const found: DefinedTerm[] = [];
+
+  meansMatches.forEach((match, index) => {
+    const start = match.index!;
+    const paragraphEnd = text.indexOf('\n\n', start);
+    const nextDefinition = index + 1 < meansMatches.length ? meansMatches[index + 1].index! : text.length;
+    const end = Math.min(
+      paragraphEnd === -1 ? text.length : paragraphEnd,
+      nextDefinition,
+      start + MAX_DEFINITION_CHARS
+    );
+
+    found.push({ term: match[1].trim(), definition: text.slice(start, end).trim(), start, end });
+  });
+
+  for (const match of text.matchAll(INLINE_DEFINITION)) {
+    const end = match.index! + match[0].length;
+    // The definition is the text leading up to the parenthetical, back to the start of its
+    // sentence, its line or an earlier parenthetical. A full stop right before it ends an
+    // abbreviation (Acme Corp. (the "Company")), not a sentence.
+    const sentenceBreak = text.lastIndexOf('. ', match.index! - 3);
+    const start = Math.max(
+      sentenceBreak === -1 ? 0 : sentenceBreak + 2,
+      text.lastIndexOf('\n', match.index!) + 1,
+      text.lastIndexOf(')', match.index!) + 1,
+      end - MAX_DEFINITION_CHARS
+    );
+
+    found.push({ term: match[1].trim(), definition: text.slice(start, end).trim(), start, end });
+  }
+
+  const terms = new Map<string, DefinedTerm>();
+  for (const definedTerm of found.sort((a, b) => a.start - b.start)) {
+    if (!terms.has(definedTerm.term)) terms.set(definedTerm.term, definedTerm);
+  }
+
+  return [...terms.values()];
+}
+
+/**
+ * Terms whose definition differs between the two contracts, or that only one of them defines.
+ * Formatting-only differences don't count.
+ */
+export function diffDefinedTerms(sourceTerms: DefinedTerm[], targetTerms: DefinedTerm[]): DefinitionChange[] {
+  const targetByTerm = new Map(targetTerms.map(definedTerm => [definedTerm.term, definedTerm]));
+  const sourceByTerm = new Map(sourceTerms.map(definedTerm => [definedTerm.term, definedTerm]));
+  const changes: DefinitionChange[] = [];
+
+  for (const source of sourceTerms) {
+    const target = targetByTerm.get(source.term);
+    if (!target) {
+      changes.push({ term: source.term, status: 'removed', sourceDefinition: source.definition, targetDefinition: null });
+    } else if (normalizeTextForComparison(source.definition) !== normalizeTextForComparison(target.definition)) {
+      changes.push({ term: source.term, status: 'changed', sourceDefinition: source.definition, targetDefinition: target.definition });
+    }
+  }
+
+  for (const target of targetTerms) {
+    if (!sourceByTerm.has(target.term)) {
+      changes.push({ term: target.term, status: 'added', sourceDefinition: null, targetDefinition: target.definition });
+    }
+  }
+
+  return changes;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The changed terms `text` uses. Defined terms are capitalised, so the match is case-sensitive;
+ * plurals ("Affiliates") count as uses.
+ */
+export function findChangedTermsUsed(text: string, changes: DefinitionChange[]): DefinitionChange[] {
+  return changes.filter(change =>
+    new RegExp(`(?<![\\w-])${escapeRegExp(change.term)}(?:s|es)?(?![\\w-])`).test(text)
+  );
+}
+
+// Parse a clause comparison's stored definition changes
+export function parseDefinitionChanges(value: string | null): DefinitionChange[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
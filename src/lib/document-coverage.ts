@@ -0,0 +1,270 @@
+/**
+ * Document Coverage
+ * Whole-document word diff of two contract texts, and the changed text that falls outside
+ * every extracted clause - changes the clause-by-clause review would otherwise never show.
+ * The documents are diffed line by line first and only the changed lines word by word, with
+ * both passes bounded, so a long or heavily rewritten contract can't stall the server.
+ */
+
+import * as Diff from 'diff';
+import type { Clause, ClauseComparison, Contract } from './db/schema';
+import type { TextSpan } from './clause-alignment';
+
+// Clause type of the 'other' clause comparisons recording changes outside every extracted clause
+export const UNCLASSIFIED_CLAUSE_TYPE = 'unclassified';
+
+// Most unchanged text shown either side of a change outside the clauses, when its paragraph runs longer
+const MAX_REGION_CONTEXT_CHARS = 1500;
+
+// Past this many changed lines the documents are treated as rewritten outright
+const MAX_LINE_EDITS = 4000;
+
+// Changed stretches longer than this, or needing more word edits than this, are shown as
+// deleted and reinserted whole rather than word by word
+const MAX_WORD_DIFF_CHARS = 20000;
+const MAX_WORD_EDITS = 2000;
+
+export interface DocumentChanges {
+  // Deleted text, as spans of the source
+  source: TextSpan[];
+  // Inserted text, as spans of the target
+  target: TextSpan[];
+}
+
+// The span of `value` at `position`, less any whitespace around it
+function trimmedSpan(value: string, position: number): TextSpan {
+  const start = position + (value.length - value.trimStart().length);
+  return { start, end: start + value.trim().length };
+}
+
+// ============ DIFF ============
+
+interface DiffPart {
+  value: string;
+  added?: boolean;
+  removed?: boolean;
+}
+
+// Lines with their line breaks, so they join back into the text
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*(?:\n|$)/g)?.filter(line => line.length > 0) ?? [];
+}
+
+// Word diff of one changed stretch, or the whole stretch deleted and inserted when that's too costly
+function diffChangedLines(removed: string, added: string): DiffPart[] {
+  if (!removed || !added) {
+    return [...(removed ? [{ value: removed, removed: true }] : []), ...(added ? [{ value: added, added: true }] : [])];
+  }
+
+  const parts = removed.length + added.length <= MAX_WORD_DIFF_CHARS
+    ? Diff.diffWordsWithSpace(removed, added, { maxEditLength: MAX_WORD_EDITS })
+    : undefined;
+  return parts ?? [{ value: removed, removed: true }, { value: added, added: true }];
+}
+
+/**
+ * Word diff of two documents, whitespace kept, so unchanged parts are identical on both sides
+ * and offsets line up exactly. Unchanged lines are matched first and only the lines between
+ * them diffed word by word.
+ */
+function diffDocuments(sourceText: string, targetText: string): DiffPart[] {
+  const lineParts = Diff.diffArrays(splitLines(sourceText), splitLines(targetText), { maxEditLength: MAX_LINE_EDITS })
+    ?? [{ value: [sourceText], removed: true }, { value: [targetText], added: true }];
+
+  const parts: DiffPart[] = [];
+  const push = (part: DiffPart) => {
+    const last = parts[parts.length - 1];
+    if (last && !last.added === !part.added && !last.removed === !part.removed) {
+      last.value += part.value;
+    } else if (part.value) {
+      parts.push({ ...part });
+    }
+  };
+
+  let removed = '';
+  let added = '';
+  for (const linePart of lineParts) {
+    const value = linePart.value.join('');
+    if (linePart.removed) {
+      removed += value;
+    } else if (linePart.added) {
+      added += value;
+    } else {
+      diffChangedLines(removed, added).forEach(push);
+      removed = '';
+      added = '';
+      push({ value });
+    }
+  }
+  diffChangedLines(removed, added).forEach(push);
+
+  return parts;
+}
+
+/**
+ * The parts of `changes` not inside any of `covered`, with runs separated only by
+ * whitespace joined into one span
+ */
+export function findUncoveredChanges(text: string, changes: TextSpan[], covered: TextSpan[]): TextSpan[] {
+  const coveredSpans = [...covered].sort((a, b) => a.start - b.start);
+  const uncovered: TextSpan[] = [];
+
+  for (const change of changes) {
+    let start = change.start;
+
+    for (const span of coveredSpans) {
+      if (span.end <= start) continue;
+      if (span.start >= change.end) break;
+      if (span.start > start) uncovered.push({ start, end: span.start });
+      start = Math.max(start, span.end);
+      if (start >= change.end) break;
+    }
+
+    if (start < change.end) uncovered.push({ start, end: change.end });
+  }
+
+  const merged: TextSpan[] = [];
+  for (const span of uncovered) {
+    if (!text.slice(span.start, span.end).trim()) continue;
+
+    const previous = merged[merged.length - 1];
+    if (previous && !text.slice(previous.end, span.start).trim()) {
+      previous.end = span.end;
+    } else {
+      merged.push({ ...span });
+    }
+  }
+
+  return merged;
+}
+
+// A changed stretch of text outside the extracted clauses, with the paragraph around it on each side.
+// A side is empty (start === end) when the text was only inserted or only deleted.
+export interface ChangedRegion {
+  source: TextSpan;
+  target: TextSpan;
+}
+
+// Shrink a span past the whitespace at either end
+function trimSpan(text: string, span: TextSpan): TextSpan {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+// Trailing part of unchanged text from its last paragraph break, cut at a word when too long
+function leadingContext(common: string): number {
+  const paragraphBreak = common.lastIndexOf('\n\n');
+  const length = paragraphBreak === -1 ? common.length : common.length - paragraphBreak - 2;
+  if (length <= MAX_REGION_CONTEXT_CHARS) return length;
+
+  const wordBreak = common.indexOf(' ', common.length - MAX_REGION_CONTEXT_CHARS);
+  return wordBreak === -1 ? MAX_REGION_CONTEXT_CHARS : common.length - wordBreak - 1;
+}
+
+// Leading part of unchanged text up to its first paragraph break, cut at a word when too long
+function trailingContext(common: string): number {
+  const paragraphBreak = common.indexOf('\n\n');
+  const length = paragraphBreak === -1 ? common.length : paragraphBreak;
+  if (length <= MAX_REGION_CONTEXT_CHARS) return length;
+
+  const wordBreak = common.lastIndexOf(' ', MAX_REGION_CONTEXT_CHARS);
+  return wordBreak === -1 ? MAX_REGION_CONTEXT_CHARS : wordBreak;
+}
+
+/**
+ * Changes between the two texts that aren't wholly inside an extracted clause on either side,
+ * each widened to its paragraph (unchanged text reads the same on both sides, so both sides
+ * widen by the same amount). Changes that end up sharing a paragraph become one region.
+ */
+export function findUncoveredRegions(
+  sourceText: string,
+  targetText: string,
+  sourceCovered: TextSpan[],
+  targetCovered: TextSpan[]
+): ChangedRegion[] {
+  const parts = diffDocuments(sourceText, targetText);
+  const regions: ChangedRegion[] = [];
+  let sourcePosition = 0;
+  let targetPosition = 0;
+  let i = 0;
+
+  while (i < parts.length) {
+    if (!parts[i].added && !parts[i].removed) {
+      sourcePosition += parts[i].value.length;
+      targetPosition += parts[i].value.length;
+      i++;
+      continue;
+    }
+
+    // A run of removed and added parts between two unchanged ones
+    const runStart = i;
+    const sourceStart = sourcePosition;
+    const targetStart = targetPosition;
+    const changes: DocumentChanges = { source: [], target: [] };
+
+    for (; i < parts.length && (parts[i].added || parts[i].removed); i++) {
+      const part = parts[i];
+      if (part.removed) {
+        if (part.value.trim()) changes.source.push(trimmedSpan(part.value, sourcePosition));
+        sourcePosition += part.value.length;
+      } else {
+        if (part.value.trim()) changes.target.push(trimmedSpan(part.value, targetPosition));
+        targetPosition += part.value.length;
+      }
+    }
+
+    const isUncovered =
+      findUncoveredChanges(sourceText, changes.source, sourceCovered).length > 0 ||
+      findUncoveredChanges(targetText, changes.target, targetCovered).length > 0;
+    if (!isUncovered) continue;
+
+    const before = runStart > 0 ? leadingContext(parts[runStart - 1].value) : 0;
+    const after = i < parts.length ? trailingContext(parts[i].value) : 0;
+    const region: ChangedRegion = {
+      source: { start: sourceStart - before, end: sourcePosition + after },
+      target: { start: targetStart - before, end: targetPosition + after },
+    };
+
+    const last = regions[regions.length - 1];
+    if (last && (last.source.end >= region.source.start || last.target.end >= region.target.start)) {
+      last.source.end = region.source.end;
+      last.target.end = region.target.end;
+    } else {
+      regions.push(region);
+    }
+  }
+
+  return regions.map(region => ({
+    source: trimSpan(sourceText, region.source),
+    target: trimSpan(targetText, region.target),
+  }));
+}
+
+/**
+ * One side of an 'other' clause comparison as a clause, so everything that shows clause text
+ * shows the region's text. Null when that side of the region is empty.
+ */
+export function regionClause(
+  clauseComparison: ClauseComparison,
+  side: 'source' | 'target',
+  contract: Contract
+): Clause | null {
+  const start = side === 'source' ? clauseComparison.sourceStartPosition : clauseComparison.targetStartPosition;
+  const end = side === 'source' ? clauseComparison.sourceEndPosition : clauseComparison.targetEndPosition;
+  if (start === null || end === null || end <= start || !contract.rawText) return null;
+
+  return {
+    id: `${clauseComparison.id}:${side}`,
+    contractId: contract.id,
+    clauseType: clauseComparison.clauseType,
+    title: null,
+    content: contract.rawText.slice(start, end),
+    startPosition: start,
+    endPosition: end,
+    pageNumber: null,
+    confidenceScore: null,
+    extractedAt: contract.processedAt ?? contract.uploadedAt,
+  };
+}
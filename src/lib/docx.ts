@@ -0,0 +1,553 @@
+/**
+ * DOCX Text Extraction
+ * Parses Word (OOXML) documents locally, preserving paragraph breaks,
+ * list/section numbering (including numbered heading styles) and table text
+ */
+
+import JSZip from 'jszip';
+import { DOMParser, type Element } from '@xmldom/xmldom';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * Error raised when a file is not a readable DOCX package
+ */
+export class DocxParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocxParseError';
+  }
+}
+
+// ============ XML HELPERS ============
+
+function parseXml(xml: string): Element {
+  // xmldom recovers from malformed markup, so stop at the first error. It rethrows the handler's
+  // error wrapped in its own ParseError, and throws that directly for fatal errors.
+  let handlerError: DocxParseError | null = null;
+  const parser = new DOMParser({
+    onError: (level, message) => {
+      if (level === 'warning') return;
+      handlerError = new DocxParseError(`Invalid XML in DOCX package: ${message}`);
+      throw handlerError;
+    },
+  });
+  let doc;
+  try {
+    doc = parser.parseFromString(xml, 'application/xml');
+  } catch (error) {
+    throw handlerError ?? new DocxParseError(`Invalid XML in DOCX package: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!doc.documentElement) {
+    throw new DocxParseError('Invalid XML in DOCX package');
+  }
+  return doc.documentElement;
+}
+
+// Direct child elements in the WordprocessingML namespace, optionally filtered by local name
+function children(el: Element, localName?: string): Element[] {
+  const result: Element[] = [];
+  for (let node = el.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType !== 1) continue;
+    const child = node as Element;
+    if (child.namespaceURI !== W_NS) continue;
+    if (localName && child.localName !== localName) continue;
+    result.push(child);
+  }
+  return result;
+}
+
+function child(el: Element | undefined, localName: string): Element | undefined {
+  return el ? children(el, localName)[0] : undefined;
+}
+
+function attr(el: Element | undefined, localName: string): string | null {
+  if (!el) return null;
+  return el.getAttributeNS(W_NS, localName) || el.getAttribute(`w:${localName}`) || null;
+}
+
+// ============ STYLES ============
+
+interface NumberingRef {
+  numId: string;
+  ilvl: number;
+}
+
+interface StyleInfo {
+  basedOn: string | null;
+  numPr: NumberingRef | null;
+}
+
+function readNumPr(pPr: Element | undefined): Partial<NumberingRef> | null {
+  const numPr = child(pPr, 'numPr');
+  if (!numPr) return null;
+  const numId = attr(child(numPr, 'numId'), 'val');
+  const ilvl = attr(child(numPr, 'ilvl'), 'val');
+  return {
+    numId: numId ?? undefined,
+    ilvl: ilvl !== null ? parseInt(ilvl, 10) : undefined,
+  };
+}
+
+function parseStyles(xml: string | null): Map<string, StyleInfo> {
+  const styles = new Map<string, StyleInfo>();
+  if (!xml) return styles;
+
+  for (const style of children(parseXml(xml), 'style')) {
+    const styleId = attr(style, 'styleId');
+    if (!styleId) continue;
+    const pPr = child(style, 'pPr');
+    const numPr = readNumPr(pPr);
+    styles.set(styleId, {
+      basedOn: attr(child(style, 'basedOn'), 'val'),
+      numPr: numPr?.numId ? { numId: numPr.numId, ilvl: numPr.ilvl ?? 0 } : null,
+    });
+  }
+
+  return styles;
+}
+
+// Resolve a style property by walking up the basedOn chain
+function resolveStyle<T>(
+  styles: Map<string, StyleInfo>,
+  styleId: string | null,
+  pick: (style: StyleInfo) => T | null
+): T | null {
+  const visited = new Set<string>();
+  let current = styleId;
+  while (current && !visited.has(current)) {
+    visited.add(current);
+    const style = styles.get(current);
+    if (!style) return null;
+    const value = pick(style);
+    if (value !== null) return value;
+    current = style.basedOn;
+  }
+  return null;
+}
+
+// ============ NUMBERING ============
+
+interface LevelDefinition {
+  start: number;
+  numFmt: string;
+  lvlText: string;
+  isLegal: boolean;
+}
+
+interface NumberingDefinitions {
+  // numId -> abstractNumId
+  instances: Map<string, { abstractNumId: string; startOverrides: Map<number, number> }>;
+  // abstractNumId -> level -> definition
+  abstracts: Map<string, Map<number, LevelDefinition>>;
+}
+
+function parseNumbering(xml: string | null): NumberingDefinitions {
+  const definitions: NumberingDefinitions = { instances: new Map(), abstracts: new Map() };
+  if (!xml) return definitions;
+
+  const root = parseXml(xml);
+
+  for (const abstractNum of children(root, 'abstractNum')) {
+    const abstractNumId = attr(abstractNum, 'abstractNumId');
+    if (abstractNumId === null) continue;
+    const levels = new Map<number, LevelDefinition>();
+    for (const lvl of children(abstractNum, 'lvl')) {
+      const ilvl = parseInt(attr(lvl, 'ilvl') || '0', 10);
+      levels.set(ilvl, {
+        start: parseInt(attr(child(lvl, 'start'), 'val') || '1', 10),
+        numFmt: attr(child(lvl, 'numFmt'), 'val') || 'decimal',
+        lvlText: attr(child(lvl, 'lvlText'), 'val') ?? `%${ilvl + 1}.`,
+        isLegal: child(lvl, 'isLgl') !== undefined,
+      });
+    }
+    definitions.abstracts.set(abstractNumId, levels);
+  }
+
+  for (const num of children(root, 'num')) {
+    const numId = attr(num, 'numId');
+    const abstractNumId = attr(child(num, 'abstractNumId'), 'val');
+    if (numId === null || abstractNumId === null) continue;
+    const startOverrides = new Map<number, number>();
+    for (const override of children(num, 'lvlOverride')) {
+      const start = attr(child(override, 'startOverride'), 'val');
+      if (start !== null) {
+        startOverrides.set(parseInt(attr(override, 'ilvl') || '0', 10), parseInt(start, 10));
+      }
+    }
+    definitions.instances.set(numId, { abstractNumId, startOverrides });
+  }
+
+  return definitions;
+}
+
+function toRoman(value: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+  ];
+  let remaining = value;
+  let result = '';
+  for (const [amount, numeral] of numerals) {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  }
+  return result;
+}
+
+function toLetters(value: number): string {
+  // Word repeats the letter past z: a..z, aa..zz, aaa..
+  if (value <= 0) return '';
+  const letter = String.fromCharCode(97 + ((value - 1) % 26));
+  return letter.repeat(Math.floor((value - 1) / 26) + 1);
+}
+
+function formatNumber(value: number, numFmt: string): string {
+  switch (numFmt) {
+    case 'lowerLetter':
+      return toLetters(value);
+    case 'upperLetter':
+      return toLetters(value).toUpperCase();
+    case 'lowerRoman':
+      return toRoman(value);
+    case 'upperRoman':
+      return toRoman(value).toUpperCase();
+    case 'decimalZero':
+      return value < 10 ? `0${value}` : String(value);
+    case 'none':
+      return '';
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Tracks list counters across the document so each numbered paragraph
+ * gets the label Word would render (e.g. "12.3(b)")
+ */
+class NumberingTracker {
+  private counters = new Map<string, number[]>();
+
+  constructor(private definitions: NumberingDefinitions) {}
+
+  next(ref: NumberingRef): string | null {
+    const instance = this.definitions.instances.get(ref.numId);
+    if (!instance) return null;
+    const levels = this.definitions.abstracts.get(instance.abstractNumId);
+    const level = levels?.get(ref.ilvl);
+    if (!levels || !level) return null;
+
+    const startFor = (ilvl: number) =>
+      instance.startOverrides.get(ilvl) ?? levels.get(ilvl)?.start ?? 1;
+
+    // List instances of the same abstract definition continue each other's
+    // numbering unless the instance restarts it with a start override
+    const key = instance.startOverrides.size > 0 ? `num:${ref.numId}` : `abstract:${instance.abstractNumId}`;
+    const counters = this.counters.get(key) || [];
+    counters[ref.ilvl] = counters[ref.ilvl] === undefined ? startFor(ref.ilvl) : counters[ref.ilvl] + 1;
+    // Deeper levels restart whenever a parent level advances
+    counters.length = ref.ilvl + 1;
+    this.counters.set(key, counters);
+
+    if (level.numFmt === 'bullet') {
+      return '•';
+    }
+
+    return level.lvlText.replace(/%(\d)/g, (_, n: string) => {
+      const ilvl = parseInt(n, 10) - 1;
+      const value = counters[ilvl] ?? startFor(ilvl);
+      const format = level.isLegal ? 'decimal' : levels.get(ilvl)?.numFmt || 'decimal';
+      return formatNumber(value, format);
+    }).trim();
+  }
+}
+
+// ============ DOCUMENT BODY ============
+
+/**
+ * Which side of Word's tracked changes to read:
+ * - before: the document as it was, with deletions kept and insertions dropped
+ * - after: the document as revised, with insertions kept and deletions dropped
+ */
+export type DocxView = 'before' | 'after';
+
+export interface TrackedChange {
+  revisionId: string | null;
+  changeType: 'insertion' | 'deletion';
+  author: string | null;
+  date: string | null;
+  text: string;
+  // Character span in the before text (deletions) or the after text (insertions)
+  startPosition: number;
+  endPosition: number;
+}
+
+interface ExtractionContext {
+  styles: Map<string, StyleInfo>;
+  numbering: NumberingTracker;
+  view: DocxView;
+  // When set, revision text is wrapped in markers so its final offsets can be recovered
+  revisions: Array<Omit<TrackedChange, 'text' | 'startPosition' | 'endPosition'>> | null;
+}
+
+// Private-use characters never appear in Word text, so they are safe as inline markers
+const REVISION_START = '\uE000';
+const REVISION_ID_END = '\uE001';
+const REVISION_END = '\uE002';
+
+function markRevision(
+  el: Element,
+  text: string,
+  changeType: TrackedChange['changeType'],
+  context: ExtractionContext
+): string {
+  if (!context.revisions || !text) return text;
+  const index = context.revisions.length;
+  context.revisions.push({
+    revisionId: attr(el, 'id'),
+    changeType,
+    author: attr(el, 'author'),
+    date: attr(el, 'date'),
+  });
+  return `${REVISION_START}${index}${REVISION_ID_END}${text}${REVISION_END}`;
+}
+
+// Collect the visible text of a run or run container (hyperlinks, fields, content controls)
+function collectRunText(el: Element, context: ExtractionContext): string {
+  let text = '';
+  for (const node of children(el)) {
+    switch (node.localName) {
+      case 't':
+        text += node.textContent || '';
+        break;
+      case 'delText':
+        if (context.view === 'before') text += node.textContent || '';
+        break;
+      case 'tab':
+      case 'ptab':
+        text += '\t';
+        break;
+      case 'br':
+      case 'cr':
+        text += '\n';
+        break;
+      case 'noBreakHyphen':
+      case 'softHyphen':
+        text += '-';
+        break;
+      case 'r': {
+        // Headings are often typed in lower case and rendered with the caps run property
+        const runText = collectRunText(node, context);
+        const caps = child(child(node, 'rPr'), 'caps');
+        const capsOn = caps !== undefined && !['0', 'false'].includes(attr(caps, 'val') || '');
+        text += capsOn ? runText.toUpperCase() : runText;
+        break;
+      }
+      case 'hyperlink':
+      case 'smartTag':
+      case 'fldSimple':
+        text += collectRunText(node, context);
+        break;
+      case 'ins':
+      case 'moveTo':
+        if (context.view === 'after') {
+          text += markRevision(node, collectRunText(node, context), 'insertion', context);
+        }
+        break;
+      case 'del':
+      case 'moveFrom':
+        if (context.view === 'before') {
+          text += markRevision(node, collectRunText(node, context), 'deletion', context);
+        }
+        break;
+      case 'sdt':
+        text += collectRunText(child(node, 'sdtContent') || node, context);
+        break;
+      default:
+        break;
+    }
+  }
+  return text;
+}
+
+function paragraphText(p: Element, context: ExtractionContext): string {
+  const pPr = child(p, 'pPr');
+  const styleId = attr(child(pPr, 'pStyle'), 'val');
+  const text = collectRunText(p, context).replace(/[ \t]+$/gm, '');
+
+  // A paragraph added (or removed) as a whole does not exist on the other side,
+  // so it must not advance that side's numbering either
+  const paragraphMark = child(child(pPr, 'rPr'), context.view === 'before' ? 'ins' : 'del');
+  if (paragraphMark && !text.trim()) return '';
+
+  // Direct numbering wins over numbering inherited from the paragraph style
+  const direct = readNumPr(pPr);
+  const styleNumPr = resolveStyle(context.styles, styleId, s => s.numPr);
+  const numId = direct?.numId ?? styleNumPr?.numId;
+  const ilvl = direct?.ilvl ?? styleNumPr?.ilvl ?? 0;
+
+  // numId 0 explicitly removes numbering
+  // Empty numbered paragraphs still advance the counters, as they do in Word
+  const label = numId && numId !== '0' ? context.numbering.next({ numId, ilvl }) : null;
+  const body = text.trim();
+  if (!body) return '';
+
+  return label ? `${label} ${body}` : body;
+}
+
+function tableText(tbl: Element, context: ExtractionContext): string {
+  const rows: string[] = [];
+  for (const tr of children(tbl, 'tr')) {
+    const cells: string[] = [];
+    for (const tc of children(tr, 'tc')) {
+      const cellBlocks = blockTexts(tc, context);
+      cells.push(cellBlocks.join(' ').replace(/\s*\n+\s*/g, ' ').trim());
+    }
+    if (cells.some(Boolean)) {
+      rows.push(cells.join(' | '));
+    }
+  }
+  return rows.join('\n');
+}
+
+// Text for each block-level element (paragraph or table) in a container
+function blockTexts(container: Element, context: ExtractionContext): string[] {
+  const blocks: string[] = [];
+  for (const el of children(container)) {
+    let text = '';
+    switch (el.localName) {
+      case 'p':
+        text = paragraphText(el, context);
+        break;
+      case 'tbl':
+        text = tableText(el, context);
+        break;
+      case 'sdt': {
+        const content = child(el, 'sdtContent');
+        if (content) blocks.push(...blockTexts(content, context));
+        break;
+      }
+      default:
+        break;
+    }
+    if (text) blocks.push(text);
+  }
+  return blocks;
+}
+
+interface DocxPackage {
+  body: Element;
+  styles: Map<string, StyleInfo>;
+  numbering: NumberingDefinitions;
+}
+
+async function loadDocx(data: ArrayBuffer | Uint8Array): Promise<DocxPackage> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new DocxParseError('File is not a valid DOCX document');
+  }
+
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new DocxParseError('DOCX document body is missing');
+  }
+
+  const [stylesXml, numberingXml] = await Promise.all([
+    zip.file('word/styles.xml')?.async('string') ?? null,
+    zip.file('word/numbering.xml')?.async('string') ?? null,
+  ]);
+
+  const body = child(parseXml(documentXml), 'body');
+  if (!body) {
+    throw new DocxParseError('DOCX document body is missing');
+  }
+
+  return {
+    body,
+    styles: parseStyles(stylesXml),
+    numbering: parseNumbering(numberingXml),
+  };
+}
+
+function renderView(pkg: DocxPackage, view: DocxView, collectRevisions: boolean) {
+  const context: ExtractionContext = {
+    styles: pkg.styles,
+    // Each view numbers its own paragraphs, since inserted or deleted items shift the counters
+    numbering: new NumberingTracker(pkg.numbering),
+    view,
+    revisions: collectRevisions ? [] : null,
+  };
+  const marked = blockTexts(pkg.body, context).join('\n\n');
+
+  // Strip the revision markers, recording where each revision ends up in the clean text
+  const changes: TrackedChange[] = [];
+  let text = '';
+  const markerPattern = new RegExp(`${REVISION_START}(\\d+)${REVISION_ID_END}|${REVISION_END}`, 'g');
+  const open: Array<{ index: number; start: number }> = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = markerPattern.exec(marked)) !== null) {
+    text += marked.slice(lastIndex, match.index);
+    lastIndex = match.index + match[0].length;
+    if (match[1] !== undefined) {
+      open.push({ index: parseInt(match[1], 10), start: text.length });
+    } else {
+      const revision = open.pop();
+      if (revision && context.revisions) {
+        const content = text.slice(revision.start);
+        if (content.trim()) {
+          changes.push({
+            ...context.revisions[revision.index],
+            text: content,
+            startPosition: revision.start,
+            endPosition: text.length,
+          });
+        }
+      }
+    }
+  }
+  text += marked.slice(lastIndex);
+
+  return { text, changes };
+}
+
+/**
+ * Extract the text of a DOCX file as currently revised (tracked insertions
+ * kept, deletions dropped)
+ * Paragraphs are separated by blank lines and table rows by single newlines,
+ * matching the plain-text layout the clause extractor and diff viewer expect
+ */
+export async function extractDocxText(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const pkg = await loadDocx(data);
+  return renderView(pkg, 'after', false).text;
+}
+
+export interface DocxRevisionResult {
+  before: string;
+  after: string;
+  changes: TrackedChange[];
+}
+
+/**
+ * Split a DOCX with tracked changes into its "before" and "after" texts
+ * Deletions are positioned in the before text and insertions in the after text,
+ * each keeping the author and date Word recorded for it
+ */
+export async function extractDocxRevisions(data: ArrayBuffer | Uint8Array): Promise<DocxRevisionResult> {
+  const pkg = await loadDocx(data);
+  const before = renderView(pkg, 'before', true);
+  const after = renderView(pkg, 'after', true);
+
+  return {
+    before: before.text,
+    after: after.text,
+    changes: [...before.changes, ...after.changes].sort((a, b) => {
+      if (a.changeType !== b.changeType) return a.changeType === 'deletion' ? -1 : 1;
+      return a.startPosition - b.startPosition;
+    }),
+  };
+}
@@ -0,0 +1,245 @@
+/**
+ * Comparison Events
+ * Status and progress changes are stored with an increasing id and announced with NOTIFY.
+ * Each server process relays them to its open streams from one shared LISTEN connection.
+ */
+
+import { Client } from 'pg';
+import { db, comparisonEvents } from '@/lib/db';
+import type { Comparison, ComparisonEvent } from '@/lib/db';
+import { and, asc, eq, gt, inArray, lt, sql } from 'drizzle-orm';
+
+const CHANNEL = 'comparison_events';
+const RECONNECT_DELAY_MS = 5000;
+const EVENT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export type ComparisonEventName = 'status' | 'progress';
+
+// ============ PUBLISHING ============
+
+export async function publishComparisonEvent(
+  comparisonId: string,
+  orgId: string,
+  event: ComparisonEventName,
+  data: Record<string, unknown>
+): Promise<void> {
+  const [inserted] = await db
+    .insert(comparisonEvents)
+    .values({ comparisonId, orgId, event, data: JSON.stringify(data) })
+    .returning({ id: comparisonEvents.id });
+
+  // Only the id goes in the notification, which keeps it well under NOTIFY's payload limit
+  await db.execute(sql`SELECT pg_notify(${CHANNEL}, ${String(inserted.id)})`);
+}
+
+export async function publishComparisonStatus(comparison: Comparison): Promise<void> {
+  await publishComparisonEvent(comparison.id, comparison.orgId, 'status', {
+    id: comparison.id,
+    name: comparison.name,
+    status: comparison.comparisonStatus,
+    overallRiskScore: comparison.overallRiskScore,
+    errorMessage: comparison.errorMessage,
+    completedAt: comparison.completedAt,
+  });
+}
+
+export async function publishComparisonProgress(comparison: Comparison): Promise<void> {
+  await publishComparisonEvent(comparison.id, comparison.orgId, 'progress', {
+    id: comparison.id,
+    stage: comparison.progressStage,
+    current: comparison.progressCurrent,
+    total: comparison.progressTotal,
+    percent: comparison.progressPercent ?? 0,
+    startedAt: comparison.progressStartedAt,
+    updatedAt: comparison.progressUpdatedAt,
+  });
+}
+
+// Events a reconnecting stream missed, oldest first
+export async function getComparisonEventsSince(
+  orgId: string,
+  afterId: number,
+  comparisonIds: string[] | null
+): Promise<ComparisonEvent[]> {
+  return db
+    .select()
+    .from(comparisonEvents)
+    .where(and(
+      eq(comparisonEvents.orgId, orgId),
+      gt(comparisonEvents.id, afterId),
+      comparisonIds ? inArray(comparisonEvents.comparisonId, comparisonIds) : undefined
+    ))
+    .orderBy(asc(comparisonEvents.id));
+}
+
+export async function getLatestComparisonEventId(): Promise<number> {
+  const [latest] = await db
+    .select({ id: sql<number>`COALESCE(MAX(${comparisonEvents.id}), 0)`.mapWith(Number) })
+    .from(comparisonEvents);
+
+  return latest.id;
+}
+
+// Events only need to outlive a dropped connection, not the comparison
+export async function pruneComparisonEvents(): Promise<void> {
+  await db
+    .delete(comparisonEvents)
+    .where(lt(comparisonEvents.createdAt, new Date(Date.now() - EVENT_RETENTION_MS)));
+}
+
+// ============ SHARED LISTENER ============
+
+type ComparisonEventSubscriber = (event: ComparisonEvent) => void;
+
+interface ListenerState {
+  subscribers: Set<ComparisonEventSubscriber>;
+  client: Client | null;
+  connecting: Promise<void> | null;
+  // Highest event id delivered, so a reconnect can catch up on what it missed
+  lastDeliveredId: number | null;
+  pendingIds: Set<number>;
+  delivering: Promise<void>;
+}
+
+// Kept on globalThis so dev-server module reloads share one LISTEN connection
+const globalForEvents = globalThis as typeof globalThis & {
+  comparisonEventListener?: ListenerState;
+};
+
+function getListener(): ListenerState {
+  if (!globalForEvents.comparisonEventListener) {
+    globalForEvents.comparisonEventListener = {
+      subscribers: new Set(),
+      client: null,
+      connecting: null,
+      lastDeliveredId: null,
+      pendingIds: new Set(),
+      delivering: Promise.resolve(),
+    };
+  }
+  return globalForEvents.comparisonEventListener;
+}
+
+function dispatch(listener: ListenerState, events: ComparisonEvent[]) {
+  for (const event of events) {
+    listener.lastDeliveredId = Math.max(listener.lastDeliveredId ?? 0, event.id);
+    for (const subscriber of listener.subscribers) {
+      try {
+        subscriber(event);
+      } catch (error) {
+        console.error('Error delivering comparison event:', error);
+      }
+    }
+  }
+}
+
+// Load and deliver the events named in notifications received so far, one batch at a time
+function deliverPending(listener: ListenerState) {
+  listener.delivering = listener.delivering.then(async () => {
+    if (listener.pendingIds.size === 0) return;
+    const ids = [...listener.pendingIds];
+    listener.pendingIds.clear();
+
+    try {
+      const events = await db
+        .select()
+        .from(comparisonEvents)
+        .where(inArray(comparisonEvents.id, ids))
+        .orderBy(asc(comparisonEvents.id));
+      dispatch(listener, events);
+    } catch (error) {
+      console.error('Error loading comparison events:', error);
+    }
+  });
+}
+
+// Deliver everything published while the connection was down
+function catchUp(listener: ListenerState, afterId: number) {
+  listener.delivering = listener.delivering.then(async () => {
+    try {
+      const events = await db
+        .select()
+        .from(comparisonEvents)
+        .where(gt(comparisonEvents.id, afterId))
+        .orderBy(asc(comparisonEvents.id));
+      dispatch(listener, events);
+    } catch (error) {
+      console.error('Error catching up on comparison events:', error);
+    }
+  });
+}
+
+function dropConnection(listener: ListenerState, client: Client) {
+  if (listener.client !== client) return;
+  listener.client = null;
+  client.end().catch(() => {});
+
+  setTimeout(() => {
+    ensureListening(listener).catch(err => console.error('Error reconnecting comparison event listener:', err));
+  }, RECONNECT_DELAY_MS);
+}
+
+async function connect(listener: ListenerState) {
+  const client = new Client({ connectionString: process.env.DATABASE_URL });
+
+  client.on('notification', message => {
+    const id = Number(message.payload);
+    if (!Number.isFinite(id)) return;
+    listener.pendingIds.add(id);
+    deliverPending(listener);
+  });
+  client.on('error', error => {
+    console.error('Comparison event listener error:', error);
+    dropConnection(listener, client);
+  });
+  client.on('end', () => dropConnection(listener, client));
+
+  try {
+    await client.connect();
+    await client.query(`LISTEN ${CHANNEL}`);
+  } catch (error) {
+    client.end().catch(() => {});
+    throw error;
+  }
+
+  listener.client = client;
+
+  if (listener.lastDeliveredId === null) {
+    listener.lastDeliveredId = await getLatestComparisonEventId();
+  } else {
+    catchUp(listener, listener.lastDeliveredId);
+  }
+}
+
+function ensureListening(listener: ListenerState): Promise<void> {
+  if (listener.client) return Promise.resolve();
+
+  if (!listener.connecting) {
+    listener.connecting = connect(listener).finally(() => {
+      listener.connecting = null;
+    });
+  }
+  return listener.connecting;
+}
+
+/**
+ * Receive every comparison event published from any process. Resolves once the shared
+ * connection is listening, so nothing published after that point is missed.
+ */
+export async function subscribeToComparisonEvents(
+  subscriber: ComparisonEventSubscriber
+): Promise<() => void> {
+  const listener = getListener();
+  listener.subscribers.add(subscriber);
+
+  try {
+    await ensureListening(listener);
+  } catch (error) {
+    listener.subscribers.delete(subscriber);
+    throw error;
+  }
+
+  return () => {
+    listener.subscribers.delete(subscriber);
+  };
+}
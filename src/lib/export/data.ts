@@ -0,0 +1,153 @@
+/**
+ * Comparison Export Data
+ * Loads a comparison with its contracts and clause pairs in the shape every export format uses
+ */
+
+import { db, contracts, clauses, comparisons, clauseComparisons } from '@/lib/db';
+import type { Clause, Comparison, Contract } from '@/lib/db';
+import { eq, inArray } from 'drizzle-orm';
+import { regionClause } from '@/lib/document-coverage';
+import { clauseTypeLabels, getClauseTaxonomy } from '@/lib/clause-taxonomy';
+import { parseDefinitionChanges, type DefinitionChange } from '@/lib/defined-terms';
+import { combineClauseContent, describeClauseGroup, parseClauseIds } from '@/lib/clause-groups';
+import { describeClauseMovement, parseBrokenCrossReferences, type BrokenCrossReference } from '@/lib/clause-movement';
+import { formatClauseType } from '@/lib/utils';
+
+export interface ExportClauseComparison {
+  id: string;
+  clauseType: string;
+  // Display name from the org's taxonomy
+  clauseTypeLabel: string;
+  status: string;
+  riskScore: number | null;
+  riskFactors: string[];
+  diffSummary: string | null;
+  deviationPercentage: number | null;
+  // Redefined terms the clause uses
+  definitionChanges: DefinitionChange[];
+  matchConfidence: number | null;
+  matchReason: string | null;
+  sourceClause: Clause | null;
+  targetClause: Clause | null;
+  // How a merge's or split's clauses relate, e.g. "Split into 8.1 and 8.2"
+  clauseGroup: string | null;
+  // How the clause moved or was renumbered, e.g. "Renumbered from 9 to 10"
+  clauseMovement: string | null;
+  // References in the revised clause to a section by its old or a missing number
+  brokenCrossReferences: BrokenCrossReference[];
+  // Text compared on each side: the clause, or a merge's or split's clauses combined
+  sourceText: string;
+  targetText: string;
+}
+
+export interface ComparisonExportData {
+  comparison: Comparison;
+  sourceContract: Contract;
+  targetContract: Contract;
+  clauseComparisons: ExportClauseComparison[];
+  // Display names of the org's clause types by key
+  clauseTypeLabels: Record<string, string>;
+}
+
+function parseRiskFactors(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Order clause pairs as they appear in the documents, falling back to clause type
+function documentOrder(a: ExportClauseComparison, b: ExportClauseComparison): number {
+  const positionOf = (cc: ExportClauseComparison) =>
+    cc.sourceClause?.startPosition ?? cc.targetClause?.startPosition ?? Number.MAX_SAFE_INTEGER;
+  return positionOf(a) - positionOf(b) || a.clauseType.localeCompare(b.clauseType);
+}
+
+/**
+ * Load a comparison for export, or null if it does not exist
+ */
+export async function loadComparisonForExport(comparisonId: string): Promise<ComparisonExportData | null> {
+  const [comparison] = await db
+    .select()
+    .from(comparisons)
+    .where(eq(comparisons.id, comparisonId));
+
+  if (!comparison) return null;
+
+  const contractRows = await db
+    .select()
+    .from(contracts)
+    .where(inArray(contracts.id, [comparison.sourceContractId, comparison.targetContractId]));
+
+  const sourceContract = contractRows.find(c => c.id === comparison.sourceContractId);
+  const targetContract = contractRows.find(c => c.id === comparison.targetContractId);
+  if (!sourceContract || !targetContract) return null;
+
+  const pairRows = await db
+    .select()
+    .from(clauseComparisons)
+    .where(eq(clauseComparisons.comparisonId, comparisonId));
+
+  const clauseIds = pairRows
+    .flatMap(cc => [
+      cc.sourceClauseId,
+      cc.targetClauseId,
+      ...parseClauseIds(cc.mergedSourceClauseIds),
+      ...parseClauseIds(cc.splitTargetClauseIds),
+    ])
+    .filter((id): id is string => Boolean(id));
+
+  const clauseRows = clauseIds.length > 0
+    ? await db.select().from(clauses).where(inArray(clauses.id, clauseIds))
+    : [];
+  const clausesById = new Map(clauseRows.map(c => [c.id, c]));
+  const labels = clauseTypeLabels(await getClauseTaxonomy(comparison.orgId));
+
+  const clausesFor = (ids: string[]) => ids.flatMap(id => clausesById.get(id) ?? []);
+
+  const clausePairs = pairRows
+    .map(cc => {
+      const sourceClause = cc.status === 'other'
+        ? regionClause(cc, 'source', sourceContract)
+        : cc.sourceClauseId ? clausesById.get(cc.sourceClauseId) ?? null : null;
+      const targetClause = cc.status === 'other'
+        ? regionClause(cc, 'target', targetContract)
+        : cc.targetClauseId ? clausesById.get(cc.targetClauseId) ?? null : null;
+      const sourceGroup = sourceClause ? [sourceClause, ...clausesFor(parseClauseIds(cc.mergedSourceClauseIds))] : [];
+      const targetGroup = targetClause ? [targetClause, ...clausesFor(parseClauseIds(cc.splitTargetClauseIds))] : [];
+
+      return {
+        id: cc.id,
+        clauseType: cc.clauseType,
+        clauseTypeLabel: formatClauseType(cc.clauseType, labels),
+        status: cc.status,
+        riskScore: cc.riskScore,
+        riskFactors: parseRiskFactors(cc.riskFactors),
+        diffSummary: cc.diffSummary,
+        deviationPercentage: cc.deviationPercentage,
+        definitionChanges: parseDefinitionChanges(cc.definitionChanges),
+        matchConfidence: cc.matchConfidence,
+        matchReason: cc.matchReason,
+        sourceClause,
+        targetClause,
+        clauseGroup: sourceClause && targetClause ? describeClauseGroup(sourceGroup, targetGroup) : null,
+        clauseMovement: describeClauseMovement(cc),
+        brokenCrossReferences: parseBrokenCrossReferences(cc.brokenCrossReferences),
+        sourceText: combineClauseContent(sourceGroup),
+        targetText: combineClauseContent(targetGroup),
+      };
+    })
+    .sort(documentOrder);
+
+  return { comparison, sourceContract, targetContract, clauseComparisons: clausePairs, clauseTypeLabels: labels };
+}
+
+// File name for a download, e.g. "Acme NDA - redline.docx"
+export function exportFilename(data: ComparisonExportData, suffix: string, extension: string): string {
+  const base = data.comparison.name || `${data.sourceContract.name} vs ${data.targetContract.name}`;
+  const safeBase = base.replace(/[^\w\s.-]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 100) || 'comparison';
+  return `${safeBase} - ${suffix}.${extension}`;
+}
@@ -0,0 +1,293 @@
+/**
+ * DOCX Redline Export
+ * Writes a comparison as a Word document with native tracked changes and
+ * a comment on each changed clause carrying its diff summary and risk score
+ */
+
+import * as Diff from 'diff';
+import { getRiskLevel } from '@/lib/utils';
+import { describeBrokenCrossReference } from '@/lib/clause-movement';
+import type { ComparisonExportData, ExportClauseComparison } from './data';
+import { XML_HEADER, escapeXml, zipPackage } from './xml';
+
+const REVISION_AUTHOR = 'Contract Clause Comparator';
+const REVISION_INITIALS = 'CCC';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const STATUS_LABELS: Record<string, string> = {
+  identical: 'Identical',
+  minor_change: 'Minor Changes',
+  significant_change: 'Significant Changes',
+  missing: 'Missing',
+  added: 'Added',
+  other: 'Unclassified Change',
+};
+
+type RunChange = 'ins' | 'del';
+
+interface RunSpec {
+  text: string;
+  change?: RunChange;
+  bold?: boolean;
+}
+
+interface ParagraphSpec {
+  runs: RunSpec[];
+  style?: string;
+  // Set when the paragraph break itself was inserted or deleted
+  markChange?: RunChange;
+}
+
+// ============ XML HELPERS ============
+
+// Word stores timestamps without milliseconds
+function wordDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+// ============ DOCUMENT BUILDER ============
+
+class RedlineDocument {
+  private body: string[] = [];
+  private comments: string[] = [];
+  private nextRevisionId = 1;
+  private readonly date: string;
+
+  constructor(date: Date) {
+    this.date = wordDate(date);
+  }
+
+  private revisionAttrs(): string {
+    return `w:id="${this.nextRevisionId++}" w:author="${escapeXml(REVISION_AUTHOR)}" w:date="${this.date}"`;
+  }
+
+  private runXml(run: RunSpec): string {
+    const textTag = run.change === 'del' ? 'w:delText' : 'w:t';
+    const content = run.text
+      .split('\t')
+      .map(segment => (segment ? `<${textTag} xml:space="preserve">${escapeXml(segment)}</${textTag}>` : ''))
+      .join('<w:tab/>');
+    const rPr = run.bold ? '<w:rPr><w:b/></w:rPr>' : '';
+    const xml = `<w:r>${rPr}${content}</w:r>`;
+
+    if (run.change === 'ins') return `<w:ins ${this.revisionAttrs()}>${xml}</w:ins>`;
+    if (run.change === 'del') return `<w:del ${this.revisionAttrs()}>${xml}</w:del>`;
+    return xml;
+  }
+
+  private paragraphXml(paragraph: ParagraphSpec, prefix = '', suffix = ''): string {
+    const pPrParts: string[] = [];
+    if (paragraph.style) pPrParts.push(`<w:pStyle w:val="${paragraph.style}"/>`);
+    if (paragraph.markChange) pPrParts.push(`<w:rPr><w:${paragraph.markChange} ${this.revisionAttrs()}/></w:rPr>`);
+    const pPr = pPrParts.length > 0 ? `<w:pPr>${pPrParts.join('')}</w:pPr>` : '';
+    return `<w:p>${pPr}${prefix}${paragraph.runs.map(run => this.runXml(run)).join('')}${suffix}</w:p>`;
+  }
+
+  addParagraph(paragraph: ParagraphSpec) {
+    this.body.push(this.paragraphXml(paragraph));
+  }
+
+  /**
+   * Add paragraphs with a comment anchored across all of them
+   */
+  addCommentedParagraphs(paragraphs: ParagraphSpec[], commentLines: string[]) {
+    if (paragraphs.length === 0) return;
+    const commentId = this.comments.length;
+
+    this.comments.push(
+      `<w:comment w:id="${commentId}" w:author="${escapeXml(REVISION_AUTHOR)}" w:date="${this.date}" w:initials="${REVISION_INITIALS}">` +
+      commentLines
+        .map((line, index) =>
+          `<w:p>${index === 0 ? '<w:r><w:annotationRef/></w:r>' : ''}<w:r><w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r></w:p>`
+        )
+        .join('') +
+      '</w:comment>'
+    );
+
+    paragraphs.forEach((paragraph, index) => {
+      const prefix = index === 0 ? `<w:commentRangeStart w:id="${commentId}"/>` : '';
+      const suffix = index === paragraphs.length - 1
+        ? `<w:commentRangeEnd w:id="${commentId}"/><w:r><w:commentReference w:id="${commentId}"/></w:r>`
+        : '';
+      this.body.push(this.paragraphXml(paragraph, prefix, suffix));
+    });
+  }
+
+  documentXml(): string {
+    return `${XML_HEADER}<w:document xmlns:w="${W_NS}" xmlns:r="${REL_NS}"><w:body>${this.body.join('')}` +
+      '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>' +
+      '</w:body></w:document>';
+  }
+
+  commentsXml(): string {
+    return `${XML_HEADER}<w:comments xmlns:w="${W_NS}">${this.comments.join('')}</w:comments>`;
+  }
+}
+
+// ============ CLAUSE CONTENT ============
+
+function splitParagraphs(text: string, change?: RunChange): ParagraphSpec[] {
+  return text
+    .split(/\r?\n+/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => ({ runs: [{ text: line, change }], markChange: change }));
+}
+
+/**
+ * Turn a word diff into paragraphs of tracked runs
+ * A newline inside an inserted or deleted part means the paragraph break was
+ * itself inserted or deleted, so the paragraph mark is tracked too
+ */
+function diffToParagraphs(sourceText: string, targetText: string): ParagraphSpec[] {
+  const paragraphs: ParagraphSpec[] = [];
+  let current: RunSpec[] = [];
+
+  for (const part of Diff.diffWords(sourceText, targetText)) {
+    const change: RunChange | undefined = part.added ? 'ins' : part.removed ? 'del' : undefined;
+    part.value.split(/\r?\n+/).forEach((line, index) => {
+      if (index > 0) {
+        paragraphs.push({ runs: current, markChange: change });
+        current = [];
+      }
+      if (line) current.push({ text: line, change });
+    });
+  }
+  paragraphs.push({ runs: current });
+
+  return paragraphs.filter(p => p.runs.some(run => run.text.trim()));
+}
+
+function clauseHeading(cc: ExportClauseComparison): ParagraphSpec {
+  const title = cc.targetClause?.title || cc.sourceClause?.title;
+  const typeLabel = cc.clauseTypeLabel;
+  const text = title && title.toLowerCase() !== typeLabel.toLowerCase() ? `${typeLabel}: ${title}` : typeLabel;
+  return { style: 'Heading2', runs: [{ text }] };
+}
+
+function clauseBody(cc: ExportClauseComparison): ParagraphSpec[] {
+  const { sourceText, targetText } = cc;
+
+  switch (cc.status) {
+    case 'missing':
+      return splitParagraphs(sourceText, 'del');
+    case 'added':
+      return splitParagraphs(targetText, 'ins');
+    case 'identical':
+      return splitParagraphs(targetText || sourceText);
+    default:
+      return diffToParagraphs(sourceText, targetText);
+  }
+}
+
+function clauseComment(cc: ExportClauseComparison): string[] {
+  const status = STATUS_LABELS[cc.status] || cc.status;
+  const lines = [
+    cc.riskScore !== null
+      ? `Risk score: ${Math.round(cc.riskScore)}/100 (${getRiskLevel(cc.riskScore)}) · ${status}`
+      : status,
+  ];
+  if (cc.clauseGroup) lines.push(cc.clauseGroup);
+  if (cc.clauseMovement) lines.push(cc.clauseMovement);
+  if (cc.diffSummary) lines.push(cc.diffSummary);
+  if (cc.definitionChanges.length > 0) {
+    lines.push(`Uses redefined terms: ${cc.definitionChanges.map(change => `"${change.term}"`).join(', ')}`);
+  }
+  if (cc.brokenCrossReferences.length > 0) {
+    lines.push(`Check the cross-references: ${cc.brokenCrossReferences.map(describeBrokenCrossReference).join(', ')}`);
+  }
+  for (const factor of cc.riskFactors) {
+    lines.push(`• ${factor}`);
+  }
+  return lines;
+}
+
+// ============ PACKAGE PARTS ============
+
+const CONTENT_TYPES_XML = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+  '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+  '<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>' +
+  '<Override PartName="/word/comments.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS_XML = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="word/document.xml"/>` +
+  '</Relationships>';
+
+const DOCUMENT_RELS_XML = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  `<Relationship Id="rId1" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+  `<Relationship Id="rId2" Type="${REL_NS}/settings" Target="settings.xml"/>` +
+  `<Relationship Id="rId3" Type="${REL_NS}/comments" Target="comments.xml"/>` +
+  '</Relationships>';
+
+// Keep tracking on so the lawyer's own edits are recorded as revisions too
+const SETTINGS_XML = `${XML_HEADER}<w:settings xmlns:w="${W_NS}"><w:trackRevisions/></w:settings>`;
+
+function headingStyle(id: string, name: string, size: number, outlineLevel: number): string {
+  return `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${outlineLevel}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+}
+
+const STYLES_XML = `${XML_HEADER}<w:styles xmlns:w="${W_NS}">` +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="259" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>' +
+  '<w:rPr><w:b/><w:sz w:val="40"/></w:rPr></w:style>' +
+  headingStyle('Heading1', 'heading 1', 32, 0) +
+  headingStyle('Heading2', 'heading 2', 26, 1) +
+  '</w:styles>';
+
+// ============ EXPORT ============
+
+/**
+ * Build the redline document
+ * Each clause pair becomes a heading plus its text, with insertions and
+ * deletions taken from the same word diff the diff viewer shows
+ */
+export async function buildDocxRedline(data: ComparisonExportData): Promise<ArrayBuffer> {
+  const { comparison, sourceContract, targetContract } = data;
+  const doc = new RedlineDocument(comparison.completedAt || new Date());
+
+  doc.addParagraph({
+    style: 'Title',
+    runs: [{ text: comparison.name || `${sourceContract.name} → ${targetContract.name}` }],
+  });
+  doc.addParagraph({ runs: [{ text: `${sourceContract.name} → ${targetContract.name}` }] });
+  if (comparison.overallRiskScore !== null) {
+    doc.addParagraph({
+      runs: [
+        { text: 'Overall risk score: ', bold: true },
+        { text: `${Math.round(comparison.overallRiskScore)}/100 (${getRiskLevel(comparison.overallRiskScore)})` },
+      ],
+    });
+  }
+
+  doc.addParagraph({ style: 'Heading1', runs: [{ text: 'Clauses' }] });
+  for (const cc of data.clauseComparisons) {
+    const paragraphs = [clauseHeading(cc), ...clauseBody(cc)];
+    // An unchanged clause still gets a comment when a term it uses was redefined, it was split or
+    // merged, or it refers to a section by the wrong number
+    if (cc.status === 'identical' && cc.definitionChanges.length === 0 && !cc.clauseGroup && cc.brokenCrossReferences.length === 0) {
+      paragraphs.forEach(paragraph => doc.addParagraph(paragraph));
+    } else {
+      doc.addCommentedParagraphs(paragraphs, clauseComment(cc));
+    }
+  }
+
+  return zipPackage({
+    '[Content_Types].xml': CONTENT_TYPES_XML,
+    '_rels/.rels': ROOT_RELS_XML,
+    'word/document.xml': doc.documentXml(),
+    'word/_rels/document.xml.rels': DOCUMENT_RELS_XML,
+    'word/styles.xml': STYLES_XML,
+    'word/settings.xml': SETTINGS_XML,
+    'word/comments.xml': doc.commentsXml(),
+  });
+}
@@ -0,0 +1,621 @@
+/**
+ * PDF Comparison Report
+ * Renders a comparison as a branded, self-contained PDF: change assessment,
+ * executive summary with clause links, most changed clauses and a word diff
+ * for every clause. Built locally with pdf-lib so no renderer service is needed
+ */
+
+import { PDFDocument, PDFFont, PDFImage, PDFPage, PDFRef, StandardFonts, rgb, type RGB } from 'pdf-lib';
+import * as Diff from 'diff';
+import { formatClauseType } from '@/lib/utils';
+import { describeBrokenCrossReference } from '@/lib/clause-movement';
+import type { ComparisonExportData, ExportClauseComparison } from './data';
+
+export interface ReportBranding {
+  siteName?: string | null;
+  // Data URL as stored by the customization settings; PNG and JPEG are supported
+  logoUrl?: string | null;
+}
+
+const DEFAULT_SITE_NAME = 'Contract Clause Comparator';
+
+// US Letter, with 0.75in margins
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 24;
+
+const COLORS = {
+  text: rgb(0.1, 0.1, 0.12),
+  muted: rgb(0.42, 0.44, 0.48),
+  border: rgb(0.86, 0.87, 0.89),
+  track: rgb(0.93, 0.94, 0.95),
+  link: rgb(0.15, 0.39, 0.92),
+  added: rgb(0.09, 0.5, 0.24),
+  removed: rgb(0.75, 0.11, 0.11),
+  red: rgb(0.86, 0.15, 0.15),
+  orange: rgb(0.92, 0.45, 0.09),
+  yellow: rgb(0.92, 0.7, 0.03),
+  green: rgb(0.13, 0.64, 0.3),
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  identical: 'Identical',
+  minor_change: 'Minor Changes',
+  significant_change: 'Significant Changes',
+  missing: 'Missing',
+  added: 'Added',
+  other: 'Unclassified Change',
+};
+
+// Same bands and labels as the risk dashboard
+function getChangeLevel(score: number): string {
+  if (score >= 75) return 'Substantial';
+  if (score >= 50) return 'Significant';
+  if (score >= 25) return 'Moderate';
+  return 'Minor';
+}
+
+function getChangeColor(score: number): RGB {
+  if (score >= 75) return COLORS.red;
+  if (score >= 50) return COLORS.orange;
+  if (score >= 25) return COLORS.yellow;
+  return COLORS.green;
+}
+
+// ============ TEXT LAYOUT ============
+
+interface TextSegment {
+  text: string;
+  font?: 'regular' | 'bold' | 'italic';
+  color?: RGB;
+  strike?: boolean;
+  underline?: boolean;
+  // Clause type whose section this text links to
+  linkTo?: string;
+}
+
+interface TextOptions {
+  size?: number;
+  indent?: number;
+  lineGap?: number;
+  spaceAfter?: number;
+}
+
+interface PendingLink {
+  page: PDFPage;
+  rect: [number, number, number, number];
+  anchor: string;
+}
+
+interface Anchor {
+  pageRef: PDFRef;
+  y: number;
+}
+
+class PdfReport {
+  private page!: PDFPage;
+  private y = 0;
+  private readonly anchors = new Map<string, Anchor>();
+  private readonly links: PendingLink[] = [];
+  private readonly charsets = new Map<PDFFont, Set<number>>();
+
+  constructor(
+    private readonly doc: PDFDocument,
+    private readonly fonts: Record<'regular' | 'bold' | 'italic', PDFFont>
+  ) {
+    this.addPage();
+  }
+
+  addPage() {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Start a new page unless there is room for the given height
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) {
+      this.addPage();
+    }
+  }
+
+  moveDown(amount: number) {
+    this.y -= amount;
+  }
+
+  /**
+   * The standard PDF fonts only cover WinAnsi, so swap anything else for a
+   * close equivalent rather than failing the whole report
+   */
+  private encodable(text: string, font: PDFFont): string {
+    let charset = this.charsets.get(font);
+    if (!charset) {
+      charset = new Set(font.getCharacterSet());
+      this.charsets.set(font, charset);
+    }
+    return text
+      .replace(/\u2192/g, '->')
+      .replace(/\u2190/g, '<-')
+      .replace(/\u2264/g, '<=')
+      .replace(/\u2265/g, '>=')
+      .replace(/[\u00A0\u2000-\u200B]/g, ' ')
+      .replace(/[\s\S]/gu, char => (charset.has(char.codePointAt(0)!) || char === '\n' ? char : '?'));
+  }
+
+  markAnchor(anchor: string) {
+    if (!this.anchors.has(anchor)) {
+      this.anchors.set(anchor, { pageRef: this.page.ref, y: this.y + 8 });
+    }
+  }
+
+  /**
+   * Draw wrapped text made of styled segments
+   * Newlines in segment text start a new line
+   */
+  text(segments: TextSegment[], options: TextOptions = {}) {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    const lineHeight = size * 1.35 + (options.lineGap ?? 0);
+    const left = MARGIN + indent;
+    const maxWidth = CONTENT_WIDTH - indent;
+
+    let x = left;
+    let lineStarted = false;
+    this.ensureSpace(lineHeight);
+
+    const newLine = () => {
+      this.y -= lineHeight;
+      x = left;
+      lineStarted = false;
+      this.ensureSpace(lineHeight);
+    };
+
+    for (const segment of segments) {
+      const font = this.fonts[segment.font ?? 'regular'];
+      const color = segment.color ?? COLORS.text;
+      const tokens = this.encodable(segment.text, font).split(/(\n|[ \t]+)/);
+
+      for (const token of tokens) {
+        if (!token) continue;
+        if (token === '\n') {
+          newLine();
+          continue;
+        }
+        const isSpace = /^[ \t]+$/.test(token);
+        if (isSpace && !lineStarted) continue;
+
+        let word = isSpace ? ' ' : token;
+        let width = font.widthOfTextAtSize(word, size);
+
+        if (!isSpace && x + width > left + maxWidth && lineStarted) {
+          newLine();
+        }
+
+        // Break words longer than a whole line
+        while (!isSpace && width > maxWidth) {
+          let fit = word.length - 1;
+          while (fit > 1 && font.widthOfTextAtSize(word.slice(0, fit), size) > left + maxWidth - x) fit--;
+          this.drawToken(word.slice(0, fit), x, font, size, color, segment);
+          word = word.slice(fit);
+          width = font.widthOfTextAtSize(word, size);
+          newLine();
+        }
+
+        if (isSpace && x + width > left + maxWidth) {
+          newLine();
+          continue;
+        }
+
+        this.drawToken(word, x, font, size, color, segment);
+        x += width;
+        lineStarted = true;
+      }
+    }
+
+    this.y -= lineHeight + (options.spaceAfter ?? 4);
+  }
+
+  private drawToken(token: string, x: number, font: PDFFont, size: number, color: RGB, segment: TextSegment) {
+    const baseline = this.y - size;
+    const width = font.widthOfTextAtSize(token, size);
+    this.page.drawText(token, { x, y: baseline, size, font, color });
+
+    if (segment.strike) {
+      const mid = baseline + size * 0.3;
+      this.page.drawLine({ start: { x, y: mid }, end: { x: x + width, y: mid }, thickness: 0.6, color });
+    }
+    if (segment.underline || segment.linkTo) {
+      const under = baseline - 1.5;
+      this.page.drawLine({ start: { x, y: under }, end: { x: x + width, y: under }, thickness: 0.5, color });
+    }
+    if (segment.linkTo) {
+      // Extend the previous link when this word continues it on the same line
+      const last = this.links[this.links.length - 1];
+      if (last && last.page === this.page && last.anchor === segment.linkTo && last.rect[1] === baseline - 3) {
+        last.rect[2] = x + width;
+      } else {
+        this.links.push({
+          page: this.page,
+          rect: [x, baseline - 3, x + width, baseline + size],
+          anchor: segment.linkTo,
+        });
+      }
+    }
+  }
+
+  heading(text: string, size = 14) {
+    this.ensureSpace(size * 3);
+    this.moveDown(size * 0.6);
+    this.text([{ text, font: 'bold' }], { size, spaceAfter: 2 });
+  }
+
+  rule() {
+    this.ensureSpace(10);
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.75,
+      color: COLORS.border,
+    });
+    this.moveDown(10);
+  }
+
+  meter(score: number) {
+    const height = 8;
+    this.ensureSpace(height + 20);
+    const clamped = Math.max(0, Math.min(100, score));
+    this.page.drawRectangle({ x: MARGIN, y: this.y - height, width: CONTENT_WIDTH, height, color: COLORS.track });
+    if (clamped > 0) {
+      this.page.drawRectangle({
+        x: MARGIN,
+        y: this.y - height,
+        width: (CONTENT_WIDTH * clamped) / 100,
+        height,
+        color: getChangeColor(score),
+      });
+    }
+    this.moveDown(height + 4);
+
+    const labels = ['Minor', 'Moderate', 'Significant', 'Substantial'];
+    const font = this.fonts.regular;
+    labels.forEach((label, index) => {
+      const width = font.widthOfTextAtSize(label, 8);
+      const x = MARGIN + (CONTENT_WIDTH - width) * (index / (labels.length - 1));
+      this.page.drawText(label, { x, y: this.y - 8, size: 8, font, color: COLORS.muted });
+    });
+    this.moveDown(18);
+  }
+
+  image(image: PDFImage, maxHeight: number): number {
+    const scale = Math.min(maxHeight / image.height, 160 / image.width, 1);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    this.page.drawImage(image, { x: MARGIN, y: this.y - height, width, height });
+    return width;
+  }
+
+  drawTextAt(text: string, x: number, yOffset: number, size: number, font: 'regular' | 'bold', color: RGB = COLORS.text) {
+    const pdfFont = this.fonts[font];
+    this.page.drawText(this.encodable(text, pdfFont), { x, y: this.y - yOffset, size, font: pdfFont, color });
+  }
+
+  /**
+   * Turn recorded clause links into link annotations and stamp page footers
+   * Runs last, once every anchor's page is known
+   */
+  finish(footerText: string) {
+    for (const link of this.links) {
+      const anchor = this.anchors.get(link.anchor);
+      if (!anchor) continue;
+      const annotation = this.doc.context.register(
+        this.doc.context.obj({
+          Type: 'Annot',
+          Subtype: 'Link',
+          Rect: link.rect,
+          Border: [0, 0, 0],
+          Dest: [anchor.pageRef, 'XYZ', null, anchor.y, null],
+        })
+      );
+      link.page.node.addAnnot(annotation);
+    }
+
+    const pages = this.doc.getPages();
+    const font = this.fonts.regular;
+    const footer = this.encodable(footerText, font);
+    pages.forEach((page, index) => {
+      const pageLabel = `Page ${index + 1} of ${pages.length}`;
+      page.drawText(footer, { x: MARGIN, y: MARGIN / 2, size: 8, font, color: COLORS.muted });
+      page.drawText(pageLabel, {
+        x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(pageLabel, 8),
+        y: MARGIN / 2,
+        size: 8,
+        font,
+        color: COLORS.muted,
+      });
+    });
+  }
+}
+
+// ============ REPORT SECTIONS ============
+
+async function embedLogo(doc: PDFDocument, logoUrl: string | null | undefined): Promise<PDFImage | null> {
+  const match = logoUrl?.match(/^data:image\/(png|jpe?g);base64,(.+)$/i);
+  if (!match) return null;
+  try {
+    const bytes = Buffer.from(match[2], 'base64');
+    return match[1].toLowerCase() === 'png' ? await doc.embedPng(bytes) : await doc.embedJpg(bytes);
+  } catch {
+    // A corrupt logo should not stop the report
+    return null;
+  }
+}
+
+function anchorFor(clauseType: string): string {
+  return `clause:${clauseType.toLowerCase()}`;
+}
+
+/**
+ * Executive summary text with [[clause_type]] references turned into links,
+ * cleaned of markdown the same way the ExecutiveSummary component does
+ */
+function summarySegments(summary: string, linkedTypes: Set<string>, labels: Record<string, string>): TextSegment[] {
+  const cleanSummary = summary
+    .replace(/\*\*/g, '')
+    .replace(/\*/g, '')
+    .replace(/^#+\s*/gm, '')
+    .replace(/^[-•]\s*/gm, '')
+    .trim();
+
+  const segments: TextSegment[] = [];
+  const regex = /\[\[([^\]]+)\]\]/g;
+  let lastIndex = 0;
+  let match;
+
+  while ((match = regex.exec(cleanSummary)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ text: cleanSummary.slice(lastIndex, match.index) });
+    }
+    const clauseType = match[1].toLowerCase();
+    segments.push(
+      linkedTypes.has(clauseType)
+        ? { text: formatClauseType(clauseType, labels), color: COLORS.link, linkTo: anchorFor(clauseType) }
+        : { text: formatClauseType(clauseType, labels), font: 'bold' }
+    );
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < cleanSummary.length) {
+    segments.push({ text: cleanSummary.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+function diffSegments(cc: ExportClauseComparison): TextSegment[] {
+  const { sourceText, targetText } = cc;
+
+  if (cc.status === 'missing') {
+    return [{ text: sourceText, color: COLORS.removed, strike: true }];
+  }
+  if (cc.status === 'added') {
+    return [{ text: targetText, color: COLORS.added, underline: true }];
+  }
+  if (cc.status === 'identical') {
+    return [{ text: targetText || sourceText }];
+  }
+
+  return Diff.diffWords(sourceText, targetText).map(part => {
+    if (part.added) return { text: part.value, color: COLORS.added, underline: true };
+    if (part.removed) return { text: part.value, color: COLORS.removed, strike: true };
+    return { text: part.value };
+  });
+}
+
+function clauseHeading(cc: ExportClauseComparison): string {
+  const title = cc.targetClause?.title || cc.sourceClause?.title;
+  const typeLabel = cc.clauseTypeLabel;
+  return title && title.toLowerCase() !== typeLabel.toLowerCase() ? `${typeLabel}: ${title}` : typeLabel;
+}
+
+function drawChangeAssessment(report: PdfReport, data: ComparisonExportData) {
+  const score = Math.round(data.comparison.overallRiskScore ?? 0);
+  const pairs = data.clauseComparisons;
+
+  report.heading('Change Assessment');
+  report.text([
+    { text: 'Significant Changes Score: ', font: 'bold' },
+    { text: `${score}/100`, font: 'bold', color: getChangeColor(score) },
+    { text: `  (${getChangeLevel(score)} Changes)`, color: COLORS.muted },
+  ], { size: 12 });
+  report.meter(score);
+
+  // Clause counts by outcome and by risk band
+  const statusCounts = Object.keys(STATUS_LABELS)
+    .map(status => ({ status, count: pairs.filter(cc => cc.status === status).length }))
+    .filter(entry => entry.count > 0)
+    .map(entry => `${STATUS_LABELS[entry.status]}: ${entry.count}`);
+  report.text([
+    { text: 'Clauses compared: ', font: 'bold' },
+    { text: `${pairs.length}` },
+    ...(statusCounts.length > 0 ? [{ text: `  —  ${statusCounts.join('  ·  ')}`, color: COLORS.muted }] : []),
+  ]);
+
+  const bands = ['Substantial', 'Significant', 'Moderate', 'Minor']
+    .map(level => ({
+      level,
+      count: pairs.filter(cc => cc.riskScore !== null && cc.riskScore > 0 && getChangeLevel(cc.riskScore) === level).length,
+    }))
+    .filter(band => band.count > 0)
+    .map(band => `${band.level}: ${band.count}`);
+  if (bands.length > 0) {
+    report.text([
+      { text: 'Changed clauses by level: ', font: 'bold' },
+      { text: bands.join('  ·  ') },
+    ]);
+  }
+
+  const changeFactors = pairs
+    .flatMap(cc => cc.riskFactors)
+    .filter((factor, index, self) => self.indexOf(factor) === index)
+    .slice(0, 8);
+  if (changeFactors.length > 0) {
+    report.text([{ text: 'Key Change Factors', font: 'bold' }], { spaceAfter: 0 });
+    for (const factor of changeFactors) {
+      report.text([{ text: `• ${factor}` }], { indent: 10, spaceAfter: 0 });
+    }
+    report.moveDown(4);
+  }
+}
+
+function drawTopClauses(report: PdfReport, data: ComparisonExportData) {
+  const topChangedClauses = data.clauseComparisons
+    .filter(cc => cc.riskScore && cc.riskScore > 0)
+    .sort((a, b) => (b.riskScore || 0) - (a.riskScore || 0))
+    .slice(0, 5);
+  if (topChangedClauses.length === 0) return;
+
+  report.heading('Most Changed Clauses');
+  topChangedClauses.forEach((cc, index) => {
+    const score = Math.round(cc.riskScore || 0);
+    report.text([
+      { text: `${index + 1}. ` },
+      { text: clauseHeading(cc), color: COLORS.link, linkTo: anchorFor(cc.clauseType) },
+      { text: `  ${score}/100`, font: 'bold', color: getChangeColor(score) },
+      ...(cc.deviationPercentage
+        ? [{ text: `  ·  ${cc.deviationPercentage}% deviation from standard`, color: COLORS.muted }]
+        : []),
+    ], { spaceAfter: 0 });
+    if (cc.diffSummary) {
+      report.text([{ text: cc.diffSummary, color: COLORS.muted }], { size: 9, indent: 14, spaceAfter: 2 });
+    }
+  });
+}
+
+function drawClauseSection(report: PdfReport, cc: ExportClauseComparison) {
+  report.ensureSpace(80);
+  report.markAnchor(anchorFor(cc.clauseType));
+  report.heading(clauseHeading(cc), 12);
+
+  const meta: TextSegment[] = [{ text: STATUS_LABELS[cc.status] || cc.status, font: 'bold' }];
+  if (cc.riskScore !== null) {
+    const score = Math.round(cc.riskScore);
+    meta.push({ text: '  ·  Risk ' }, { text: `${score}/100`, font: 'bold', color: getChangeColor(score) });
+  }
+  if (cc.deviationPercentage) {
+    meta.push({ text: `  ·  ${cc.deviationPercentage}% deviation`, color: COLORS.muted });
+  }
+  if (cc.clauseGroup) {
+    meta.push({ text: `  ·  ${cc.clauseGroup}`, color: COLORS.muted });
+  }
+  if (cc.clauseMovement) {
+    meta.push({ text: `  ·  ${cc.clauseMovement}`, color: COLORS.muted });
+  }
+  report.text(meta, { size: 9 });
+
+  if (cc.diffSummary) {
+    report.text([{ text: cc.diffSummary, font: 'italic' }], { size: 9 });
+  }
+
+  report.text(diffSegments(cc), { size: 9.5, lineGap: 1, spaceAfter: 6 });
+
+  if (cc.definitionChanges.length > 0) {
+    report.text([
+      { text: 'Uses redefined terms: ', font: 'bold' },
+      { text: cc.definitionChanges.map(change => `"${change.term}"`).join(', ') },
+    ], { size: 9 });
+  }
+
+  if (cc.brokenCrossReferences.length > 0) {
+    report.text([
+      { text: 'Check the cross-references: ', font: 'bold' },
+      { text: cc.brokenCrossReferences.map(describeBrokenCrossReference).join(', ') },
+    ], { size: 9 });
+  }
+
+  if (cc.riskFactors.length > 0) {
+    report.text([{ text: 'Risk factors', font: 'bold' }], { size: 9, spaceAfter: 0 });
+    for (const factor of cc.riskFactors) {
+      report.text([{ text: `• ${factor}` }], { size: 9, indent: 10, spaceAfter: 0 });
+    }
+    report.moveDown(4);
+  }
+  report.rule();
+}
+
+// ============ EXPORT ============
+
+/**
+ * Build the PDF report for a completed comparison
+ */
+export async function buildPdfReport(data: ComparisonExportData, branding: ReportBranding = {}): Promise<Uint8Array> {
+  const { comparison, sourceContract, targetContract } = data;
+  const siteName = branding.siteName?.trim() || DEFAULT_SITE_NAME;
+  const title = comparison.name || `${sourceContract.name} → ${targetContract.name}`;
+
+  const doc = await PDFDocument.create();
+  doc.setTitle(title);
+  doc.setAuthor(siteName);
+  doc.setCreator(DEFAULT_SITE_NAME);
+  doc.setCreationDate(new Date());
+
+  const fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    italic: await doc.embedFont(StandardFonts.HelveticaOblique),
+  };
+  const report = new PdfReport(doc, fonts);
+
+  // Branded header: logo beside the firm name
+  const logo = await embedLogo(doc, branding.logoUrl);
+  const logoWidth = logo ? report.image(logo, 36) + 10 : 0;
+  report.drawTextAt(siteName, MARGIN + logoWidth, logo ? 22 : 12, 12, 'bold', COLORS.muted);
+  report.moveDown(logo ? 48 : 24);
+
+  report.text([{ text: title, font: 'bold' }], { size: 20, spaceAfter: 2 });
+  report.text([{ text: `${sourceContract.name} → ${targetContract.name}`, color: COLORS.muted }], { size: 11, spaceAfter: 0 });
+  const completedAt = comparison.completedAt || comparison.createdAt;
+  report.text([{
+    text: `Compared ${completedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`,
+    color: COLORS.muted,
+  }], { size: 9 });
+  report.rule();
+
+  drawChangeAssessment(report, data);
+
+  if (comparison.summary) {
+    const linkedTypes = new Set(data.clauseComparisons.map(cc => cc.clauseType.toLowerCase()));
+    report.heading('Executive Summary');
+    report.text(summarySegments(comparison.summary, linkedTypes, data.clauseTypeLabels), { lineGap: 1 });
+  }
+
+  drawTopClauses(report, data);
+
+  // A clause whose text is unchanged is still detailed when a term it uses was redefined, when
+  // it was split up or merged with others, or when it refers to a section by the wrong number
+  const isUnchanged = (cc: ExportClauseComparison) =>
+    cc.status === 'identical' && cc.definitionChanges.length === 0 && !cc.clauseGroup &&
+    cc.brokenCrossReferences.length === 0;
+  const changed = data.clauseComparisons.filter(cc => !isUnchanged(cc));
+  const unchanged = data.clauseComparisons.filter(isUnchanged);
+
+  if (changed.length > 0) {
+    report.addPage();
+    report.heading('Clause Details', 16);
+    report.text([
+      { text: 'Removed text', color: COLORS.removed, strike: true },
+      { text: '   ' },
+      { text: 'Added text', color: COLORS.added, underline: true },
+    ], { size: 9, spaceAfter: 8 });
+    changed.forEach(cc => drawClauseSection(report, cc));
+  }
+
+  if (unchanged.length > 0) {
+    report.heading('Unchanged Clauses');
+    unchanged.forEach(cc => report.markAnchor(anchorFor(cc.clauseType)));
+    report.text([{ text: unchanged.map(clauseHeading).join(', '), color: COLORS.muted }]);
+  }
+
+  report.finish(`${siteName} · ${title}`);
+  return doc.save();
+}
@@ -0,0 +1,244 @@
+/**
+ * Spreadsheet Export
+ * Clause-level comparison results as CSV, or as an XLSX workbook with a
+ * second sheet for the comparison metadata and semantic tags
+ */
+
+import type { SemanticTag } from '@/lib/casedev';
+import { describeBrokenCrossReference } from '@/lib/clause-movement';
+import type { ComparisonExportData, ExportClauseComparison } from './data';
+import { XML_HEADER, escapeXml, zipPackage } from './xml';
+
+type CellValue = string | number | null;
+
+interface Column {
+  header: string;
+  width: number;
+  value: (cc: ExportClauseComparison) => CellValue;
+}
+
+// Excel refuses cells longer than this
+const MAX_CELL_LENGTH = 32767;
+
+const STATUS_LABELS: Record<string, string> = {
+  identical: 'Identical',
+  minor_change: 'Minor Changes',
+  significant_change: 'Significant Changes',
+  missing: 'Missing',
+  added: 'Added',
+  other: 'Unclassified Change',
+};
+
+const CLAUSE_COLUMNS: Column[] = [
+  { header: 'Clause Type', width: 24, value: cc => cc.clauseType },
+  { header: 'Source Title', width: 28, value: cc => cc.sourceClause?.title ?? null },
+  { header: 'Target Title', width: 28, value: cc => cc.targetClause?.title ?? null },
+  { header: 'Status', width: 18, value: cc => STATUS_LABELS[cc.status] || cc.status },
+  { header: 'Split / Merge', width: 24, value: cc => cc.clauseGroup },
+  { header: 'Moved / Renumbered', width: 24, value: cc => cc.clauseMovement },
+  { header: 'Match Confidence %', width: 12, value: cc => cc.matchConfidence !== null ? Math.round(cc.matchConfidence * 100) : null },
+  { header: 'Match Reason', width: 40, value: cc => cc.matchReason },
+  { header: 'Risk Score', width: 11, value: cc => cc.riskScore },
+  { header: 'Deviation %', width: 12, value: cc => cc.deviationPercentage },
+  { header: 'Risk Factors', width: 48, value: cc => cc.riskFactors.join('\n') || null },
+  { header: 'Diff Summary', width: 60, value: cc => cc.diffSummary },
+  { header: 'Redefined Terms', width: 28, value: cc => cc.definitionChanges.map(change => change.term).join('\n') || null },
+  { header: 'Broken Cross-References', width: 32, value: cc => cc.brokenCrossReferences.map(describeBrokenCrossReference).join('\n') || null },
+  { header: 'Source Clause', width: 80, value: cc => cc.sourceText || null },
+  { header: 'Target Clause', width: 80, value: cc => cc.targetText || null },
+];
+
+function parseSemanticTags(value: string | null): SemanticTag[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// ============ CSV ============
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: CellValue): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per clause pair; risk factors are separated by semicolons
+ */
+export function buildCsv(data: ComparisonExportData): string {
+  const rows = [
+    CLAUSE_COLUMNS.map(column => column.header),
+    ...data.clauseComparisons.map(cc =>
+      CLAUSE_COLUMNS.map(column => {
+        const value = column.value(cc);
+        return column.header === 'Risk Factors' && typeof value === 'string' ? value.replace(/\n/g, '; ') : value;
+      })
+    ),
+  ];
+
+  // The byte order mark makes Excel read the file as UTF-8
+  return '\uFEFF' + rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// ============ XLSX ============
+
+// Style indexes into the cellXfs of STYLES_XML
+const STYLE = { default: 0, header: 1, wrap: 2, label: 3 } as const;
+
+interface SheetCell {
+  value: CellValue;
+  style?: number;
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellXml(cell: SheetCell, ref: string): string {
+  const style = cell.style ? ` s="${cell.style}"` : '';
+  if (cell.value === null || cell.value === '') return '';
+  if (typeof cell.value === 'number') {
+    return `<c r="${ref}"${style}><v>${cell.value}</v></c>`;
+  }
+  const text = cell.value.slice(0, MAX_CELL_LENGTH);
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+function sheetXml(rows: SheetCell[][], widths: number[], options: { freezeHeader?: boolean } = {}): string {
+  const cols = widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('');
+  const sheetData = rows
+    .map((row, rowIndex) => {
+      const cells = row.map((cell, colIndex) => cellXml(cell, `${columnName(colIndex)}${rowIndex + 1}`)).join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const lastColumn = columnName(widths.length - 1);
+  const views = options.freezeHeader
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : '<sheetViews><sheetView workbookViewId="0"/></sheetViews>';
+  const autoFilter = options.freezeHeader && rows.length > 1 ? `<autoFilter ref="A1:${lastColumn}${rows.length}"/>` : '';
+
+  return `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `${views}<cols>${cols}</cols><sheetData>${sheetData}</sheetData>${autoFilter}</worksheet>`;
+}
+
+function clausesSheet(data: ComparisonExportData): string {
+  const header = CLAUSE_COLUMNS.map(column => ({ value: column.header, style: STYLE.header }));
+  const rows = data.clauseComparisons.map(cc =>
+    CLAUSE_COLUMNS.map(column => ({ value: column.value(cc), style: STYLE.wrap }))
+  );
+  return sheetXml([header, ...rows], CLAUSE_COLUMNS.map(column => column.width), { freezeHeader: true });
+}
+
+function summarySheet(data: ComparisonExportData): string {
+  const { comparison, sourceContract, targetContract } = data;
+  const field = (label: string, value: CellValue): SheetCell[] => [
+    { value: label, style: STYLE.label },
+    { value, style: STYLE.wrap },
+  ];
+
+  const rows: SheetCell[][] = [
+    field('Comparison', comparison.name),
+    field('Comparison ID', comparison.id),
+    field('Status', comparison.comparisonStatus),
+    field('Comparison Type', comparison.comparisonType),
+    field('Original Contract', sourceContract.name),
+    field('Original Filename', sourceContract.filename),
+    field('Redlined Contract', targetContract.name),
+    field('Redlined Filename', targetContract.filename),
+    field('Overall Risk Score', comparison.overallRiskScore),
+    field('Clauses Compared', data.clauseComparisons.length),
+    field('Created', comparison.createdAt.toISOString()),
+    field('Completed', comparison.completedAt?.toISOString() ?? null),
+    field('Summary', comparison.summary),
+  ];
+
+  const tags = parseSemanticTags(comparison.semanticTags);
+  if (tags.length > 0) {
+    rows.push([]);
+    rows.push([
+      { value: 'Semantic Tag', style: STYLE.header },
+      { value: 'Category', style: STYLE.header },
+      { value: 'Confidence', style: STYLE.header },
+    ]);
+    for (const tag of tags) {
+      rows.push([
+        { value: tag.label ?? null },
+        { value: tag.category ?? null },
+        { value: typeof tag.confidence === 'number' ? tag.confidence : null },
+      ]);
+    }
+  }
+
+  return sheetXml(rows, [22, 90, 12]);
+}
+
+const CONTENT_TYPES_XML = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet2.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const ROOT_RELS_XML = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+  '</Relationships>';
+
+const WORKBOOK_XML = `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${REL_NS}">` +
+  '<sheets><sheet name="Clauses" sheetId="1" r:id="rId1"/><sheet name="Comparison" sheetId="2" r:id="rId2"/></sheets>' +
+  '</workbook>';
+
+const WORKBOOK_RELS_XML = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  `<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+  `<Relationship Id="rId2" Type="${REL_NS}/worksheet" Target="worksheets/sheet2.xml"/>` +
+  `<Relationship Id="rId3" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+  '</Relationships>';
+
+// cellXfs order must match STYLE: default, bold header, wrapped text, bold label
+const STYLES_XML = `${XML_HEADER}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>' +
+  '<fill><patternFill patternType="solid"><fgColor rgb="FFE5E7EB"/><bgColor indexed="64"/></patternFill></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1" applyAlignment="1"><alignment vertical="top"/></xf>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+/**
+ * Build an XLSX workbook: "Clauses" with one row per clause pair and
+ * "Comparison" with the comparison metadata and semantic tags
+ */
+export async function buildXlsx(data: ComparisonExportData): Promise<ArrayBuffer> {
+  return zipPackage({
+    '[Content_Types].xml': CONTENT_TYPES_XML,
+    '_rels/.rels': ROOT_RELS_XML,
+    'xl/workbook.xml': WORKBOOK_XML,
+    'xl/_rels/workbook.xml.rels': WORKBOOK_RELS_XML,
+    'xl/worksheets/sheet1.xml': clausesSheet(data),
+    'xl/worksheets/sheet2.xml': summarySheet(data),
+    'xl/styles.xml': STYLES_XML,
+  });
+}
@@ -0,0 +1,29 @@
+/**
+ * XML helpers shared by the Office (DOCX and XLSX) exports
+ */
+
+import JSZip from 'jszip';
+
+export const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+export function escapeXml(text: string): string {
+  return text
+    // Characters XML 1.0 cannot represent at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Zip package parts into an Office document
+ * OPC packages contain only parts, so JSZip's implicit folder entries are skipped
+ */
+export async function zipPackage(parts: Record<string, string>): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  for (const [name, xml] of Object.entries(parts)) {
+    zip.file(name, xml, { createFolders: false });
+  }
+  return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+}
@@ -0,0 +1,177 @@
+/**
+ * Document Ingestion
+ * Turns uploaded contract files into raw text for clause extraction
+ */
+
+import { db, organizations } from '@/lib/db';
+import { eq } from 'drizzle-orm';
+import {
+  createVault,
+  getUploadUrl,
+  uploadToPresignedUrl,
+  getDownloadUrl,
+  processOcr,
+  getOcrJob,
+  getOcrText,
+} from '@/lib/casedev';
+import { extractDocxText, DocxParseError } from '@/lib/docx';
+import { getFileExtension } from '@/lib/utils';
+
+const OCR_POLL_INTERVAL_MS = 2000;
+const OCR_TIMEOUT_MS = 5 * 60 * 1000;
+
+export const UNSUPPORTED_FILE_MESSAGE =
+  'Unsupported file type. Please use .txt, .pdf or .docx files (save legacy .doc files as .docx first).';
+
+/**
+ * Error raised when a file cannot be turned into contract text
+ */
+export class IngestionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IngestionError';
+  }
+}
+
+export type IngestibleFileKind = 'pdf' | 'docx' | 'text';
+
+const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Determine how a file should be ingested, or null if the type is not supported
+export function getIngestibleFileKind(filename: string, contentType?: string | null): IngestibleFileKind | null {
+  const ext = getFileExtension(filename);
+  if (ext === 'pdf' || contentType === 'application/pdf') return 'pdf';
+  if (ext === 'docx' || contentType === DOCX_CONTENT_TYPE) return 'docx';
+  if (ext === 'txt' || contentType === 'text/plain') return 'text';
+  return null;
+}
+
+// Get the organization's vault, creating one on first use
+export async function ensureOrgVault(orgId: string): Promise<string> {
+  const [organization] = await db
+    .select()
+    .from(organizations)
+    .where(eq(organizations.id, orgId));
+
+  if (organization?.vaultId) {
+    return organization.vaultId;
+  }
+
+  const vaultResult = await createVault(`${organization?.name || orgId} Contracts`);
+  if (vaultResult.error || !vaultResult.data) {
+    throw new IngestionError(`Failed to create vault: ${vaultResult.error}`);
+  }
+
+  await db
+    .update(organizations)
+    .set({ vaultId: vaultResult.data.id })
+    .where(eq(organizations.id, orgId));
+
+  return vaultResult.data.id;
+}
+
+// Upload a file to the vault and return its object ID
+export async function uploadToVault(
+  vaultId: string,
+  filename: string,
+  contentType: string,
+  data: ArrayBuffer
+): Promise<string> {
+  const uploadResult = await getUploadUrl(vaultId, filename, contentType);
+  if (uploadResult.error || !uploadResult.data) {
+    throw new IngestionError(`Failed to get upload URL: ${uploadResult.error}`);
+  }
+
+  const putResult = await uploadToPresignedUrl(uploadResult.data, data, contentType);
+  if (putResult.error) {
+    throw new IngestionError(putResult.error);
+  }
+
+  return uploadResult.data.objectId;
+}
+
+// Run OCR on a vault object and wait for the extracted text
+export async function runOcr(
+  vaultId: string,
+  objectId: string,
+  options: { timeoutMs?: number; pollIntervalMs?: number } = {}
+): Promise<string> {
+  const timeoutMs = options.timeoutMs ?? OCR_TIMEOUT_MS;
+  const pollIntervalMs = options.pollIntervalMs ?? OCR_POLL_INTERVAL_MS;
+
+  const downloadResult = await getDownloadUrl(vaultId, objectId);
+  if (downloadResult.error || !downloadResult.data) {
+    throw new IngestionError(`Failed to get document URL: ${downloadResult.error}`);
+  }
+
+  const jobResult = await processOcr(downloadResult.data.url);
+  if (jobResult.error || !jobResult.data) {
+    throw new IngestionError(`Failed to start OCR: ${jobResult.error}`);
+  }
+
+  const jobId = jobResult.data.id;
+  const deadline = Date.now() + timeoutMs;
+  let status = jobResult.data.status;
+
+  // Poll until the OCR job finishes or we run out of time
+  while (status !== 'completed') {
+    if (status === 'failed') {
+      throw new IngestionError('OCR job failed');
+    }
+    if (Date.now() > deadline) {
+      throw new IngestionError('OCR job timed out');
+    }
+
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+
+    const pollResult = await getOcrJob(jobId);
+    if (pollResult.error || !pollResult.data) {
+      throw new IngestionError(`Failed to check OCR status: ${pollResult.error}`);
+    }
+    status = pollResult.data.status;
+  }
+
+  const textResult = await getOcrText(jobId);
+  if (textResult.error || textResult.data === undefined) {
+    throw new IngestionError(textResult.error || 'OCR returned no text');
+  }
+
+  return textResult.data;
+}
+
+/**
+ * Extract contract text from an uploaded file
+ * PDFs are stored in the org vault and sent through OCR, DOCX files are parsed
+ * locally and plain text is read as-is
+ */
+export async function extractTextFromFile(
+  orgId: string,
+  filename: string,
+  contentType: string,
+  data: ArrayBuffer,
+  onUploaded?: (objectId: string) => Promise<void>
+): Promise<string> {
+  const kind = getIngestibleFileKind(filename, contentType);
+
+  switch (kind) {
+    case 'text':
+      return new TextDecoder('utf-8').decode(data);
+    case 'pdf': {
+      const vaultId = await ensureOrgVault(orgId);
+      const objectId = await uploadToVault(vaultId, filename, contentType, data);
+      await onUploaded?.(objectId);
+      return runOcr(vaultId, objectId);
+    }
+    case 'docx':
+      try {
+        return await extractDocxText(data);
+      } catch (error) {
+        if (error instanceof DocxParseError) {
+          throw new IngestionError(error.message);
+        }
+        throw error;
+      }
+    default:
+      throw new IngestionError(UNSUPPORTED_FILE_MESSAGE);
+  }
+}
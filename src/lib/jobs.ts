@@ -0,0 +1,251 @@
+/**
+ * Comparison Job Queue
+ * Durable queue the background worker claims comparisons from. A claimed job holds a lease
+ * that the worker renews while it runs, so a job whose worker died is claimed again.
+ */
+
+import { db, comparisonJobs, comparisons, contracts } from '@/lib/db';
+import type { Comparison, ComparisonJob, DbExecutor } from '@/lib/db';
+import { markComparisonFailed } from '@/lib/comparison-pipeline';
+import { publishComparisonStatus } from '@/lib/events';
+import { and, eq, inArray, notExists, sql } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+export const JOB_LEASE_MS = 2 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+
+// Lease and retry times come from the database clock so workers on different hosts agree
+function fromNow(ms: number) {
+  return sql`NOW() + ${`${ms} milliseconds`}::interval`;
+}
+
+// Queue a comparison for the worker, in the caller's transaction when it's given one
+export async function enqueueComparisonJob(comparisonId: string, executor: DbExecutor = db): Promise<ComparisonJob> {
+  const [job] = await executor
+    .insert(comparisonJobs)
+    .values({ id: uuidv4(), comparisonId })
+    .returning();
+
+  return job;
+}
+
+/**
+ * Claim the oldest job that is due, or one whose worker stopped renewing its lease.
+ * SKIP LOCKED lets several workers claim at once without taking the same job.
+ */
+export async function claimNextJob(workerId: string): Promise<ComparisonJob | null> {
+  const [job] = await db
+    .update(comparisonJobs)
+    .set({
+      status: 'running',
+      attempts: sql`${comparisonJobs.attempts} + 1`,
+      leaseOwner: workerId,
+      leaseExpiresAt: fromNow(JOB_LEASE_MS),
+      heartbeatAt: sql`NOW()`,
+      updatedAt: sql`NOW()`,
+    })
+    .where(eq(comparisonJobs.id, sql`(
+      SELECT id FROM comparison_jobs
+      WHERE (status = 'queued' AND run_after <= NOW())
+         OR (status = 'running' AND lease_expires_at < NOW())
+      ORDER BY run_after
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )`))
+    .returning();
+
+  return job ?? null;
+}
+
+// Renew a running job's lease; false when another worker has taken the job over
+export async function heartbeatJob(jobId: string, workerId: string): Promise<boolean> {
+  const renewed = await db
+    .update(comparisonJobs)
+    .set({
+      leaseExpiresAt: fromNow(JOB_LEASE_MS),
+      heartbeatAt: sql`NOW()`,
+    })
+    .where(and(
+      eq(comparisonJobs.id, jobId),
+      eq(comparisonJobs.status, 'running'),
+      eq(comparisonJobs.leaseOwner, workerId)
+    ))
+    .returning({ id: comparisonJobs.id });
+
+  return renewed.length > 0;
+}
+
+export async function completeJob(jobId: string, workerId: string): Promise<void> {
+  await db
+    .update(comparisonJobs)
+    .set({
+      status: 'completed',
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      updatedAt: new Date(),
+      completedAt: new Date(),
+    })
+    .where(and(eq(comparisonJobs.id, jobId), eq(comparisonJobs.leaseOwner, workerId)));
+}
+
+/**
+ * Put a failed job back in the queue with exponential backoff, or give up once it has
+ * used all its attempts and mark the comparison failed
+ */
+export async function failJob(job: ComparisonJob, error: unknown): Promise<void> {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+  const ownedByWorker = and(
+    eq(comparisonJobs.id, job.id),
+    eq(comparisonJobs.leaseOwner, job.leaseOwner ?? '')
+  );
+
+  if (job.attempts >= job.maxAttempts) {
+    const failed = await db
+      .update(comparisonJobs)
+      .set({
+        status: 'failed',
+        lastError: errorMessage,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        updatedAt: new Date(),
+        completedAt: new Date(),
+      })
+      .where(ownedByWorker)
+      .returning({ id: comparisonJobs.id });
+
+    if (failed.length > 0) {
+      await markComparisonFailed(job.comparisonId, errorMessage);
+    }
+    return;
+  }
+
+  const retryDelay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1), RETRY_MAX_DELAY_MS);
+
+  await db
+    .update(comparisonJobs)
+    .set({
+      status: 'queued',
+      lastError: errorMessage,
+      runAfter: fromNow(retryDelay),
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      updatedAt: new Date(),
+    })
+    .where(ownedByWorker);
+}
+
+/**
+ * Queue a job for every comparison left in `processing` without a live job, e.g. ones
+ * started before the queue existed. Returns how many were queued.
+ */
+export async function recoverStuckComparisons(): Promise<number> {
+  const stuck = await db
+    .select({ id: comparisons.id })
+    .from(comparisons)
+    .where(and(
+      eq(comparisons.comparisonStatus, 'processing'),
+      notExists(
+        db
+          .select({ id: comparisonJobs.id })
+          .from(comparisonJobs)
+          .where(and(
+            eq(comparisonJobs.comparisonId, comparisons.id),
+            inArray(comparisonJobs.status, ['queued', 'running'])
+          ))
+      )
+    ));
+
+  for (const comparison of stuck) {
+    await enqueueComparisonJob(comparison.id);
+  }
+
+  return stuck.length;
+}
+
+// ============ CANCEL AND RETRY ============
+
+/**
+ * Stop a processing comparison. Its queued or running job is cancelled; a worker running it
+ * hears the status change (or loses its lease) and aborts its LLM calls.
+ * Returns null when the comparison isn't processing.
+ */
+export async function cancelComparison(comparisonId: string): Promise<Comparison | null> {
+  const [comparison] = await db
+    .update(comparisons)
+    .set({
+      comparisonStatus: 'cancelled',
+      errorMessage: null,
+      completedAt: new Date(),
+    })
+    .where(and(eq(comparisons.id, comparisonId), eq(comparisons.comparisonStatus, 'processing')))
+    .returning();
+
+  if (!comparison) return null;
+
+  await db
+    .update(comparisonJobs)
+    .set({
+      status: 'cancelled',
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      updatedAt: new Date(),
+      completedAt: new Date(),
+    })
+    .where(and(
+      eq(comparisonJobs.comparisonId, comparisonId),
+      inArray(comparisonJobs.status, ['queued', 'running'])
+    ));
+
+  // Extraction that was cut off starts over on retry
+  await db
+    .update(contracts)
+    .set({ ingestionStatus: 'pending' })
+    .where(and(
+      inArray(contracts.id, [comparison.sourceContractId, comparison.targetContractId]),
+      eq(contracts.ingestionStatus, 'processing')
+    ));
+
+  await publishComparisonStatus(comparison);
+  return comparison;
+}
+
+/**
+ * Queue a failed or cancelled comparison again. The pipeline reuses whatever earlier
+ * attempts finished, so only the stages that didn't complete run.
+ * Returns null when the comparison isn't failed or cancelled.
+ */
+export async function retryComparison(comparisonId: string): Promise<Comparison | null> {
+  const [comparison] = await db
+    .update(comparisons)
+    .set({
+      comparisonStatus: 'processing',
+      errorMessage: null,
+      completedAt: null,
+      progressStage: null,
+      progressCurrent: null,
+      progressTotal: null,
+      progressPercent: null,
+      progressStartedAt: null,
+      progressUpdatedAt: null,
+    })
+    .where(and(
+      eq(comparisons.id, comparisonId),
+      inArray(comparisons.comparisonStatus, ['failed', 'cancelled'])
+    ))
+    .returning();
+
+  if (!comparison) return null;
+
+  await db
+    .update(contracts)
+    .set({ ingestionStatus: 'pending' })
+    .where(and(
+      inArray(contracts.id, [comparison.sourceContractId, comparison.targetContractId]),
+      eq(contracts.ingestionStatus, 'failed')
+    ));
+
+  await enqueueComparisonJob(comparisonId);
+  await publishComparisonStatus(comparison);
+  return comparison;
+}
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffKeyTerms, extractKeyTerms } from '@/lib/key-terms';
+
+// Each value's kind, text and label, in order
+function summarize(text: string) {
+  return extractKeyTerms(text).map(term => [term.kind, term.text, term.label]);
+}
+
+describe('extractKeyTerms labels', () => {
+  it('keeps a noun phrase joined by "of"', () => {
+    assert.deepEqual(summarize('The total liability of Supplier shall not exceed $1,000,000.'), [
+      ['amount', '$1,000,000', 'total liability of supplier'],
+    ]);
+  });
+
+  it('reads the same label with or without an article after "of"', () => {
+    assert.deepEqual(summarize('The total liability of the Supplier shall not exceed $250,000.'), [
+      ['amount', '$250,000', 'total liability of supplier'],
+    ]);
+  });
+
+  it('does not label a value with the value before it', () => {
+    const [first, second] = extractKeyTerms('Customer shall pay 1.5 million dollars and $2m.');
+    assert.equal(first.text, '1.5 million dollars');
+    assert.equal(second.text, '$2m');
+    assert.notEqual(second.label, 'million dollars');
+    assert.equal(second.label, first.label);
+  });
+
+  it('reads no further back than the value before it', () => {
+    assert.deepEqual(
+      summarize('Supplier shall pay $500 per month and the total liability of Supplier shall not exceed $1,000,000.'),
+      [
+        ['amount', '$500', 'supplier'],
+        ['amount', '$1,000,000', 'total liability of supplier'],
+      ]
+    );
+  });
+});
+
+describe('extractKeyTerms notice periods', () => {
+  it('finds "notice" in the same sentence', () => {
+    assert.deepEqual(
+      extractKeyTerms("Either party may terminate upon thirty (30) days' prior written notice.").map(term => term.kind),
+      ['notice_period']
+    );
+  });
+
+  it('ignores "notice" in a neighbouring sentence', () => {
+    assert.deepEqual(
+      extractKeyTerms('Either party may terminate on notice. Payment is due within 45 days of invoice.').map(term => term.kind),
+      ['duration']
+    );
+  });
+});
+
+describe('extractKeyTerms counts', () => {
+  // Each value's kind and value, in order
+  const values = (text: string) => extractKeyTerms(text).map(term => [term.kind, term.value]);
+
+  it('counts a known unit after a number', () => {
+    assert.deepEqual(values('Supplier shall deliver three copies to 5 members of the committee.'), [
+      ['count', '3 copy'],
+      ['count', '5 member'],
+    ]);
+  });
+
+  it('counts anything with its number also given in digits', () => {
+    assert.deepEqual(values('Customer may designate two (2) Affiliates.'), [['count', '2 affiliate']]);
+  });
+
+  it('does not count a number word used as wording', () => {
+    assert.deepEqual(values('Each Party and one Affiliate may use the Software.'), []);
+    assert.deepEqual(values('The fee is payable one time only.'), []);
+  });
+
+  it('does not count a number before a word that is not a unit', () => {
+    assert.deepEqual(values('Customer shall notify 3 parties and retain 12 records.'), []);
+  });
+});
+
+describe('diffKeyTerms', () => {
+  it('pairs a changed cap under its full label', () => {
+    assert.deepEqual(
+      diffKeyTerms(
+        'The total liability of Supplier shall not exceed $1,000,000.',
+        'The total liability of Supplier shall not exceed $250,000.'
+      ),
+      [{ kind: 'amount', label: 'total liability of supplier', sourceValue: '$1,000,000', targetValue: '$250,000' }]
+    );
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Key Terms
+ * Deterministic extraction of the numbers and dates in a clause (amounts, percentages, periods,
+ * dates, counts) and pairing of them across two versions of the clause, so a changed figure is
+ * reported exactly as each contract writes it.
+ */
+
+import * as Diff from 'diff';
+
+export const KEY_TERM_KINDS = ['amount', 'percentage', 'notice_period', 'duration', 'date', 'count'] as const;
+export type KeyTermKind = typeof KEY_TERM_KINDS[number];
+
+export interface KeyTerm {
+  kind: KeyTermKind;
+  // The value exactly as the contract writes it
+  text: string;
+  // Comparable form, e.g. "USD 1000000", "30 day", "2025-01-01"
+  value: string;
+  // What the value is of, from the words before it in its sentence ("total liability of supplier");
+  // null when nothing usable precedes it
+  label: string | null;
+  start: number;
+  end: number;
+}
+
+// A value that differs between the two versions of a clause. A null side means the value
+// is only in the other version.
+export interface KeyTermChange {
+  kind: KeyTermKind;
+  label: string | null;
+  sourceValue: string | null;
+  targetValue: string | null;
+}
+
+// ============ NUMBERS ============
+
+const UNITS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+const TEENS = ['ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+// A number written in words below a thousand: "thirty", "forty-five", "one hundred and twenty"
+const BELOW_HUNDRED = `(?:(?:${TENS.slice(2).join('|')})(?:[- ](?:${UNITS.slice(1).join('|')}))?|${TEENS.join('|')}|${UNITS.join('|')})`;
+const WORD_NUMBER = `(?:(?:${UNITS.slice(1).join('|')})\\s+hundred(?:\\s+(?:and\\s+)?${BELOW_HUNDRED})?|${BELOW_HUNDRED})`;
+
+function parseWordNumber(words: string): number {
+  let total = 0;
+  for (const word of words.toLowerCase().split(/[\s-]+/)) {
+    if (word === 'and') continue;
+    if (word === 'hundred') total *= 100;
+    else if (UNITS.includes(word)) total += UNITS.indexOf(word);
+    else if (TEENS.includes(word)) total += 10 + TEENS.indexOf(word);
+    else if (TENS.includes(word)) total += 10 * TENS.indexOf(word);
+  }
+  return total;
+}
+
+// A quantity in any of the ways contracts write one: "30", "thirty", "thirty (30)"
+const QUANTITY = `(?:(${WORD_NUMBER})\\s*\\((\\d+(?:\\.\\d+)?)\\)|(\\d+(?:\\.\\d+)?)|(${WORD_NUMBER}))`;
+
+// The number a QUANTITY match starting at `group` stands for, preferring the digits when both are given
+function quantityValue(match: RegExpMatchArray, group: number): number {
+  const digits = match[group + 1] ?? match[group + 2];
+  if (digits !== undefined) return Number(digits);
+  return parseWordNumber(match[group] ?? match[group + 3]);
+}
+
+// ============ PATTERNS ============
+
+const CURRENCY_CODES: Record<string, string> = {
+  '$': 'USD', 'us$': 'USD', usd: 'USD', dollar: 'USD', dollars: 'USD',
+  '€': 'EUR', eur: 'EUR', euro: 'EUR', euros: 'EUR',
+  '£': 'GBP', gbp: 'GBP', pound: 'GBP', pounds: 'GBP',
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  thousand: 1e3, k: 1e3, million: 1e6, m: 1e6, billion: 1e9, bn: 1e9,
+};
+
+const AMOUNT_NUMBER = String.raw`(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?`;
+const AMOUNT_SCALE = String.raw`(?:\s?(thousand|million|billion|bn|[km])\b)?`;
+
+// "$1,000,000", "USD 250,000", "€2.5 million"
+const PREFIXED_AMOUNT = new RegExp(`(US\\$|USD|EUR|GBP|\\$|€|£)\\s?${AMOUNT_NUMBER}${AMOUNT_SCALE}`, 'gi');
+// "1,000,000 dollars", "500 EUR"
+const SUFFIXED_AMOUNT = new RegExp(`\\b${AMOUNT_NUMBER}${AMOUNT_SCALE}\\s(dollars?|euros?|pounds?|USD|EUR|GBP)\\b`, 'gi');
+
+// "10%", "ten percent (10%)", "1.5 per cent"
+const PERCENTAGE = new RegExp(`\\b${QUANTITY}\\s*(?:%|percent\\b|per\\s+cent\\b)(?:\\s*\\(\\d+(?:\\.\\d+)?\\s*%\\))?`, 'gi');
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const MONTH_NAME = '(January|February|March|April|May|June|July|August|September|October|November|December)';
+
+// "January 1, 2025", "1st January 2025", "the 1st day of January, 2025", "2025-01-01", "01/01/2025"
+const MONTH_FIRST_DATE = new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'g');
+const DAY_FIRST_DATE = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:day\\s+of\\s+)?${MONTH_NAME},?\\s+(\\d{4})\\b`, 'g');
+const NUMERIC_DATE = /\b(?:\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/(?:\d{4}|\d{2}))\b/g;
+
+const TIME_UNIT = String.raw`(business\s+days?|calendar\s+days?|working\s+days?|days?|weeks?|months?|years?|hours?)`;
+
+// "thirty (30) days", "12 months", "a 90-day", "sixty days'"
+const DURATION = new RegExp(`\\b${QUANTITY}[\\s-]*${TIME_UNIT}\\b`, 'gi');
+
+// Things contracts count, by their singular. Anything else is only a count with its number also
+// given in digits, "two (2) Affiliates": "one Affiliate" or "one time" is just wording.
+// Days and other periods are durations.
+const COUNT_UNITS = [
+  'arbitrator', 'audit', 'copy', 'counterpart', 'director', 'employee', 'extension', 'installment',
+  'instalment', 'licence', 'license', 'location', 'meeting', 'member', 'original', 'payment',
+  'renewal', 'report', 'representative', 'seat', 'site', 'unit', 'user',
+];
+const COUNT_UNIT_FORMS = new Map(COUNT_UNITS.flatMap(unit => [
+  [unit, unit],
+  [/[^aeiou]y$/.test(unit) ? `${unit.slice(0, -1)}ies` : `${unit}s`, unit],
+]));
+
+// "three (3) copies", "5 users"; section numbers aren't counts
+const COUNT = new RegExp(`(?<!(?:Section|Article|Clause|Schedule|Exhibit|Annex|Appendix|§)\\s*)\\b${QUANTITY}\\s+([A-Za-z][a-z]{2,})\\b`, 'g');
+
+// A duration near the word "notice", in the same sentence, is a notice period
+const NOTICE_CONTEXT = /notice/i;
+const NOTICE_WINDOW_CHARS = 80;
+
+// Words skipped when reading a label back from a value
+const LABEL_STOPWORDS = new Set([
+  'a', 'an', 'the', 'of', 'to', 'for', 'by', 'in', 'on', 'at', 'upon', 'within', 'after', 'before',
+  'following', 'prior', 'than', 'no', 'not', 'shall', 'will', 'may', 'must', 'be', 'is', 'are', 'was',
+  'exceed', 'exceeds', 'exceeding', 'up', 'least', 'more', 'less', 'equal', 'equals', 'greater', 'and',
+  'or', 'any', 'each', 'its', 'their', 'such', 'this', 'that', 'which', 'with', 'from', 'per', 'amount',
+  'sum', 'then', 'as', 'it', 'all', 'other', 'have', 'has', 'pay', 'paid', 'payable',
+]);
+const ARTICLES = new Set(['a', 'an', 'the']);
+const MAX_LABEL_WORDS = 3;
+
+// What separates two values in a list ("$1m and $2m", "5%, 10% or 15%"), which share a label
+const LIST_SEPARATOR = /^[\s,]*(?:and|or)?\s*$/i;
+
+// ============ EXTRACTION ============
+
+// Where the sentence around `start`..`end` begins and ends: a full stop, semicolon or line break ends one
+function sentenceAround(text: string, start: number, end: number): { start: number; end: number } {
+  const sentenceStart = Math.max(
+    text.lastIndexOf('. ', start),
+    text.lastIndexOf(';', start),
+    text.lastIndexOf('\n', start)
+  ) + 1;
+  const sentenceEnd = text.slice(end).search(/\.\s|;|\n/);
+  return { start: sentenceStart, end: sentenceEnd === -1 ? text.length : end + sentenceEnd };
+}
+
+/**
+ * What the value at `start` is of: the last few content words before it, reading no further
+ * back than `from` or the start of its sentence or heading. A noun phrase joined by "of" is kept
+ * whole ("total liability of supplier").
+ */
+function labelBefore(text: string, start: number, from: number): string | null {
+  const labelStart = Math.max(from, sentenceAround(text, start, start).start, text.lastIndexOf(':', start) + 1);
+  const words = text.slice(labelStart, start).toLowerCase().match(/[a-z][a-z'’-]*/g) || [];
+
+  while (words.length > 0 && LABEL_STOPWORDS.has(words[words.length - 1])) words.pop();
+
+  const label: string[] = [];
+  let contentWords = 0;
+  while (words.length > 0 && contentWords < MAX_LABEL_WORDS) {
+    if (!LABEL_STOPWORDS.has(words[words.length - 1])) {
+      label.unshift(words.pop()!);
+      contentWords++;
+      continue;
+    }
+
+    // Carry on past "of" (and an article after it) when a content word comes before it
+    let next = words.length - 1;
+    if (ARTICLES.has(words[next])) next--;
+    if (label.length === 0 || words[next] !== 'of' || next === 0 || LABEL_STOPWORDS.has(words[next - 1])) break;
+    words.length = next;
+    label.unshift('of');
+  }
+
+  return label.length > 0 ? label.join(' ') : null;
+}
+
+// A value's label; a value listed straight after another of its kind shares that one's label
+function labelKeyTerm(text: string, term: Omit<KeyTerm, 'label'>, previous: KeyTerm | undefined): string | null {
+  if (previous?.kind === term.kind && LIST_SEPARATOR.test(text.slice(previous.end, term.start))) {
+    return previous.label;
+  }
+  return labelBefore(text, term.start, previous?.end ?? 0);
+}
+
+function amountValue(currency: string, integer: string, fraction: string | undefined, scale: string | undefined): string {
+  const amount = Number(integer.replace(/,/g, '') + (fraction || '')) * (scale ? MULTIPLIERS[scale.toLowerCase()] : 1);
+  return `${CURRENCY_CODES[currency.toLowerCase()] || currency.toUpperCase()} ${amount}`;
+}
+
+function monthDateValue(year: string, month: string, day: string): string {
+  const monthNumber = MONTHS.indexOf(month.toLowerCase()) + 1;
+  return `${year}-${String(monthNumber).padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+function unitValue(unit: string): string {
+  // "business days" and "days" differ; plurals don't
+  return unit.toLowerCase().replace(/\s+/g, ' ').replace(/s$/, '');
+}
+
+/**
+ * The numbers and dates in `text`, in order. Where patterns overlap, the more specific one
+ * wins: an amount over a count, a date over a duration.
+ */
+export function extractKeyTerms(text: string): KeyTerm[] {
+  const found: Omit<KeyTerm, 'label'>[] = [];
+  const taken: { start: number; end: number }[] = [];
+
+  const add = (kind: KeyTermKind, match: RegExpMatchArray, value: string) => {
+    const start = match.index!;
+    const end = start + match[0].trimEnd().length;
+    if (taken.some(span => start < span.end && span.start < end)) return;
+    taken.push({ start, end });
+    found.push({ kind, text: text.slice(start, end), value, start, end });
+  };
+
+  for (const match of text.matchAll(PREFIXED_AMOUNT)) {
+    add('amount', match, amountValue(match[1], match[2], match[3], match[4]));
+  }
+  for (const match of text.matchAll(SUFFIXED_AMOUNT)) {
+    add('amount', match, amountValue(match[4], match[1], match[2], match[3]));
+  }
+  for (const match of text.matchAll(PERCENTAGE)) {
+    add('percentage', match, `${quantityValue(match, 1)}%`);
+  }
+  for (const match of text.matchAll(MONTH_FIRST_DATE)) {
+    add('date', match, monthDateValue(match[3], match[1], match[2]));
+  }
+  for (const match of text.matchAll(DAY_FIRST_DATE)) {
+    add('date', match, monthDateValue(match[3], match[2], match[1]));
+  }
+  for (const match of text.matchAll(NUMERIC_DATE)) {
+    add('date', match, match[0]);
+  }
+  for (const match of text.matchAll(DURATION)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    const sentence = sentenceAround(text, start, end);
+    const window = text.slice(
+      Math.max(sentence.start, start - NOTICE_WINDOW_CHARS),
+      Math.min(sentence.end, end + NOTICE_WINDOW_CHARS)
+    );
+    const kind = NOTICE_CONTEXT.test(window) ? 'notice_period' : 'duration';
+    add(kind, match, `${quantityValue(match, 1)} ${unitValue(match[5])}`);
+  }
+  for (const match of text.matchAll(COUNT)) {
+    const noun = match[5].toLowerCase();
+    const unit = COUNT_UNIT_FORMS.get(noun);
+    if (!unit && (match[2] === undefined || LABEL_STOPWORDS.has(noun))) continue;
+    add('count', match, `${quantityValue(match, 1)} ${unit ?? noun.replace(/s$/, '')}`);
+  }
+
+  const terms: KeyTerm[] = [];
+  for (const term of found.sort((a, b) => a.start - b.start)) {
+    terms.push({ ...term, label: labelKeyTerm(text, term, terms[terms.length - 1]) });
+  }
+  return terms;
+}
+
+// ============ PAIRING ============
+
+// Pair the removed and added values between two unchanged ones: same kind and label first,
+// then same kind in order of appearance
+function pairRun(removed: KeyTerm[], added: KeyTerm[]): KeyTermChange[] {
+  const changes: { position: number; change: KeyTermChange }[] = [];
+  const unpaired = [...added];
+
+  const pair = (source: KeyTerm, matches: (target: KeyTerm) => boolean) => {
+    const index = unpaired.findIndex(matches);
+    if (index === -1) return false;
+    const [target] = unpaired.splice(index, 1);
+    changes.push({
+      position: source.start,
+      change: { kind: source.kind, label: source.label ?? target.label, sourceValue: source.text, targetValue: target.text },
+    });
+    return true;
+  };
+
+  const leftover = removed.filter(source =>
+    !pair(source, target => target.kind === source.kind && target.label === source.label)
+  );
+  for (const source of leftover) {
+    if (!pair(source, target => target.kind === source.kind)) {
+      changes.push({
+        position: source.start,
+        change: { kind: source.kind, label: source.label, sourceValue: source.text, targetValue: null },
+      });
+    }
+  }
+
+  return [
+    ...changes.sort((a, b) => a.position - b.position).map(entry => entry.change),
+    ...unpaired.map(target => ({ kind: target.kind, label: target.label, sourceValue: null, targetValue: target.text })),
+  ];
+}
+
+/**
+ * Values that differ between two versions of a clause, in the order they appear. Values are
+ * compared in their comparable form, so "thirty (30) days" and "30 days" are the same.
+ */
+export function diffKeyTerms(sourceText: string, targetText: string): KeyTermChange[] {
+  const parts = Diff.diffArrays(extractKeyTerms(sourceText), extractKeyTerms(targetText), {
+    comparator: (a, b) => a.kind === b.kind && a.value === b.value,
+  });
+
+  const changes: KeyTermChange[] = [];
+  let removed: KeyTerm[] = [];
+  let added: KeyTerm[] = [];
+
+  for (const part of parts) {
+    if (part.removed) {
+      removed.push(...part.value);
+    } else if (part.added) {
+      added.push(...part.value);
+    } else {
+      changes.push(...pairRun(removed, added));
+      removed = [];
+      added = [];
+    }
+  }
+  changes.push(...pairRun(removed, added));
+
+  return changes;
+}
+
+export function formatKeyTermKind(kind: string): string {
+  const labels: Record<string, string> = {
+    amount: 'Amount',
+    percentage: 'Percentage',
+    notice_period: 'Notice period',
+    duration: 'Duration',
+    date: 'Date',
+    count: 'Count',
+  };
+  return labels[kind] || kind;
+}
@@ -0,0 +1,152 @@
+/**
+ * LLM Result Cache
+ * Parsed results of the temperature-0 LLM calls are stored in the database, keyed on the
+ * operation, its prompt version, the model and a hash of the normalized input. A contract or
+ * clause pair that was already analyzed is answered from the cache instead of the model.
+ */
+
+import { createHash } from 'crypto';
+import { db, llmCache, llmCacheStats } from '@/lib/db';
+import { and, count, eq, sql } from 'drizzle-orm';
+import { normalizeTextForComparison } from '@/lib/utils';
+
+export const LLM_CACHE_OPERATIONS = ['extract_clauses', 'match_clauses', 'analyze_clause_risk'] as const;
+export type LlmCacheOperation = typeof LLM_CACHE_OPERATIONS[number];
+
+export interface LlmCacheKey {
+  operation: LlmCacheOperation;
+  promptVersion: number;
+  model: string;
+  // Everything the result depends on; whitespace-only differences map to the same entry
+  inputs: string[];
+}
+
+interface CachedResponse<T> {
+  data?: T;
+  error?: string;
+}
+
+// hashText in utils is only 32 bits, too collision-prone for entries that are kept indefinitely
+function hashInputs(inputs: string[]): string {
+  const hash = createHash('sha256');
+  for (const input of inputs) {
+    hash.update(normalizeTextForComparison(input));
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
+
+async function recordLookup(operation: LlmCacheOperation, hit: boolean): Promise<void> {
+  await db
+    .insert(llmCacheStats)
+    .values({ operation, hits: hit ? 1 : 0, misses: hit ? 0 : 1 })
+    .onConflictDoUpdate({
+      target: llmCacheStats.operation,
+      set: hit
+        ? { hits: sql`${llmCacheStats.hits} + 1`, updatedAt: new Date() }
+        : { misses: sql`${llmCacheStats.misses} + 1`, updatedAt: new Date() },
+    });
+}
+
+/**
+ * Return the cached result for this key, or run `compute` and cache what it returns.
+ * Errors are never cached, and a cache that can't be read or written only costs the LLM call.
+ */
+export async function withLlmCache<T>(
+  key: LlmCacheKey,
+  compute: () => Promise<CachedResponse<T>>
+): Promise<CachedResponse<T>> {
+  const contentHash = hashInputs(key.inputs);
+  const cacheKey = `${key.operation}:v${key.promptVersion}:${key.model}:${contentHash}`;
+
+  try {
+    const [cached] = await db
+      .update(llmCache)
+      .set({ hitCount: sql`${llmCache.hitCount} + 1`, lastHitAt: new Date() })
+      .where(eq(llmCache.key, cacheKey))
+      .returning({ result: llmCache.result });
+
+    await recordLookup(key.operation, !!cached);
+    if (cached) {
+      return { data: JSON.parse(cached.result) as T };
+    }
+  } catch (error) {
+    console.error(`Error reading LLM cache for ${key.operation}:`, error);
+  }
+
+  const response = await compute();
+
+  if (response.data !== undefined) {
+    try {
+      await db
+        .insert(llmCache)
+        .values({
+          key: cacheKey,
+          operation: key.operation,
+          promptVersion: key.promptVersion,
+          model: key.model,
+          contentHash,
+          result: JSON.stringify(response.data),
+        })
+        .onConflictDoNothing();
+    } catch (error) {
+      console.error(`Error writing LLM cache for ${key.operation}:`, error);
+    }
+  }
+
+  return response;
+}
+
+// ============ ADMINISTRATION ============
+
+export interface LlmCacheOperationStats {
+  operation: LlmCacheOperation;
+  hits: number;
+  misses: number;
+  hitRate: number | null; // 0-1, null before the first lookup
+  entries: number;
+}
+
+export async function getLlmCacheStats(): Promise<LlmCacheOperationStats[]> {
+  const [counters, entries] = await Promise.all([
+    db.select().from(llmCacheStats),
+    db
+      .select({ operation: llmCache.operation, entries: count() })
+      .from(llmCache)
+      .groupBy(llmCache.operation),
+  ]);
+
+  return LLM_CACHE_OPERATIONS.map(operation => {
+    const counter = counters.find(c => c.operation === operation);
+    const hits = counter?.hits ?? 0;
+    const misses = counter?.misses ?? 0;
+
+    return {
+      operation,
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : null,
+      entries: entries.find(e => e.operation === operation)?.entries ?? 0,
+    };
+  });
+}
+
+export interface LlmCacheFilter {
+  operation?: LlmCacheOperation;
+  promptVersion?: number;
+  model?: string;
+}
+
+// Delete the entries matching every given filter (all of them when none is given); returns how many
+export async function invalidateLlmCache(filter: LlmCacheFilter = {}): Promise<number> {
+  const deleted = await db
+    .delete(llmCache)
+    .where(and(
+      filter.operation ? eq(llmCache.operation, filter.operation) : undefined,
+      filter.promptVersion !== undefined ? eq(llmCache.promptVersion, filter.promptVersion) : undefined,
+      filter.model ? eq(llmCache.model, filter.model) : undefined
+    ))
+    .returning({ key: llmCache.key });
+
+  return deleted.length;
+}
@@ -0,0 +1,119 @@
+/**
+ * Org Playbooks
+ * Loads the playbook a comparison is scored against and keeps one default playbook per org
+ */
+
+import { db, playbooks, playbookRules, comparisons } from '@/lib/db';
+import type { PlaybookRule } from '@/lib/db';
+import type { PlaybookRuleForAnalysis } from '@/lib/casedev';
+import type { PlaybookRuleInput } from '@/lib/validations';
+import { PLAYBOOK_POSITIONS, type PlaybookPosition } from '@/lib/utils';
+import { and, eq, ne } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+
+export class PlaybookNotFoundError extends Error {
+  constructor(playbookId: string) {
+    super(`Playbook not found: ${playbookId}`);
+    this.name = 'PlaybookNotFoundError';
+  }
+}
+
+// Order rules by position (preferred first), then as the user entered them
+function positionOrder(a: PlaybookRule, b: PlaybookRule): number {
+  return PLAYBOOK_POSITIONS.indexOf(a.position as PlaybookPosition) - PLAYBOOK_POSITIONS.indexOf(b.position as PlaybookPosition) ||
+    a.sortOrder - b.sortOrder;
+}
+
+/**
+ * Get a playbook's rules, ordered by position within each clause type
+ */
+export async function getPlaybookRules(playbookId: string): Promise<PlaybookRule[]> {
+  const rules = await db
+    .select()
+    .from(playbookRules)
+    .where(eq(playbookRules.playbookId, playbookId));
+
+  return rules.sort((a, b) => a.clauseType.localeCompare(b.clauseType) || positionOrder(a, b));
+}
+
+/**
+ * Replace all of a playbook's rules
+ */
+export async function replacePlaybookRules(playbookId: string, rules: PlaybookRuleInput[]): Promise<void> {
+  await db.delete(playbookRules).where(eq(playbookRules.playbookId, playbookId));
+
+  if (rules.length > 0) {
+    await db.insert(playbookRules).values(
+      rules.map((rule, index) => ({
+        id: uuidv4(),
+        playbookId,
+        clauseType: rule.clauseType,
+        position: rule.position,
+        rule: rule.rule,
+        sortOrder: index,
+      }))
+    );
+  }
+}
+
+/**
+ * Make a playbook the org's default, clearing the flag on the others
+ */
+export async function setDefaultPlaybook(orgId: string, playbookId: string): Promise<void> {
+  await db
+    .update(playbooks)
+    .set({ isDefault: false })
+    .where(and(eq(playbooks.orgId, orgId), ne(playbooks.id, playbookId)));
+
+  await db
+    .update(playbooks)
+    .set({ isDefault: true })
+    .where(eq(playbooks.id, playbookId));
+}
+
+/**
+ * Pick the playbook for a new comparison: the requested one, else the org's default.
+ * Returns null when null is requested or the org has no default playbook.
+ */
+export async function resolvePlaybookId(orgId: string, requestedId?: string | null): Promise<string | null> {
+  if (requestedId === null) return null;
+
+  if (requestedId) {
+    const [playbook] = await db
+      .select({ id: playbooks.id })
+      .from(playbooks)
+      .where(and(eq(playbooks.id, requestedId), eq(playbooks.orgId, orgId)));
+
+    if (!playbook) throw new PlaybookNotFoundError(requestedId);
+    return playbook.id;
+  }
+
+  const [defaultPlaybook] = await db
+    .select({ id: playbooks.id })
+    .from(playbooks)
+    .where(and(eq(playbooks.orgId, orgId), eq(playbooks.isDefault, true)));
+
+  return defaultPlaybook?.id ?? null;
+}
+
+/**
+ * Load the rules of the playbook a comparison is scored against, grouped by clause type
+ */
+export async function loadPlaybookForComparison(comparisonId: string): Promise<Map<string, PlaybookRuleForAnalysis[]>> {
+  const rulesByType = new Map<string, PlaybookRuleForAnalysis[]>();
+
+  const [comparison] = await db
+    .select({ playbookId: comparisons.playbookId })
+    .from(comparisons)
+    .where(eq(comparisons.id, comparisonId));
+
+  if (!comparison?.playbookId) return rulesByType;
+
+  for (const rule of await getPlaybookRules(comparison.playbookId)) {
+    const rules = rulesByType.get(rule.clauseType) || [];
+    rules.push({ position: rule.position as PlaybookPosition, rule: rule.rule });
+    rulesByType.set(rule.clauseType, rules);
+  }
+
+  return rulesByType;
+}
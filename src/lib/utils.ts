@@ -67,6 +67,7 @@ export function getStatusColor(status: string): string {
     significant_change: 'text-orange-600 bg-orange-50',
     missing: 'text-red-600 bg-red-50',
     added: 'text-blue-600 bg-blue-50',
+    other: 'text-purple-600 bg-purple-50',
   };
   return colors[status] || 'text-gray-600 bg-gray-50';
 }
@@ -78,11 +79,100 @@ export function getStatusIcon(status: string): string {
     significant_change: '!',
     missing: '✗',
     added: '+',
+    other: '*',
   };
   return icons[status] || '?';
 }
 
-export function formatClauseType(type: string): string {
+// Negotiating positions a playbook records for a clause type, from most to least favourable
+export const PLAYBOOK_POSITIONS = ['preferred', 'fallback', 'red_line'] as const;
+export type PlaybookPosition = typeof PLAYBOOK_POSITIONS[number];
+
+export function formatPlaybookPosition(position: string): string {
+  const labels: Record<string, string> = {
+    preferred: 'Preferred',
+    fallback: 'Fallback',
+    red_line: 'Red line',
+  };
+  return labels[position] || position;
+}
+
+// Our side of the deal, which decides whether a change is a risk or a win
+export const PARTY_ROLES = [
+  'customer',
+  'vendor',
+  'licensor',
+  'licensee',
+  'discloser',
+  'recipient',
+  'employer',
+  'employee',
+] as const;
+export type PartyRole = typeof PARTY_ROLES[number];
+
+export const COUNTERPARTY_ROLES: Record<PartyRole, PartyRole> = {
+  customer: 'vendor',
+  vendor: 'customer',
+  licensor: 'licensee',
+  licensee: 'licensor',
+  discloser: 'recipient',
+  recipient: 'discloser',
+  employer: 'employee',
+  employee: 'employer',
+};
+
+export function formatPartyRole(role: string): string {
+  return role.charAt(0).toUpperCase() + role.slice(1);
+}
+
+// Stages a comparison goes through while processing, in order
+export const PIPELINE_STAGES = [
+  'extracting_source',
+  'extracting_target',
+  'matching',
+  'risk_analysis',
+  'summary',
+  'tags',
+] as const;
+export type PipelineStage = typeof PIPELINE_STAGES[number];
+
+export function formatPipelineStage(stage: string, current?: number | null, total?: number | null): string {
+  const labels: Record<string, string> = {
+    extracting_source: 'Extracting original clauses',
+    extracting_target: 'Extracting revised clauses',
+    matching: 'Matching clauses',
+    risk_analysis: 'Analyzing risk',
+    summary: 'Writing summary',
+    tags: 'Tagging',
+  };
+  const label = labels[stage] || stage;
+  return total ? `${label} (${current ?? 0} of ${total})` : label;
+}
+
+// Time left, extrapolated from how long the progress made so far has taken
+export function estimateRemainingMs(startedAt: Date | string, percent: number, now = Date.now()): number | null {
+  if (percent <= 0 || percent >= 100) return null;
+  const elapsed = now - new Date(startedAt).getTime();
+  return elapsed > 0 ? (elapsed * (100 - percent)) / percent : null;
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// Clause pairings matched with less confidence than this are flagged for a reviewer to check
+export const LOW_MATCH_CONFIDENCE = 0.8;
+
+export function isLowConfidenceMatch(confidence: number | null | undefined): boolean {
+  return confidence !== null && confidence !== undefined && confidence < LOW_MATCH_CONFIDENCE;
+}
+
+// A clause type's display name from the org's taxonomy labels, else its key in title case
+export function formatClauseType(type: string, labels?: Record<string, string>): string {
+  if (labels?.[type]) return labels[type];
   return type
     .split('_')
     .map(word => word.charAt(0).toUpperCase() + word.slice(1))
@@ -176,3 +266,65 @@ export function calculateTextSimilarity(text1: string, text2: string): number {
   // Combine length ratio and common content ratio
   return (lengthRatio * 0.3) + (commonRatio * 0.7);
 }
+
+// Runs of this many words; long enough that stock legal phrasing alone doesn't make two texts look alike
+const SHINGLE_WORDS = 3;
+
+/**
+ * The overlapping runs of words in a text, ignoring case, punctuation and layout
+ */
+export function wordShingles(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  const shingles = new Set<string>();
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_WORDS).join(' '));
+  }
+  return shingles;
+}
+
+/**
+ * Share (0-1) of `part`'s shingles that also occur in `whole`: 1 when all of part's text
+ * reappears in whole, however much else whole says
+ */
+export function shingleContainment(part: Set<string>, whole: Set<string>): number {
+  if (part.size === 0) return 0;
+  let shared = 0;
+  for (const shingle of part) {
+    if (whole.has(shingle)) shared++;
+  }
+  return shared / part.size;
+}
+
+// A heading's leading section number: "Section 12", "ARTICLE V", "§ 4", or a bare "8.1"
+const SECTION_NUMBER_PATTERN = /^\s*(?:(?:section|article|clause|§)\s*((?:\d+\.)*\d+[a-z]?|[ivxlc]+)|((?:\d+\.)*\d+[a-z]?))(?=[\s.):-]|$)/i;
+
+// The same at the start of a clause's text, where it only counts in a heading's form: a bare
+// number needs a dot ("8.1", "12.") and either form a heading after it ("8.1 Indemnification",
+// "Section 12. Notices"), so text opening "30 days after..." or "Section 12 of this Agreement"
+// keeps its number
+const TEXT_SECTION_NUMBER_PATTERN =
+  /^\s*(?:(?:[Ss]ection|SECTION|[Aa]rticle|ARTICLE|[Cc]lause|CLAUSE|§)\s*((?:\d+\.)*\d+[A-Za-z]?|[IVXLC]+\b)|(\d+(?:\.\d+)+[A-Za-z]?|\d+[A-Za-z]?(?=\.)))(?=\.?(?:\s*[:)\-–—]|\s+["“'(]?[A-Z]|\s*$))/;
+
+/**
+ * The section number a clause heading starts with: "8.1" from "8.1 Indemnification",
+ * "12" from "Section 12. Notices", "V" from "ARTICLE V - TERM"; null when there's none
+ */
+export function extractSectionNumber(heading: string): string | null {
+  const match = heading.match(SECTION_NUMBER_PATTERN);
+  if (!match) return null;
+  return match[1] ?? match[2];
+}
+
+// A clause's section number, from its heading or else a heading at the start of its text
+export function clauseSectionNumber(clause: { title: string | null; content: string }): string | null {
+  const match = clause.content.match(TEXT_SECTION_NUMBER_PATTERN);
+  return extractSectionNumber(clause.title ?? '') ?? (match ? match[1] ?? match[2] : null);
+}
+
+/**
+ * Clause text without the section heading number it starts with, so a renumbered clause reads the same
+ */
+export function stripSectionNumber(text: string): string {
+  const match = text.match(TEXT_SECTION_NUMBER_PATTERN);
+  return match ? text.slice(match[0].length).replace(/^[\s.):-]+/, '') : text;
+}
@@ -4,11 +4,17 @@
  */
 
 import { z } from 'zod';
+import { PARTY_ROLES, PLAYBOOK_POSITIONS } from './utils';
 
 // Maximum text size limits to prevent abuse and excessive API costs
 export const MAX_CONTRACT_TEXT_LENGTH = 500000; // ~500KB of text (roughly 100 pages)
 export const MAX_NAME_LENGTH = 200;
 export const MAX_FILENAME_LENGTH = 255;
+export const MAX_UPLOAD_SIZE_BYTES = 25 * 1024 * 1024; // 25MB per uploaded file
+export const MAX_LOGO_DATA_URL_LENGTH = 3 * 1024 * 1024; // ~2MB image once base64 encoded
+export const MAX_PLAYBOOK_RULE_LENGTH = 1000;
+export const MAX_PLAYBOOK_RULES = 300;
+export const MAX_CLAUSE_TYPE_SYNONYMS = 20;
 
 // Sanitize string input - remove potential XSS/injection patterns
 function sanitizeString(str: string): string {
@@ -40,6 +46,8 @@ export const createComparisonWithTextSchema = z.object({
   comparisonType: z.enum(['template_vs_redline', 'version_comparison']).optional(),
   name: sanitizedStringWithMax(MAX_NAME_LENGTH).optional(),
   orgId: sanitizedStringWithMax(100).optional(),
+  playbookId: z.string().uuid('Invalid playbook ID').nullable().optional(), // null opts out of the org's default playbook
+  partyRole: z.enum(PARTY_ROLES).optional(),
 });
 
 // Comparison creation schema (legacy format with contract IDs)
@@ -49,6 +57,19 @@ export const createComparisonWithIdsSchema = z.object({
   comparisonType: z.enum(['template_vs_redline', 'version_comparison']).optional(),
   name: sanitizedStringWithMax(MAX_NAME_LENGTH).optional(),
   orgId: sanitizedStringWithMax(100).optional(),
+  playbookId: z.string().uuid('Invalid playbook ID').nullable().optional(),
+  partyRole: z.enum(PARTY_ROLES).optional(),
+});
+
+// Comparison creation schema (multipart upload of a single DOCX with tracked changes)
+export const createComparisonFromRedlineSchema = z.object({
+  sourceName: sanitizedStringWithMax(MAX_NAME_LENGTH).optional(),
+  targetName: sanitizedStringWithMax(MAX_NAME_LENGTH).optional(),
+  comparisonType: z.enum(['template_vs_redline', 'version_comparison']).optional(),
+  name: sanitizedStringWithMax(MAX_NAME_LENGTH).optional(),
+  orgId: sanitizedStringWithMax(100).optional(),
+  playbookId: z.string().uuid('Invalid playbook ID').nullable().optional(),
+  partyRole: z.enum(PARTY_ROLES).optional(),
 });
 
 // Contract creation schema
@@ -63,6 +84,13 @@ export const createContractSchema = z.object({
   orgId: sanitizedStringWithMax(100).optional(),
 });
 
+// Contract file upload schema (multipart form fields other than the file itself)
+export const uploadContractSchema = z.object({
+  name: sanitizedStringWithMax(MAX_NAME_LENGTH).optional(),
+  isTemplate: z.enum(['true', 'false']).optional(),
+  orgId: sanitizedStringWithMax(100).optional(),
+});
+
 // Contract processing schema
 export const processContractSchema = z.object({
   text: z.string()
@@ -76,9 +104,100 @@ export const updateComparisonSchema = z.object({
   name: sanitizedStringWithMax(MAX_NAME_LENGTH).optional().nullable(),
 });
 
+// A clause type key, e.g. 'change_of_control'
+export const clauseTypeKeySchema = z.string()
+  .min(1, 'Clause type key is required')
+  .max(60)
+  .regex(/^[a-z][a-z0-9_]*$/, 'Clause type key must be lowercase letters, digits and underscores');
+
+// A single playbook position for a clause type (checked against the org's taxonomy by the route)
+export const playbookRuleSchema = z.object({
+  clauseType: clauseTypeKeySchema,
+  position: z.enum(PLAYBOOK_POSITIONS),
+  rule: z.string()
+    .min(1, 'Rule text is required')
+    .max(MAX_PLAYBOOK_RULE_LENGTH, `Rule text must be less than ${MAX_PLAYBOOK_RULE_LENGTH} characters`)
+    .transform(sanitizeString),
+});
+
+// Playbook creation schema
+export const createPlaybookSchema = z.object({
+  name: z.string()
+    .min(1, 'Playbook name is required')
+    .max(MAX_NAME_LENGTH)
+    .transform(sanitizeString),
+  description: sanitizedStringWithMax(2000).optional().nullable(),
+  isDefault: z.boolean().optional(),
+  rules: z.array(playbookRuleSchema).max(MAX_PLAYBOOK_RULES).optional(),
+  orgId: sanitizedStringWithMax(100).optional(),
+});
+
+// Playbook update schema - rules, when given, replace the playbook's existing rules
+export const updatePlaybookSchema = z.object({
+  name: z.string()
+    .min(1, 'Playbook name is required')
+    .max(MAX_NAME_LENGTH)
+    .transform(sanitizeString)
+    .optional(),
+  description: sanitizedStringWithMax(2000).optional().nullable(),
+  isDefault: z.boolean().optional(),
+  rules: z.array(playbookRuleSchema).max(MAX_PLAYBOOK_RULES).optional(),
+});
+
+// Clause type fields other than the key, which never changes once created
+const clauseTypeFields = {
+  displayName: z.string()
+    .min(1, 'Display name is required')
+    .max(MAX_NAME_LENGTH)
+    .transform(sanitizeString),
+  description: sanitizedStringWithMax(2000).optional().nullable(),
+  synonyms: z.array(sanitizedStringWithMax(MAX_NAME_LENGTH)).max(MAX_CLAUSE_TYPE_SYNONYMS).optional(),
+  parentCategory: sanitizedStringWithMax(MAX_NAME_LENGTH).optional().nullable(),
+  missingRisk: z.number().min(0).max(100).optional(),
+  extractionHints: sanitizedStringWithMax(2000).optional().nullable(),
+  sortOrder: z.number().int().optional(),
+};
+
+// A clause type in an org's taxonomy
+export const clauseTypeSchema = z.object({
+  key: clauseTypeKeySchema,
+  ...clauseTypeFields,
+});
+
+// Clause type creation schema
+export const createClauseTypeSchema = clauseTypeSchema.extend({
+  orgId: sanitizedStringWithMax(100).optional(),
+});
+
+// Clause type update schema
+export const updateClauseTypeSchema = z.object({
+  ...clauseTypeFields,
+  displayName: clauseTypeFields.displayName.optional(),
+});
+
+// Report branding sent with an export request (from the browser's customization settings)
+export const exportBrandingSchema = z.object({
+  siteName: sanitizedStringWithMax(MAX_NAME_LENGTH).optional().nullable(),
+  logoUrl: z.string()
+    .max(MAX_LOGO_DATA_URL_LENGTH, 'Logo image is too large')
+    .regex(/^data:image\/[a-z+.-]+;base64,/i, 'Logo must be an image data URL')
+    .optional()
+    .nullable(),
+});
+
 // UUID validation
 export const uuidSchema = z.string().uuid('Invalid ID format');
 
+// A reviewer's correction to how a comparison's clauses are paired
+export const clausePairingSchema = z.discriminatedUnion('action', [
+  // Pair a source clause with a target clause; whatever either was paired with is left unpaired
+  z.object({ action: z.literal('link'), sourceClauseId: uuidSchema, targetClauseId: uuidSchema }),
+  // Split a pair into a missing source clause and an added target clause
+  z.object({ action: z.literal('unlink'), clauseComparisonId: uuidSchema }),
+  z.object({ action: z.literal('mark_missing'), sourceClauseId: uuidSchema }),
+  z.object({ action: z.literal('mark_added'), targetClauseId: uuidSchema }),
+]);
+
 // Query parameters schema
 export const listQuerySchema = z.object({
   orgId: sanitizedStringWithMax(100).optional(),
@@ -88,9 +207,19 @@ export const listQuerySchema = z.object({
 // Type exports
 export type CreateComparisonWithTextInput = z.infer<typeof createComparisonWithTextSchema>;
 export type CreateComparisonWithIdsInput = z.infer<typeof createComparisonWithIdsSchema>;
+export type CreateComparisonFromRedlineInput = z.infer<typeof createComparisonFromRedlineSchema>;
 export type CreateContractInput = z.infer<typeof createContractSchema>;
+export type UploadContractInput = z.infer<typeof uploadContractSchema>;
 export type ProcessContractInput = z.infer<typeof processContractSchema>;
+export type PlaybookRuleInput = z.infer<typeof playbookRuleSchema>;
+export type CreatePlaybookInput = z.infer<typeof createPlaybookSchema>;
+export type UpdatePlaybookInput = z.infer<typeof updatePlaybookSchema>;
+export type ClauseTypeInput = z.infer<typeof clauseTypeSchema>;
+export type CreateClauseTypeInput = z.infer<typeof createClauseTypeSchema>;
+export type UpdateClauseTypeInput = z.infer<typeof updateClauseTypeSchema>;
+export type ExportBrandingInput = z.infer<typeof exportBrandingSchema>;
 export type UpdateComparisonInput = z.infer<typeof updateComparisonSchema>;
+export type ClausePairingInput = z.infer<typeof clausePairingSchema>;
 
 /**
  * Validate request body against a schema
@@ -0,0 +1,161 @@
+/**
+ * Comparison Worker
+ * Runs inside the Next.js server process: claims queued comparison jobs, runs the
+ * pipeline and renews each job's lease while it works. A job is aborted as soon as its
+ * comparison is cancelled, or when its lease is lost (cancelled, deleted or taken over).
+ */
+
+import { hostname } from 'os';
+import { initializeDatabase } from '@/lib/db';
+import type { ComparisonJob } from '@/lib/db';
+import { runComparisonPipeline, ComparisonCancelledError } from '@/lib/comparison-pipeline';
+import { pruneComparisonEvents, subscribeToComparisonEvents } from '@/lib/events';
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  heartbeatJob,
+  recoverStuckComparisons,
+  JOB_LEASE_MS,
+} from '@/lib/jobs';
+import { v4 as uuidv4 } from 'uuid';
+
+const POLL_INTERVAL_MS = 5000;
+const HEARTBEAT_INTERVAL_MS = JOB_LEASE_MS / 4;
+const DEFAULT_CONCURRENCY = 2;
+const EVENT_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+interface WorkerState {
+  id: string;
+  concurrency: number;
+  running: number;
+  polling: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+  // Running jobs by comparison id, so a cancellation can abort the right one
+  activeJobs: Map<string, AbortController>;
+}
+
+// Kept on globalThis so dev-server module reloads don't start a second worker
+const globalForWorker = globalThis as typeof globalThis & {
+  comparisonWorker?: WorkerState;
+};
+
+function getConcurrency(): number {
+  const concurrency = parseInt(process.env.COMPARISON_WORKER_CONCURRENCY || '', 10);
+  return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : DEFAULT_CONCURRENCY;
+}
+
+async function runJob(worker: WorkerState, job: ComparisonJob) {
+  const controller = new AbortController();
+  worker.activeJobs.set(job.comparisonId, controller);
+
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id, worker.id)
+      .then(renewed => {
+        if (!renewed) {
+          console.warn(`Comparison job ${job.id} is no longer ours, stopping it`);
+          controller.abort(new ComparisonCancelledError(job.comparisonId));
+        }
+      })
+      .catch(err => console.error(`Error renewing lease for comparison job ${job.id}:`, err));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    // Claimed again after its last worker died while already on its final attempt
+    if (job.attempts > job.maxAttempts) {
+      throw new Error(job.lastError || 'Comparison stopped responding and ran out of retries');
+    }
+
+    await runComparisonPipeline(job.comparisonId, controller.signal);
+    await completeJob(job.id, worker.id);
+  } catch (error) {
+    // A cancelled job was already settled by whoever cancelled it
+    if (error instanceof ComparisonCancelledError) return;
+    console.error(`Comparison job ${job.id} failed (attempt ${job.attempts} of ${job.maxAttempts}):`, error);
+    await failJob(job, error);
+  } finally {
+    clearInterval(heartbeat);
+    worker.activeJobs.delete(job.comparisonId);
+  }
+}
+
+// Abort a running job the moment its comparison is cancelled, from whichever process
+async function listenForCancellations(worker: WorkerState) {
+  await subscribeToComparisonEvents(event => {
+    if (event.event !== 'status') return;
+    const controller = worker.activeJobs.get(event.comparisonId);
+    if (controller && JSON.parse(event.data).status === 'cancelled') {
+      controller.abort(new ComparisonCancelledError(event.comparisonId));
+    }
+  });
+}
+
+// Claim jobs until every slot is busy or the queue has nothing due
+async function poll(worker: WorkerState) {
+  if (worker.polling) return;
+  worker.polling = true;
+
+  try {
+    while (worker.running < worker.concurrency) {
+      const job = await claimNextJob(worker.id);
+      if (!job) break;
+
+      worker.running++;
+      runJob(worker, job)
+        .catch(err => console.error(`Error finishing comparison job ${job.id}:`, err))
+        .finally(() => {
+          worker.running--;
+          schedulePoll(worker, 0);
+        });
+    }
+  } catch (error) {
+    console.error('Error claiming comparison jobs:', error);
+  } finally {
+    worker.polling = false;
+  }
+}
+
+function schedulePoll(worker: WorkerState, delay: number) {
+  if (worker.timer) clearTimeout(worker.timer);
+
+  worker.timer = setTimeout(() => {
+    worker.timer = null;
+    poll(worker).finally(() => {
+      if (!worker.timer) schedulePoll(worker, POLL_INTERVAL_MS);
+    });
+  }, delay);
+}
+
+// Start the worker for this process; later calls are no-ops
+export function startWorker(): void {
+  if (globalForWorker.comparisonWorker) return;
+
+  const worker: WorkerState = {
+    id: `${hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`,
+    concurrency: getConcurrency(),
+    running: 0,
+    polling: false,
+    timer: null,
+    activeJobs: new Map(),
+  };
+  globalForWorker.comparisonWorker = worker;
+
+  initializeDatabase()
+    .then(() => {
+      // Lease heartbeats still stop cancelled jobs if this fails, just later
+      listenForCancellations(worker).catch(err => console.error('Error listening for cancellations:', err));
+      return recoverStuckComparisons();
+    })
+    .catch(err => console.error('Error recovering stuck comparisons:', err))
+    .finally(() => schedulePoll(worker, 0));
+
+  setInterval(() => {
+    pruneComparisonEvents().catch(err => console.error('Error pruning comparison events:', err));
+  }, EVENT_PRUNE_INTERVAL_MS).unref();
+}
+
+// Poll straight away instead of waiting for the next interval, e.g. right after queueing a job
+export function wakeWorker(): void {
+  const worker = globalForWorker.comparisonWorker;
+  if (worker) schedulePoll(worker, 0);
+}